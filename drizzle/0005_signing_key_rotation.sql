@@ -0,0 +1,33 @@
+-- Custom migration for signing key rotation
+
+ALTER TABLE "signing_keys" ADD COLUMN IF NOT EXISTS "status" TEXT NOT NULL DEFAULT 'active';
+ALTER TABLE "signing_keys" ADD COLUMN IF NOT EXISTS "valid_from" TIMESTAMP NOT NULL DEFAULT NOW();
+ALTER TABLE "signing_keys" ADD COLUMN IF NOT EXISTS "valid_until" TIMESTAMP;
+ALTER TABLE "signing_keys" ADD COLUMN IF NOT EXISTS "compromised_at" TIMESTAMP;
+ALTER TABLE "signing_keys" ADD COLUMN IF NOT EXISTS "revocation_reason" TEXT;
+
+-- Existing keys were valid from the moment they were created
+UPDATE "signing_keys" SET "valid_from" = "created_at";
+
+ALTER TABLE "signing_keys" ADD CONSTRAINT "signing_keys_status_check"
+  CHECK ("status" IN ('active', 'retired', 'compromised'));
+
+-- Only the newest key of an issuer stays active, older ones are retired
+UPDATE "signing_keys" AS k
+SET "status" = 'retired',
+    "valid_until" = NOW(),
+    "updated_at" = NOW()
+WHERE "status" = 'active'
+  AND EXISTS (
+    SELECT 1 FROM "signing_keys" AS newer
+    WHERE newer."issuer_id" = k."issuer_id"
+      AND newer."status" = 'active'
+      AND (newer."created_at", newer."key_id") > (k."created_at", k."key_id")
+  );
+
+-- At most one active key per issuer
+CREATE UNIQUE INDEX idx_signing_keys_active_issuer ON "signing_keys"("issuer_id") WHERE "status" = 'active';
+CREATE INDEX idx_signing_keys_issuer_id ON "signing_keys"("issuer_id");
+
+-- Proofs are resolved to their key by verification method ID
+CREATE INDEX idx_signing_keys_verification_method ON "signing_keys"(("key_info"->>'id'));
@@ -0,0 +1,19 @@
+-- Custom migration for collision-free status list index allocation
+
+-- Earlier versions derived indices from assertion IDs and never wrote this
+-- table, so it holds no mappings worth keeping. Existing assertions receive
+-- new indices, with the bits of revoked and suspended ones set, from
+-- `bun run db:migrate:status-indices <host URL>` once all migrations ran.
+DELETE FROM "status_list_indices";
+
+ALTER TABLE "status_list_indices"
+  ALTER COLUMN "status_index" TYPE INTEGER USING NULL;
+
+ALTER TABLE "status_list_indices" ADD CONSTRAINT "status_list_indices_status_index_check"
+  CHECK ("status_index" >= 0);
+
+-- An index belongs to exactly one assertion, and an assertion holds at most
+-- one index per list. Mappings are never deleted, so a bit that was set for
+-- an assertion is never handed to another one.
+CREATE UNIQUE INDEX idx_status_list_indices_list_index ON "status_list_indices"("status_list_id", "status_index");
+CREATE UNIQUE INDEX idx_status_list_indices_list_assertion ON "status_list_indices"("status_list_id", "assertion_id");
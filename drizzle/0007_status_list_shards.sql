@@ -0,0 +1,5 @@
+-- Custom migration for sharded status lists
+
+-- An issuer may now hold several status lists. New indices are allocated
+-- from the newest one and the oldest is served at the unsharded URL.
+CREATE INDEX idx_status_lists_issuer_created ON "status_lists"("issuer_id", "created_at");
@@ -0,0 +1,13 @@
+-- Custom migration for the suspension status purpose
+
+ALTER TABLE "status_lists" ADD COLUMN IF NOT EXISTS "status_purpose" TEXT NOT NULL DEFAULT 'revocation';
+
+ALTER TABLE "status_lists" ADD CONSTRAINT "status_lists_status_purpose_check"
+  CHECK ("status_purpose" IN ('revocation', 'suspension'));
+
+-- Issuers hold separate revocation and suspension lists
+DROP INDEX IF EXISTS idx_status_lists_issuer_created;
+CREATE INDEX idx_status_lists_issuer_purpose_created ON "status_lists"("issuer_id", "status_purpose", "created_at");
+
+ALTER TABLE "badge_assertions" ADD COLUMN IF NOT EXISTS "suspended" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "badge_assertions" ADD COLUMN IF NOT EXISTS "suspension_reason" TEXT;
@@ -0,0 +1,27 @@
+-- Custom migration for the assertion status history
+
+CREATE TABLE IF NOT EXISTS "assertion_status_events" (
+  "event_id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "assertion_id" UUID NOT NULL REFERENCES "badge_assertions"("assertion_id"),
+  "status_purpose" TEXT NOT NULL CHECK ("status_purpose" IN ('revocation', 'suspension')),
+  "value" BOOLEAN NOT NULL,
+  "reason" TEXT,
+  "changed_by" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_assertion_status_events_assertion_created ON "assertion_status_events"("assertion_id", "created_at");
+
+-- Events are an audit trail, so they can be added but never changed
+CREATE OR REPLACE FUNCTION prevent_assertion_status_event_change() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'assertion_status_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER assertion_status_events_append_only
+  BEFORE UPDATE OR DELETE ON "assertion_status_events"
+  FOR EACH ROW EXECUTE FUNCTION prevent_assertion_status_event_change();
+
+-- Speeds up the public revocation list of an issuer
+CREATE INDEX idx_badge_assertions_issuer_revoked ON "badge_assertions"("issuer_id") WHERE "revoked";
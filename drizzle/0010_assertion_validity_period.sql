@@ -0,0 +1,12 @@
+-- Custom migration for credential validity periods
+
+ALTER TABLE "badge_classes" ADD COLUMN IF NOT EXISTS "validity_duration" TEXT;
+
+ALTER TABLE "badge_assertions" ADD COLUMN IF NOT EXISTS "valid_from" TIMESTAMP;
+ALTER TABLE "badge_assertions" ADD COLUMN IF NOT EXISTS "valid_until" TIMESTAMP;
+
+ALTER TABLE "badge_assertions" ADD CONSTRAINT "badge_assertions_validity_period_check"
+  CHECK ("valid_until" IS NULL OR "valid_until" > COALESCE("valid_from", "issued_on"));
+
+-- Speeds up listing assertions that expire soon
+CREATE INDEX idx_badge_assertions_valid_until ON "badge_assertions"("valid_until") WHERE "valid_until" IS NOT NULL;
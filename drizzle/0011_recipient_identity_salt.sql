@@ -0,0 +1,5 @@
+-- Custom migration for salted recipient identity hashes
+
+ALTER TABLE "badge_classes" ADD COLUMN IF NOT EXISTS "hash_recipients" BOOLEAN DEFAULT false NOT NULL;
+
+ALTER TABLE "badge_assertions" ADD COLUMN IF NOT EXISTS "recipient_salt" TEXT;
@@ -0,0 +1,19 @@
+-- Custom migration for Open Badges 3.0 Achievement properties of badge classes
+
+ALTER TABLE "badge_classes" ADD COLUMN IF NOT EXISTS "achievement_type" VARCHAR(255);
+ALTER TABLE "badge_classes" ADD COLUMN IF NOT EXISTS "alignment" JSONB;
+ALTER TABLE "badge_classes" ADD COLUMN IF NOT EXISTS "result_description" JSONB;
+ALTER TABLE "badge_classes" ADD COLUMN IF NOT EXISTS "tag" JSONB;
+ALTER TABLE "badge_classes" ADD COLUMN IF NOT EXISTS "credits_available" DOUBLE PRECISION;
+ALTER TABLE "badge_classes" ADD COLUMN IF NOT EXISTS "field_of_study" TEXT;
+ALTER TABLE "badge_classes" ADD COLUMN IF NOT EXISTS "specialization" TEXT;
+ALTER TABLE "badge_classes" ADD COLUMN IF NOT EXISTS "human_code" VARCHAR(255);
+ALTER TABLE "badge_classes" ADD COLUMN IF NOT EXISTS "in_language" VARCHAR(35);
+ALTER TABLE "badge_classes" ADD COLUMN IF NOT EXISTS "version" VARCHAR(255);
+ALTER TABLE "badge_classes" ADD COLUMN IF NOT EXISTS "related" JSONB;
+
+ALTER TABLE "badge_classes" ADD CONSTRAINT "badge_classes_credits_available_check"
+  CHECK ("credits_available" IS NULL OR "credits_available" >= 0);
+
+-- Badge classes are commonly looked up by their human code, e.g. CS-101
+CREATE INDEX idx_badge_classes_human_code ON "badge_classes"("human_code") WHERE "human_code" IS NOT NULL;
@@ -0,0 +1,59 @@
+-- Custom migration for immutable badge class versions
+
+ALTER TABLE "badge_classes" ADD COLUMN IF NOT EXISTS "current_version" INTEGER DEFAULT 1 NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "badge_class_versions" (
+  "version_id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "badge_id" UUID NOT NULL REFERENCES "badge_classes"("badge_id") ON DELETE CASCADE,
+  "version" INTEGER NOT NULL CHECK ("version" > 0),
+  "definition" JSONB NOT NULL,
+  "badge_json" JSONB NOT NULL,
+  "created_by" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE ("badge_id", "version")
+);
+
+-- Existing badge classes start at version 1 with their current definition
+INSERT INTO "badge_class_versions" ("badge_id", "version", "definition", "badge_json", "created_at")
+SELECT
+  "badge_id",
+  1,
+  jsonb_strip_nulls(jsonb_build_object(
+    'name', "name",
+    'description', "description",
+    'imageUrl', "image_url",
+    'criteria', "criteria",
+    'achievementType', "achievement_type",
+    'alignment', "alignment",
+    'resultDescription', "result_description",
+    'tag', "tag",
+    'creditsAvailable', "credits_available",
+    'fieldOfStudy', "field_of_study",
+    'specialization', "specialization",
+    'humanCode', "human_code",
+    'inLanguage', "in_language",
+    'version', "version",
+    'related', "related"
+  )),
+  jsonb_set("badge_json", '{id}', to_jsonb(("badge_json"->>'id') || '/versions/1')),
+  "updated_at"
+FROM "badge_classes"
+ON CONFLICT DO NOTHING;
+
+-- Assertions issued before versioning keep their embedded copy and are not pinned
+ALTER TABLE "badge_assertions" ADD COLUMN IF NOT EXISTS "badge_version" INTEGER;
+
+ALTER TABLE "badge_assertions" ADD CONSTRAINT "badge_assertions_badge_version_fkey"
+  FOREIGN KEY ("badge_id", "badge_version") REFERENCES "badge_class_versions"("badge_id", "version");
+
+-- Earners' badges must keep meaning what they meant when awarded, so
+-- versions can be added but never changed
+CREATE OR REPLACE FUNCTION prevent_badge_class_version_change() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'badge_class_versions is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER badge_class_versions_append_only
+  BEFORE UPDATE ON "badge_class_versions"
+  FOR EACH ROW EXECUTE FUNCTION prevent_badge_class_version_change();
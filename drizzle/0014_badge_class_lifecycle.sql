@@ -0,0 +1,9 @@
+-- Custom migration for the badge class lifecycle
+
+ALTER TABLE "badge_classes" ADD COLUMN IF NOT EXISTS "status" VARCHAR(20) DEFAULT 'active' NOT NULL;
+
+ALTER TABLE "badge_classes" ADD CONSTRAINT "badge_classes_status_check"
+  CHECK ("status" IN ('draft', 'active', 'retired', 'archived'));
+
+-- Speeds up listing an issuer's badge classes by state
+CREATE INDEX idx_badge_classes_issuer_status ON "badge_classes"("issuer_id", "status");
@@ -0,0 +1,19 @@
+-- Custom migration for the badge image media store
+
+CREATE TABLE IF NOT EXISTS "media" (
+  "media_id" UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  "content_hash" VARCHAR(64) NOT NULL,
+  "mime_type" VARCHAR(50) NOT NULL CHECK ("mime_type" IN ('image/png', 'image/svg+xml')),
+  "byte_size" INTEGER NOT NULL CHECK ("byte_size" > 0),
+  "width" INTEGER NOT NULL CHECK ("width" > 0),
+  "height" INTEGER NOT NULL CHECK ("height" > 0),
+  "storage_key" TEXT NOT NULL,
+  "source_url" TEXT,
+  "uploaded_by" TEXT,
+  "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_content_hash ON "media"("content_hash");
+
+-- Images imported for baking are looked up by the URL they came from
+CREATE INDEX IF NOT EXISTS idx_media_source_url ON "media"("source_url");
@@ -0,0 +1,48 @@
+#!/bin/bash
+# Initialize a SoftHSM token for the pkcs11 key store
+#
+# Usage: scripts/init-softhsm.sh [token-dir]
+# Prints the environment variables to use the token.
+
+set -e
+
+TOKEN_DIR="${1:-$(pwd)/.softhsm/tokens}"
+TOKEN_LABEL="${PKCS11_TOKEN_LABEL:-bun-badges}"
+PIN="${PKCS11_PIN:-1234}"
+SO_PIN="${PKCS11_SO_PIN:-12345678}"
+
+if ! command -v softhsm2-util > /dev/null; then
+  echo "softhsm2-util not found; install SoftHSM (e.g. apt-get install softhsm2)" >&2
+  exit 1
+fi
+
+MODULE="${PKCS11_MODULE:-}"
+if [ -z "$MODULE" ]; then
+  for candidate in \
+    /usr/lib/softhsm/libsofthsm2.so \
+    /usr/lib/x86_64-linux-gnu/softhsm/libsofthsm2.so \
+    /usr/local/lib/softhsm/libsofthsm2.so \
+    /opt/homebrew/lib/softhsm/libsofthsm2.so; do
+    if [ -f "$candidate" ]; then
+      MODULE="$candidate"
+      break
+    fi
+  done
+fi
+
+if [ -z "$MODULE" ]; then
+  echo "libsofthsm2.so not found; set PKCS11_MODULE" >&2
+  exit 1
+fi
+
+mkdir -p "$TOKEN_DIR"
+CONF="$(dirname "$TOKEN_DIR")/softhsm2.conf"
+echo "directories.tokendir = $TOKEN_DIR" > "$CONF"
+export SOFTHSM2_CONF="$CONF"
+
+softhsm2-util --init-token --free --label "$TOKEN_LABEL" --pin "$PIN" --so-pin "$SO_PIN" > /dev/null
+
+echo "SOFTHSM2_CONF=$CONF"
+echo "PKCS11_MODULE=$MODULE"
+echo "PKCS11_TOKEN_LABEL=$TOKEN_LABEL"
+echo "PKCS11_PIN=$PIN"
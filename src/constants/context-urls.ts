@@ -19,17 +19,57 @@ export const OB3_CONTEXT_URL =
  */
 export const VC_CONTEXT_URL = "https://www.w3.org/2018/credentials/v1";
 
+/**
+ * W3C Verifiable Credentials Data Model 2.0 Context URL
+ */
+export const VC_V2_CONTEXT_URL = "https://www.w3.org/ns/credentials/v2";
+
 /**
  * W3C Status List 2021 Context URL
  */
 export const STATUS_LIST_CONTEXT_URL =
   "https://w3id.org/vc/status-list/2021/v1";
 
+/**
+ * W3C Bitstring Status List Context URL
+ */
+export const BITSTRING_STATUS_LIST_CONTEXT_URL =
+  "https://www.w3.org/ns/credentials/status/v1";
+
 /**
  * W3C Security Suites JWS 2020 Context URL
  */
 export const JWS_CONTEXT_URL = "https://w3id.org/security/suites/jws-2020/v1";
 
+/**
+ * W3C Data Integrity v1 Context URL
+ */
+export const DATA_INTEGRITY_V1_CONTEXT_URL =
+  "https://w3id.org/security/data-integrity/v1";
+
+/**
+ * W3C Data Integrity v2 Context URL
+ * Defines DataIntegrityProof and its terms for VCDM 1.1 credentials
+ */
+export const DATA_INTEGRITY_CONTEXT_URL =
+  "https://w3id.org/security/data-integrity/v2";
+
+/**
+ * W3C Multikey Context URL
+ */
+export const MULTIKEY_CONTEXT_URL = "https://w3id.org/security/multikey/v1";
+
+/**
+ * W3C JSON Web Key Context URL
+ * Defines the JsonWebKey verification method type
+ */
+export const JWK_CONTEXT_URL = "https://w3id.org/security/jwk/v1";
+
+/**
+ * W3C Decentralized Identifiers v1 Context URL
+ */
+export const DID_CONTEXT_URL = "https://www.w3.org/ns/did/v1";
+
 /**
  * Open Badges 3.0 Credential Schema URL
  */
@@ -1,12 +1,27 @@
 import { Context } from "hono";
 import { db } from "@/db/config";
 import { badgeAssertions, badgeClasses } from "@/db/schema";
-import { eq } from "drizzle-orm";
-import { CredentialService } from "@/services/credential.service";
+import { and, asc, eq, gt, lte } from "drizzle-orm";
+import {
+  CredentialService,
+  MAX_BATCH_REVOCATION_SIZE,
+  type RevocationReportEntry,
+  type RevocationSelection,
+} from "@/services/credential.service";
 import { isValidUuid } from "@/utils/validation";
 import { OB2BadgeAssertion } from "@/services/verification.service";
 import { OpenBadgeCredential } from "@/models/credential.model";
 import { toJsonb } from "@/utils/db-helpers";
+import { VC_JWT_MEDIA_TYPE } from "@/utils/signing/vc-jwt";
+import type { AuthUser } from "@/middleware/auth";
+import { BadRequestError } from "@/utils/errors";
+import { addDuration, parseDuration } from "@/utils/duration";
+import {
+  generateRecipientSalt,
+  hashRecipientIdentity,
+  isHashedIdentity,
+  type RecipientIdentity,
+} from "@/utils/recipient-identity";
 
 type AssertionJson = OB2BadgeAssertion | OpenBadgeCredential;
 
@@ -17,6 +32,20 @@ export class AssertionController {
     this.credentialService = new CredentialService();
   }
 
+  /**
+   * Check whether the client asked for a VC-JWT instead of JSON
+   */
+  private acceptsJwt(c: Context): boolean {
+    return (c.req.header("Accept") || "").includes(VC_JWT_MEDIA_TYPE);
+  }
+
+  /**
+   * ID of the authenticated user, recorded with status changes
+   */
+  private currentUserId(c: Context): string | undefined {
+    return (c.get("user") as AuthUser | undefined)?.id;
+  }
+
   /**
    * List all assertions with optional filters
    */
@@ -46,22 +75,39 @@ export class AssertionController {
         });
       }
 
-      // Build query based on filters
-      let results;
-      if (badgeId) {
-        results = await db
-          .select()
-          .from(badgeAssertions)
-          .where(eq(badgeAssertions.badgeId, badgeId));
-      } else if (issuerId) {
-        results = await db
-          .select()
-          .from(badgeAssertions)
-          .where(eq(badgeAssertions.issuerId, issuerId));
-      } else {
-        results = await db.select().from(badgeAssertions);
+      // Soon-to-expire awards: unrevoked and expiring within the duration
+      let expiringBefore: Date | undefined;
+      if (query.expiringWithin !== undefined) {
+        const duration = parseDuration(query.expiringWithin);
+        if (!duration) {
+          return this.validationError(
+            c,
+            "expiringWithin must be an ISO 8601 duration, e.g. P30D for 30 days",
+          );
+        }
+        expiringBefore = addDuration(new Date(), duration);
       }
 
+      // Build query based on filters
+      const conditions = [
+        badgeId ? eq(badgeAssertions.badgeId, badgeId) : undefined,
+        issuerId ? eq(badgeAssertions.issuerId, issuerId) : undefined,
+        ...(expiringBefore
+          ? [
+              gt(badgeAssertions.validUntil, new Date()),
+              lte(badgeAssertions.validUntil, expiringBefore),
+              eq(badgeAssertions.revoked, false),
+            ]
+          : []),
+      ];
+      const selected = db
+        .select()
+        .from(badgeAssertions)
+        .where(and(...conditions));
+      const results = expiringBefore
+        ? await selected.orderBy(asc(badgeAssertions.validUntil))
+        : await selected;
+
       // Map results and handle format conversion if needed
       const assertions = await Promise.all(
         results.map(async (result) => {
@@ -91,6 +137,9 @@ export class AssertionController {
         },
       });
     } catch (error) {
+      if (error instanceof BadRequestError) {
+        return this.validationError(c, error.message);
+      }
       console.error("Failed to list assertions:", error);
       return c.json(
         {
@@ -158,6 +207,15 @@ export class AssertionController {
       const result = assertion[0];
       const assertionJson = result.assertionJson as AssertionJson;
 
+      // Return the OB3 credential as a VC-JWT if requested
+      if (this.acceptsJwt(c)) {
+        const jwt = await this.credentialService.createCredentialJwt(
+          new URL(c.req.url).origin,
+          result.assertionId,
+        );
+        return c.body(jwt, 200, { "Content-Type": VC_JWT_MEDIA_TYPE });
+      }
+
       // Convert to OB3 if requested
       if (format === "ob3" && !("proof" in assertionJson)) {
         const credential = await this.credentialService.createCredential(
@@ -199,6 +257,95 @@ export class AssertionController {
     }
   }
 
+  /**
+   * Work out when an award is valid from the request and the badge class
+   * An explicit validUntil (or OB2 expires) wins over a validityDuration in
+   * the request, which wins over the badge class's default duration. The
+   * duration counts from validFrom, or from issuance when there is none.
+   * @throws BadRequestError if a value is malformed or the period is empty
+   */
+  private resolveValidityPeriod(
+    body: Record<string, unknown>,
+    issuedOn: Date,
+    defaultDuration: string | null,
+  ): { validFrom?: Date; validUntil?: Date } {
+    const parseDate = (field: string) => {
+      const value = body[field];
+      if (value === undefined || value === null) {
+        return undefined;
+      }
+      const date = new Date(value as string);
+      if (typeof value !== "string" || Number.isNaN(date.getTime())) {
+        throw new BadRequestError(`${field} must be an ISO 8601 date`);
+      }
+      return date;
+    };
+
+    const validFrom = parseDate("validFrom");
+    let validUntil = parseDate("validUntil") ?? parseDate("expires");
+
+    if (!validUntil) {
+      const durationValue = body.validityDuration ?? defaultDuration;
+      if (durationValue !== undefined && durationValue !== null) {
+        const duration = parseDuration(durationValue);
+        if (!duration) {
+          throw new BadRequestError(
+            "validityDuration must be an ISO 8601 duration, e.g. P2Y for two years",
+          );
+        }
+        validUntil = addDuration(validFrom ?? issuedOn, duration);
+      }
+    }
+
+    if (validUntil && validUntil <= (validFrom ?? issuedOn)) {
+      throw new BadRequestError(
+        "validUntil must be after validFrom, or after issuance without one",
+      );
+    }
+
+    return { validFrom, validUntil };
+  }
+
+  /**
+   * Work out how an award's recipient is identified
+   * recipient.hashed wins over the badge class's default. A plaintext identity
+   * that is hashed gets a new salt; an identity hashed by the caller, e.g.
+   * "sha256$...", is kept together with the salt it was hashed with.
+   * @throws BadRequestError if hashed or salt has the wrong type
+   */
+  private resolveRecipient(
+    recipient: Record<string, unknown>,
+    hashByDefault: boolean,
+  ): RecipientIdentity {
+    const { type, identity, hashed, salt } = recipient as {
+      type: string;
+      identity: string;
+      hashed?: unknown;
+      salt?: unknown;
+    };
+    if (hashed !== undefined && typeof hashed !== "boolean") {
+      throw new BadRequestError("recipient.hashed must be a boolean");
+    }
+    if (salt !== undefined && typeof salt !== "string") {
+      throw new BadRequestError("recipient.salt must be a string");
+    }
+
+    if (isHashedIdentity(identity)) {
+      return { type, identity, hashed: true, salt: salt ?? null };
+    }
+    if (!(hashed ?? hashByDefault)) {
+      return { type, identity, hashed: false, salt: null };
+    }
+
+    const newSalt = generateRecipientSalt();
+    return {
+      type,
+      identity: hashRecipientIdentity(identity, type, newSalt),
+      hashed: true,
+      salt: newSalt,
+    };
+  }
+
   /**
    * Create a new badge assertion
    */
@@ -281,43 +428,104 @@ export class AssertionController {
         );
       }
 
+      // Only active badge classes can be awarded
+      if (badge[0].status !== "active") {
+        return c.json(
+          {
+            status: "error",
+            error: {
+              code: "CONFLICT",
+              message: `Badge class is ${badge[0].status} and cannot be issued`,
+            },
+          },
+          409,
+        );
+      }
+
       // Create the assertion
       const assertionId = crypto.randomUUID();
       const now = new Date();
+      const hostUrl = new URL(c.req.url).origin;
 
-      // Create the assertion in the database
-      await db.insert(badgeAssertions).values({
-        assertionId,
-        badgeId,
-        issuerId: badge[0].issuerId,
-        recipientType: recipient.type,
-        recipientIdentity: recipient.identity,
-        recipientHashed: false,
-        issuedOn: now,
-        evidenceUrl: evidence?.url,
-        revoked: false,
-        assertionJson: toJsonb({
-          "@context": "https://w3id.org/openbadges/v2",
-          type: "Assertion",
-          id: `${new URL(c.req.url).origin}/assertions/${assertionId}`,
-          recipient: {
-            type: recipient.type,
-            identity: recipient.identity,
-            hashed: false,
-          },
-          badge: badge[0].badgeJson,
-          issuedOn: now.toISOString(),
-          verification: {
-            type: "HostedBadge",
-          },
-        }),
+      // Credentials and status lists are signed, so the issuer needs a key
+      await this.credentialService.ensureIssuerKeyExists(badge[0].issuerId);
+
+      const { validFrom, validUntil } = this.resolveValidityPeriod(
+        body,
+        now,
+        badge[0].validityDuration,
+      );
+      const identity = this.resolveRecipient(
+        recipient,
+        badge[0].hashRecipients,
+      );
+
+      // Pin the badge class version the award is issued under
+      const badgeVersion =
+        await this.credentialService.badgeVersionService.getVersion(
+          badgeId,
+          badge[0].currentVersion,
+        );
+      const assertionJson = {
+        "@context": "https://w3id.org/openbadges/v2",
+        type: "Assertion",
+        id: `${hostUrl}/assertions/${assertionId}`,
+        recipient: {
+          type: identity.type,
+          identity: identity.identity,
+          hashed: identity.hashed,
+          ...(identity.salt && { salt: identity.salt }),
+        },
+        badge: badgeVersion?.badgeJson ?? badge[0].badgeJson,
+        issuedOn: now.toISOString(),
+        // OB2 has no start of validity, only an expiry
+        ...(validUntil && { expires: validUntil.toISOString() }),
+        verification: {
+          type: "HostedBadge",
+        },
+      };
+
+      // Create the assertion and reserve its status list indices together
+      await db.transaction(async (tx) => {
+        await tx.insert(badgeAssertions).values({
+          assertionId,
+          badgeId,
+          issuerId: badge[0].issuerId,
+          recipientType: identity.type,
+          recipientIdentity: identity.identity,
+          recipientHashed: identity.hashed,
+          recipientSalt: identity.salt,
+          badgeVersion: badgeVersion?.version ?? null,
+          issuedOn: now,
+          validFrom,
+          validUntil,
+          evidenceUrl: evidence?.url,
+          revoked: false,
+          assertionJson: toJsonb(assertionJson),
+        });
+
+        // Reserved for OB2 awards too, which can be fetched as OB3 later
+        await this.credentialService.statusListService.allocateEntries(
+          hostUrl,
+          badge[0].issuerId,
+          assertionId,
+          tx,
+        );
       });
 
-      // For OB3 format, ensure signing key exists and convert to OB3
+      // For OB3 format, convert to OB3
       if (format === "ob3") {
-        await this.credentialService.ensureIssuerKeyExists(badge[0].issuerId);
+        // Return the credential as a VC-JWT if requested
+        if (this.acceptsJwt(c)) {
+          const jwt = await this.credentialService.createCredentialJwt(
+            hostUrl,
+            assertionId,
+          );
+          return c.body(jwt, 200, { "Content-Type": VC_JWT_MEDIA_TYPE });
+        }
+
         const credential = await this.credentialService.createCredential(
-          new URL(c.req.url).origin,
+          hostUrl,
           assertionId,
         );
         return c.json({
@@ -337,25 +545,14 @@ export class AssertionController {
         data: {
           assertionId,
           assertion: {
-            assertionJson: {
-              "@context": "https://w3id.org/openbadges/v2",
-              type: "Assertion",
-              id: `${new URL(c.req.url).origin}/assertions/${assertionId}`,
-              recipient: {
-                type: recipient.type,
-                identity: recipient.identity,
-                hashed: false,
-              },
-              badge: badge[0].badgeJson,
-              issuedOn: now.toISOString(),
-              verification: {
-                type: "HostedBadge",
-              },
-            },
+            assertionJson,
           },
         },
       });
     } catch (error) {
+      if (error instanceof BadRequestError) {
+        return this.validationError(c, error.message);
+      }
       console.error("Failed to create assertion:", error);
       return c.json(
         {
@@ -441,17 +638,14 @@ export class AssertionController {
       const result = assertion[0];
       const assertionJson = result.assertionJson as AssertionJson;
 
-      // Update the assertion
-      const updatedAssertion = await db
-        .update(badgeAssertions)
-        .set({
-          revoked: true,
-          revocationReason: reason,
-        })
-        .where(eq(badgeAssertions.assertionId, assertionId))
-        .returning();
-
-      if (!updatedAssertion || updatedAssertion.length === 0) {
+      const updatedAssertion =
+        await this.credentialService.updateCredentialRevocationStatus(
+          assertionId,
+          true,
+          reason,
+          this.currentUserId(c),
+        );
+      if (!updatedAssertion) {
         throw new Error("Failed to update assertion");
       }
 
@@ -465,7 +659,7 @@ export class AssertionController {
           status: "success",
           data: {
             assertion: {
-              ...updatedAssertion[0],
+              ...updatedAssertion,
               assertionJson: credential,
             },
           },
@@ -476,7 +670,7 @@ export class AssertionController {
         status: "success",
         data: {
           assertion: {
-            ...updatedAssertion[0],
+            ...updatedAssertion,
             assertionJson,
           },
         },
@@ -496,5 +690,328 @@ export class AssertionController {
     }
   }
 
-  // Removed unused function: hashRecipientIdentity
+  /**
+   * Revoke many badge assertions at once
+   * The body holds the `issuerId` whose assertions are revoked, a reason and
+   * either `assertionIds` or a filter of `badgeId`, `issuedFrom` and
+   * `issuedTo`. Status lists are re-signed once per batch, and the response
+   * reports the outcome for every assertion.
+   */
+  async revokeAssertionsBatch(c: Context) {
+    try {
+      let body: Record<string, unknown>;
+      try {
+        body = await c.req.json();
+      } catch {
+        return this.validationError(c, "Request body must be JSON");
+      }
+
+      const { issuerId, reason, assertionIds, badgeId, issuedFrom, issuedTo } =
+        body;
+      if (typeof issuerId !== "string" || !isValidUuid(issuerId)) {
+        return this.validationError(c, "issuerId must be a UUID");
+      }
+      if (!reason || typeof reason !== "string") {
+        return this.validationError(c, "Revocation reason is required");
+      }
+
+      const hasFilter =
+        badgeId !== undefined ||
+        issuedFrom !== undefined ||
+        issuedTo !== undefined;
+      if ((assertionIds === undefined) === !hasFilter) {
+        return this.validationError(
+          c,
+          "Provide either assertionIds or a filter (badgeId, issuedFrom, issuedTo)",
+        );
+      }
+
+      let selection: RevocationSelection;
+      if (assertionIds !== undefined) {
+        if (
+          !Array.isArray(assertionIds) ||
+          assertionIds.length === 0 ||
+          !assertionIds.every((id) => typeof id === "string" && isValidUuid(id))
+        ) {
+          return this.validationError(
+            c,
+            "assertionIds must be a non-empty array of UUIDs",
+          );
+        }
+        if (assertionIds.length > MAX_BATCH_REVOCATION_SIZE) {
+          return this.validationError(
+            c,
+            `At most ${MAX_BATCH_REVOCATION_SIZE} assertions can be revoked at once`,
+          );
+        }
+        selection = { issuerId, assertionIds };
+      } else {
+        if (
+          badgeId !== undefined &&
+          (typeof badgeId !== "string" || !isValidUuid(badgeId))
+        ) {
+          return this.validationError(c, "badgeId must be a UUID");
+        }
+        const from =
+          issuedFrom !== undefined ? new Date(String(issuedFrom)) : undefined;
+        const to =
+          issuedTo !== undefined ? new Date(String(issuedTo)) : undefined;
+        if (
+          (from && Number.isNaN(from.getTime())) ||
+          (to && Number.isNaN(to.getTime()))
+        ) {
+          return this.validationError(
+            c,
+            "issuedFrom and issuedTo must be ISO 8601 dates",
+          );
+        }
+        selection = {
+          issuerId,
+          badgeId: badgeId as string | undefined,
+          issuedFrom: from,
+          issuedTo: to,
+        };
+      }
+
+      const results = await this.credentialService.revokeCredentials(
+        selection,
+        reason,
+        this.currentUserId(c),
+      );
+      const count = (result: RevocationReportEntry["result"]) =>
+        results.filter((entry) => entry.result === result).length;
+
+      return c.json({
+        status: "success",
+        data: {
+          reason,
+          summary: {
+            total: results.length,
+            revoked: count("revoked"),
+            alreadyRevoked: count("already_revoked"),
+            notFound: count("not_found"),
+          },
+          results,
+        },
+      });
+    } catch (error) {
+      if (error instanceof BadRequestError) {
+        return this.validationError(c, error.message);
+      }
+      console.error("Failed to revoke assertions:", error);
+      return c.json(
+        {
+          status: "error",
+          error: {
+            code: "SERVER_ERROR",
+            message: "Failed to revoke assertions",
+          },
+        },
+        500,
+      );
+    }
+  }
+
+  private validationError(c: Context, message: string) {
+    return c.json(
+      {
+        status: "error",
+        error: {
+          code: "VALIDATION",
+          message,
+        },
+      },
+      400,
+    );
+  }
+
+  /**
+   * Get the revocation and suspension changes of an assertion
+   */
+  async getStatusHistory(c: Context) {
+    try {
+      const assertionId = c.req.param("id");
+
+      if (!assertionId || !isValidUuid(assertionId)) {
+        return c.json(
+          {
+            status: "error",
+            error: {
+              code: "NOT_FOUND",
+              message: "Assertion not found",
+            },
+          },
+          404,
+        );
+      }
+
+      const [assertion] = await db
+        .select({
+          revoked: badgeAssertions.revoked,
+          suspended: badgeAssertions.suspended,
+        })
+        .from(badgeAssertions)
+        .where(eq(badgeAssertions.assertionId, assertionId))
+        .limit(1);
+
+      if (!assertion) {
+        return c.json(
+          {
+            status: "error",
+            error: {
+              code: "NOT_FOUND",
+              message: "Assertion not found",
+            },
+          },
+          404,
+        );
+      }
+
+      const events =
+        await this.credentialService.statusHistoryService.getHistory(
+          assertionId,
+        );
+
+      return c.json({
+        status: "success",
+        data: {
+          id: assertionId,
+          revoked: assertion.revoked,
+          suspended: assertion.suspended,
+          events,
+        },
+      });
+    } catch (error) {
+      console.error("Failed to get assertion status history:", error);
+      return c.json(
+        {
+          status: "error",
+          error: {
+            code: "SERVER_ERROR",
+            message: "Failed to retrieve status history",
+          },
+        },
+        500,
+      );
+    }
+  }
+
+  /**
+   * Temporarily suspend a badge assertion
+   */
+  async suspendAssertion(c: Context) {
+    return this.setSuspension(c, true);
+  }
+
+  /**
+   * Lift the suspension of a badge assertion
+   */
+  async unsuspendAssertion(c: Context) {
+    return this.setSuspension(c, false);
+  }
+
+  /**
+   * Set an assertion's suspension bit and record the change
+   */
+  private async setSuspension(c: Context, suspended: boolean) {
+    const action = suspended ? "suspend" : "unsuspend";
+    try {
+      const assertionId = c.req.param("id");
+
+      // The reason is optional
+      let reason: string | undefined;
+      try {
+        const body = await c.req.json();
+        reason = typeof body?.reason === "string" ? body.reason : undefined;
+      } catch (e) {
+        // An empty body carries no reason
+      }
+
+      if (!assertionId || !isValidUuid(assertionId)) {
+        return c.json(
+          {
+            status: "error",
+            error: {
+              code: "NOT_FOUND",
+              message: "Assertion not found",
+            },
+          },
+          404,
+        );
+      }
+
+      const [assertion] = await db
+        .select({ revoked: badgeAssertions.revoked })
+        .from(badgeAssertions)
+        .where(eq(badgeAssertions.assertionId, assertionId))
+        .limit(1);
+
+      if (!assertion) {
+        return c.json(
+          {
+            status: "error",
+            error: {
+              code: "NOT_FOUND",
+              message: "Assertion not found",
+            },
+          },
+          404,
+        );
+      }
+
+      // Revocation is permanent, suspending on top of it means nothing
+      if (suspended && assertion.revoked) {
+        return c.json(
+          {
+            status: "error",
+            error: {
+              code: "VALIDATION",
+              message: "Revoked assertions cannot be suspended",
+            },
+          },
+          400,
+        );
+      }
+
+      const updatedAssertion =
+        await this.credentialService.updateCredentialSuspensionStatus(
+          new URL(c.req.url).origin,
+          assertionId,
+          suspended,
+          reason,
+          this.currentUserId(c),
+        );
+      if (!updatedAssertion) {
+        return c.json(
+          {
+            status: "error",
+            error: {
+              code: "NOT_FOUND",
+              message: "Assertion not found",
+            },
+          },
+          404,
+        );
+      }
+
+      return c.json({
+        status: "success",
+        data: {
+          assertion: updatedAssertion,
+        },
+      });
+    } catch (error) {
+      console.error(`Failed to ${action} assertion:`, error);
+      return c.json(
+        {
+          status: "error",
+          error: {
+            code: "SERVER_ERROR",
+            message: `Failed to ${action} assertion`,
+          },
+        },
+        500,
+      );
+    }
+  }
 }
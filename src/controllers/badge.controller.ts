@@ -1,9 +1,11 @@
-import { eq, count } from "drizzle-orm";
+import { eq } from "drizzle-orm";
 import { db } from "@/db/config";
-import { badgeAssertions, badgeClasses, issuerProfiles } from "@/db/schema";
+import { badgeClasses, issuerProfiles } from "@/db/schema";
 import { getSigningKey } from "@/utils/signing/keys";
-import * as ed from "@noble/ed25519";
-import { base64url } from "@scure/base";
+import {
+  createDataIntegrityProof,
+  withDataIntegrityContext,
+} from "@/utils/signing/data-integrity";
 import {
   OB2_CONTEXT_URL,
   OB3_CREDENTIAL_CONTEXT,
@@ -56,15 +58,6 @@ interface RecipientObject {
 }
 
 export class BadgeController {
-  async hasBadgeAssertions(badgeId: string): Promise<boolean> {
-    const result = await db
-      .select({ count: count() })
-      .from(badgeAssertions)
-      .where(eq(badgeAssertions.badgeId, badgeId));
-
-    return result[0].count > 0;
-  }
-
   /**
    * Construct an Open Badges 2.0 badge class JSON
    */
@@ -143,6 +136,7 @@ export class BadgeController {
       recipientType: string;
       recipientIdentity: string;
       recipientHashed: boolean;
+      recipientSalt?: string | null;
       issuedOn: Date;
       evidenceUrl?: string | null;
     },
@@ -156,9 +150,9 @@ export class BadgeController {
       hashed: assertion.recipientHashed,
     };
 
-    // Add salt if recipient is hashed
-    if (assertion.recipientHashed) {
-      recipientObj.salt = crypto.randomUUID();
+    // A hashed identity can only be checked with the salt it was hashed with
+    if (assertion.recipientHashed && assertion.recipientSalt) {
+      recipientObj.salt = assertion.recipientSalt;
     }
 
     return {
@@ -193,6 +187,7 @@ export class BadgeController {
       recipientType: string;
       recipientIdentity: string;
       recipientHashed: boolean;
+      recipientSalt?: string | null;
       issuedOn: Date;
       evidenceUrl?: string | null;
     },
@@ -200,22 +195,30 @@ export class BadgeController {
     // issuerJson param is retained for API consistency but not used in implementation
     _issuerJson: Record<string, unknown>,
   ) {
-    // Create the base assertion
-    const recipientObj: RecipientObject = {
-      type:
-        assertion.recipientType === "email"
-          ? "EmailCredentialSubject"
-          : "IdentityObject",
-      identity: assertion.recipientIdentity,
-      hashed: assertion.recipientHashed,
-    };
+    // DID and URL recipients are identified by id, all others through an
+    // IdentityObject so every term is defined by the OB3 context
+    const recipient =
+      !assertion.recipientHashed &&
+      (assertion.recipientType === "did" || assertion.recipientType === "url")
+        ? { id: assertion.recipientIdentity }
+        : {
+            identifier: [
+              {
+                type: "IdentityObject",
+                identityHash: assertion.recipientIdentity,
+                identityType:
+                  assertion.recipientType === "email"
+                    ? "emailAddress"
+                    : "identifier",
+                hashed: assertion.recipientHashed,
+                ...(assertion.recipientSalt && {
+                  salt: assertion.recipientSalt,
+                }),
+              },
+            ],
+          };
 
-    // Add salt if recipient is hashed
-    if (assertion.recipientHashed) {
-      recipientObj.salt = crypto.randomUUID();
-    }
-
-    const credential = {
+    const credential = withDataIntegrityContext({
       "@context": OB3_CREDENTIAL_CONTEXT,
       id: `${hostUrl}/assertions/${assertion.assertionId}`,
       type: ["VerifiableCredential", "OpenBadgeCredential"],
@@ -225,19 +228,27 @@ export class BadgeController {
       },
       issuanceDate: assertion.issuedOn.toISOString(),
       credentialSubject: {
-        id: assertion.recipientIdentity,
-        ...recipientObj,
-        achievement: badgeJson,
+        ...recipient,
+        type: ["AchievementSubject"],
+        achievement: {
+          id: badgeJson.id,
+          type: ["Achievement"],
+          name: badgeJson.name,
+          description: badgeJson.description,
+          image: badgeJson.image,
+          criteria: badgeJson.achievementCriteria,
+          creator: badgeJson.issuer,
+        },
       },
-      evidence: assertion.evidenceUrl
-        ? [
-            {
-              id: assertion.evidenceUrl,
-              type: "Evidence",
-            },
-          ]
-        : undefined,
-    };
+      ...(assertion.evidenceUrl && {
+        evidence: [
+          {
+            id: assertion.evidenceUrl,
+            type: ["Evidence"],
+          },
+        ],
+      }),
+    });
 
     // Add cryptographic proof
     const signingKey = await getSigningKey(assertion.issuerId);
@@ -245,25 +256,14 @@ export class BadgeController {
       throw new Error("Issuer signing key not found");
     }
 
-    // Create a canonical form of the credential for signing
-    const canonicalData = JSON.stringify(credential);
-    const dataToSign = new TextEncoder().encode(canonicalData);
+    const proof = await createDataIntegrityProof(credential, signingKey.sign, {
+      verificationMethod: signingKey.keyInfo.id,
+      proofPurpose: "assertionMethod",
+    });
 
-    // Sign the credential
-    const signature = await ed.sign(dataToSign, signingKey.privateKey);
-    const proofValue = base64url.encode(signature);
-
-    // Add the proof to the credential
     return {
       ...credential,
-      proof: {
-        type: "DataIntegrityProof",
-        cryptosuite: "eddsa-rdfc-2022",
-        created: new Date().toISOString(),
-        verificationMethod: signingKey.keyInfo.id,
-        proofPurpose: "assertionMethod",
-        proofValue,
-      },
+      proof,
     };
   }
 
@@ -0,0 +1,125 @@
+import { type Context } from "hono";
+import { eq } from "drizzle-orm";
+import { db } from "@/db/config";
+import { issuerProfiles } from "@/db/schema";
+import { listSigningKeys } from "@/utils/signing/keys";
+import { getHostDid, getIssuerDid } from "@/utils/did/did-web";
+import {
+  buildDidDocument,
+  DID_DOCUMENT_MEDIA_TYPE,
+} from "@/utils/did/did-document";
+import { isValidUuid } from "@/utils/validation";
+import { createLogger } from "@/utils/logger";
+
+const logger = createLogger("DidController");
+
+// Keys change rarely, but a revoked key must disappear quickly
+const DID_DOCUMENT_CACHE_CONTROL = "public, max-age=300";
+
+/**
+ * Controller serving did:web DID documents
+ */
+export class DidController {
+  private notFound(c: Context, message: string) {
+    return c.json(
+      {
+        status: "error",
+        error: {
+          code: "NOT_FOUND",
+          message,
+        },
+      },
+      404,
+    );
+  }
+
+  private serverError(c: Context, message: string) {
+    return c.json(
+      {
+        status: "error",
+        error: {
+          code: "SERVER_ERROR",
+          message,
+        },
+      },
+      500,
+    );
+  }
+
+  /**
+   * Build the DID document of an issuer and send it
+   */
+  private async sendDidDocument(
+    c: Context,
+    did: string,
+    issuerId: string,
+    hostUrl: string,
+  ) {
+    const [issuer] = await db
+      .select({ issuerId: issuerProfiles.issuerId })
+      .from(issuerProfiles)
+      .where(eq(issuerProfiles.issuerId, issuerId))
+      .limit(1);
+    if (!issuer) {
+      return this.notFound(c, "Issuer not found");
+    }
+
+    const keys = await listSigningKeys(issuerId);
+    const document = await buildDidDocument(did, keys, [
+      `${hostUrl}/issuers/${issuerId}`,
+    ]);
+
+    return c.json(document, 200, {
+      "Content-Type": DID_DOCUMENT_MEDIA_TYPE,
+      "Cache-Control": DID_DOCUMENT_CACHE_CONTROL,
+    });
+  }
+
+  /**
+   * Serve the DID document of did:web:<host>:issuers:<id>
+   */
+  async getIssuerDidDocument(c: Context) {
+    const issuerId = c.req.param("id");
+    if (!issuerId || !isValidUuid(issuerId)) {
+      return this.notFound(c, "Issuer not found");
+    }
+
+    try {
+      const hostUrl = new URL(c.req.url).origin;
+      return await this.sendDidDocument(
+        c,
+        getIssuerDid(hostUrl, issuerId),
+        issuerId,
+        hostUrl,
+      );
+    } catch (error) {
+      logger.error("Failed to build issuer DID document", error);
+      return this.serverError(c, "Failed to build DID document");
+    }
+  }
+
+  /**
+   * Serve the DID document of did:web:<host>
+   * The host DID speaks for the issuer named by DID_WEB_HOST_ISSUER_ID, so
+   * single issuer deployments can sign as their bare domain.
+   */
+  async getHostDidDocument(c: Context) {
+    const issuerId = process.env.DID_WEB_HOST_ISSUER_ID;
+    if (!issuerId || !isValidUuid(issuerId)) {
+      return this.notFound(c, "No host DID is configured");
+    }
+
+    try {
+      const hostUrl = new URL(c.req.url).origin;
+      return await this.sendDidDocument(
+        c,
+        getHostDid(hostUrl),
+        issuerId,
+        hostUrl,
+      );
+    } catch (error) {
+      logger.error("Failed to build host DID document", error);
+      return this.serverError(c, "Failed to build DID document");
+    }
+  }
+}
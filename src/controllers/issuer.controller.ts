@@ -6,7 +6,11 @@ import {
   UpdateIssuerDto,
   constructIssuerJsonLd,
   constructIssuerJsonLdV3,
+  constructRevocationList,
+  getRevocationListUrl,
 } from "../models/issuer.model";
+import { StatusHistoryService } from "../services/status-history.service";
+import { isValidUuid } from "../utils/validation";
 import crypto from "crypto";
 import { type Context } from "hono";
 
@@ -46,6 +50,8 @@ function nullToUndefined<T>(value: T | null): T | undefined {
 }
 
 export class IssuerController {
+  private statusHistoryService = new StatusHistoryService();
+
   /**
    * List all issuer profiles with optional pagination
    */
@@ -143,6 +149,8 @@ export class IssuerController {
       // Transform issuer based on requested version
       const transformedIssuer = {
         ...issuer[0],
+        // Where relying parties fetch the keys of JWT credentials
+        jwksUri: `${new URL(c.req.url).origin}/api/issuers/${issuer[0].issuerId}/jwks.json`,
         description: nullToUndefined(issuer[0].description),
         email: nullToUndefined(issuer[0].email),
         issuerJson:
@@ -185,6 +193,64 @@ export class IssuerController {
     }
   }
 
+  /**
+   * Get an issuer's revoked assertions as an OB2 RevocationList
+   * Open Badges 2.0 verifiers find it through the profile's revocationList.
+   */
+  async getRevocationList(c: Context): Promise<Response> {
+    const issuerId = c.req.param("id");
+    const notFound = () =>
+      c.json(
+        {
+          status: "error",
+          error: {
+            code: "NOT_FOUND",
+            message: "Issuer not found",
+          },
+        },
+        404,
+      );
+
+    if (!issuerId || !isValidUuid(issuerId)) {
+      return notFound();
+    }
+
+    try {
+      const [issuer] = await db
+        .select({ issuerId: issuerProfiles.issuerId })
+        .from(issuerProfiles)
+        .where(eq(issuerProfiles.issuerId, issuerId))
+        .limit(1);
+      if (!issuer) {
+        return notFound();
+      }
+
+      const hostUrl = new URL(c.req.url).origin;
+      const { assertions } =
+        await this.statusHistoryService.listRevokedAssertions(issuerId);
+      return c.json(
+        constructRevocationList(
+          hostUrl,
+          issuerId,
+          getRevocationListUrl(hostUrl, issuerId),
+          assertions,
+        ),
+      );
+    } catch (error) {
+      console.error("Failed to get revocation list:", error);
+      return c.json(
+        {
+          status: "error",
+          error: {
+            code: "SERVER_ERROR",
+            message: "Failed to retrieve revocation list",
+          },
+        },
+        500,
+      );
+    }
+  }
+
   /**
    * Create a new issuer profile
    */
@@ -0,0 +1,263 @@
+import { type Context } from "hono";
+import {
+  listSigningKeys,
+  rotateSigningKey,
+  revokeSigningKey,
+  type SigningKeyRecord,
+} from "@/utils/signing/keys";
+import { VC_JWT_ALGORITHM } from "@/utils/signing/vc-jwt";
+import { CredentialService } from "@/services/credential.service";
+import { isValidUuid } from "@/utils/validation";
+import { createLogger } from "@/utils/logger";
+
+const logger = createLogger("SigningKeyController");
+
+/**
+ * Media type of a JWK Set (RFC 7517)
+ */
+const JWK_SET_MEDIA_TYPE = "application/jwk-set+json";
+
+// Keys change rarely, but a revoked key must disappear quickly
+const JWKS_CACHE_CONTROL = "public, max-age=300";
+
+/**
+ * Request body for revoking a signing key
+ */
+interface RevokeSigningKeyDto {
+  reason?: string;
+  compromisedAt?: string;
+}
+
+/**
+ * Public view of a signing key; the private key is never returned
+ */
+function toKeyResponse(key: SigningKeyRecord) {
+  return {
+    keyId: key.keyId,
+    verificationMethod: key.keyInfo.id,
+    controller: key.controller,
+    type: key.type,
+    status: key.status,
+    validFrom: key.validFrom,
+    validUntil: key.validUntil,
+    compromisedAt: key.compromisedAt,
+    revocationReason: key.revocationReason,
+    publicKeyJwk: key.keyInfo.publicKeyJwk,
+  };
+}
+
+/**
+ * JWK of a signing key, identified by its verification method ID
+ */
+function toJwk(key: SigningKeyRecord) {
+  return {
+    ...key.keyInfo.publicKeyJwk,
+    kid: key.keyInfo.id,
+    alg: VC_JWT_ALGORITHM,
+    use: "sig",
+  };
+}
+
+/**
+ * Controller for managing the signing keys of an issuer
+ */
+export class SigningKeyController {
+  private readonly credentialService = new CredentialService();
+
+  /**
+   * Re-sign the issuer's status lists with its new active key
+   * The key change has already been stored, so a failure is only logged.
+   */
+  private async resignStatusLists(issuerId: string) {
+    try {
+      const count =
+        await this.credentialService.statusListService.resignStatusLists(
+          issuerId,
+        );
+      logger.info(`Re-signed ${count} status list(s) of issuer ${issuerId}`);
+    } catch (error) {
+      logger.error(`Failed to re-sign status lists of ${issuerId}`, error);
+    }
+  }
+
+  private notFound(c: Context, message: string) {
+    return c.json(
+      {
+        status: "error",
+        error: {
+          code: "NOT_FOUND",
+          message,
+        },
+      },
+      404,
+    );
+  }
+
+  private validationError(c: Context, message: string) {
+    return c.json(
+      {
+        status: "error",
+        error: {
+          code: "VALIDATION",
+          message,
+        },
+      },
+      400,
+    );
+  }
+
+  private serverError(c: Context, message: string) {
+    return c.json(
+      {
+        status: "error",
+        error: {
+          code: "SERVER_ERROR",
+          message,
+        },
+      },
+      500,
+    );
+  }
+
+  /**
+   * List all keys of an issuer, newest first
+   */
+  async listKeys(c: Context) {
+    const issuerId = c.req.param("id");
+    if (!issuerId || !isValidUuid(issuerId)) {
+      return this.notFound(c, "Issuer not found");
+    }
+
+    try {
+      const keys = await listSigningKeys(issuerId);
+      return c.json({
+        status: "success",
+        data: {
+          keys: keys.map(toKeyResponse),
+        },
+      });
+    } catch (error) {
+      logger.error("Failed to list signing keys", error);
+      return this.serverError(c, "Failed to list signing keys");
+    }
+  }
+
+  /**
+   * Publish the issuer's keys as a JWK Set
+   * Retired and compromised keys are left out.
+   */
+  async getJwks(c: Context) {
+    const issuerId = c.req.param("id");
+    if (!issuerId || !isValidUuid(issuerId)) {
+      return this.notFound(c, "Issuer not found");
+    }
+
+    try {
+      const keys = await listSigningKeys(issuerId);
+      return c.json(
+        {
+          keys: keys.filter((key) => key.status === "active").map(toJwk),
+        },
+        200,
+        {
+          "Content-Type": JWK_SET_MEDIA_TYPE,
+          "Cache-Control": JWKS_CACHE_CONTROL,
+        },
+      );
+    } catch (error) {
+      logger.error("Failed to list signing keys", error);
+      return this.serverError(c, "Failed to list signing keys");
+    }
+  }
+
+  /**
+   * Retire the issuer's active key and generate a new one
+   */
+  async rotateKey(c: Context) {
+    const issuerId = c.req.param("id");
+    if (!issuerId || !isValidUuid(issuerId)) {
+      return this.notFound(c, "Issuer not found");
+    }
+
+    try {
+      const key = await rotateSigningKey(issuerId);
+      logger.info(`Rotated signing key for issuer ${issuerId}`);
+      await this.resignStatusLists(issuerId);
+      return c.json(
+        {
+          status: "success",
+          data: {
+            key: toKeyResponse(key),
+          },
+        },
+        201,
+      );
+    } catch (error) {
+      logger.error("Failed to rotate signing key", error);
+      return this.serverError(c, "Failed to rotate signing key");
+    }
+  }
+
+  /**
+   * Mark a key as compromised
+   * Revoking the active key also generates a replacement.
+   */
+  async revokeKey(c: Context) {
+    const issuerId = c.req.param("id");
+    const keyId = c.req.param("keyId");
+    if (!issuerId || !isValidUuid(issuerId)) {
+      return this.notFound(c, "Issuer not found");
+    }
+    if (!keyId || !isValidUuid(keyId)) {
+      return this.notFound(c, "Signing key not found");
+    }
+
+    let body: RevokeSigningKeyDto = {};
+    try {
+      body = await c.req.json<RevokeSigningKeyDto>();
+    } catch {
+      // An empty body revokes the key as of now
+    }
+
+    let compromisedAt: Date | undefined;
+    if (body.compromisedAt !== undefined) {
+      compromisedAt = new Date(body.compromisedAt);
+      if (Number.isNaN(compromisedAt.getTime())) {
+        return this.validationError(
+          c,
+          "compromisedAt must be an ISO 8601 date",
+        );
+      }
+      if (compromisedAt > new Date()) {
+        return this.validationError(c, "compromisedAt cannot be in the future");
+      }
+    }
+
+    try {
+      const result = await revokeSigningKey(issuerId, keyId, {
+        compromisedAt,
+        reason: body.reason,
+      });
+      if (!result) {
+        return this.notFound(c, "Signing key not found");
+      }
+
+      logger.warn(`Signing key ${keyId} of issuer ${issuerId} revoked`);
+      if (result.replacement) {
+        await this.resignStatusLists(issuerId);
+      }
+      return c.json({
+        status: "success",
+        data: {
+          revoked: toKeyResponse(result.revoked),
+          replacement: result.replacement
+            ? toKeyResponse(result.replacement)
+            : null,
+        },
+      });
+    } catch (error) {
+      logger.error("Failed to revoke signing key", error);
+      return this.serverError(c, "Failed to revoke signing key");
+    }
+  }
+}
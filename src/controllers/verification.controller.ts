@@ -1,5 +1,10 @@
 import { Context } from "hono";
 import { VerificationService } from "@/services/verification.service";
+import { isCompactJwt } from "@/utils/signing/vc-jwt";
+import { isValidUuid } from "@/utils/validation";
+
+// Most indices one status list verification reports on
+const MAX_STATUS_LIST_INDICES = 1000;
 
 export class VerificationController {
   private verificationService: VerificationService;
@@ -82,6 +87,48 @@ export class VerificationController {
 
       // Handle both ob2 and ob3 formats
       const assertionJson = body.assertion || body.credential;
+
+      // OB3 credentials may also be sent as a VC-JWT
+      if (isCompactJwt(assertionJson)) {
+        const result =
+          await this.verificationService.verifyJwtCredential(assertionJson);
+        return c.json({
+          status: "success",
+          data:
+            format === "detailed"
+              ? result
+              : {
+                  valid: result.valid,
+                  checks: result.checks,
+                  errors: result.errors.length > 0 ? result.errors : undefined,
+                },
+        });
+      }
+
+      // Credentials signed by other platforms are verified through the DID
+      // of their proof's verification method
+      if (await this.verificationService.isExternalCredential(assertionJson)) {
+        const result =
+          await this.verificationService.verifyExternalCredential(
+            assertionJson,
+          );
+        return c.json({
+          status: "success",
+          data:
+            format === "detailed"
+              ? result
+              : {
+                  valid: result.valid,
+                  checks: result.checks,
+                  errors: result.errors.length > 0 ? result.errors : undefined,
+                  warnings:
+                    result.warnings && result.warnings.length > 0
+                      ? result.warnings
+                      : undefined,
+                },
+        });
+      }
+
       let assertionId: string | undefined;
 
       // Extract ID from the credential's ID field
@@ -146,20 +193,47 @@ export class VerificationController {
 
   /**
    * Verify a status list credential
+   * The list is identified by its ID on this server or by a `url` query
+   * parameter; `indices` is a comma-separated list of indices to report.
    */
   async verifyStatusList(c: Context): Promise<Response> {
     const statusListId = c.req.param("statusListId");
+    const url = c.req.query("url");
+
+    if (statusListId !== undefined && !isValidUuid(statusListId)) {
+      return this.statusListNotFound(c);
+    }
+    if (statusListId === undefined && !url) {
+      return this.validationError(c, "A status list ID or url is required");
+    }
+
+    const indices = (c.req.query("indices") || "")
+      .split(",")
+      .filter((index) => index.trim() !== "")
+      .map((index) => Number(index.trim()));
+    if (indices.some((index) => !Number.isSafeInteger(index) || index < 0)) {
+      return this.validationError(c, "Indices must be non-negative integers");
+    }
+    if (indices.length > MAX_STATUS_LIST_INDICES) {
+      return this.validationError(
+        c,
+        `At most ${MAX_STATUS_LIST_INDICES} indices can be checked at once`,
+      );
+    }
 
     try {
-      // This is a placeholder for status list verification
-      // In a full implementation, this would verify the status list credential
+      const result = await this.verificationService.verifyStatusList(
+        statusListId !== undefined ? { statusListId } : { url: url as string },
+        indices,
+      );
+
+      if (!result) {
+        return this.statusListNotFound(c);
+      }
+
       return c.json({
         status: "success",
-        data: {
-          valid: true,
-          message: "Status list verified",
-          id: statusListId,
-        },
+        data: result,
       });
     } catch (error) {
       console.error("Status list verification error:", error);
@@ -178,4 +252,95 @@ export class VerificationController {
       );
     }
   }
+
+  /**
+   * Check whether a credential belongs to a recipient
+   * The body holds the `identity` to check, e.g. an email address, and
+   * either the `assertionId` of one of our assertions or a `credential`.
+   */
+  async verifyRecipient(c: Context): Promise<Response> {
+    let body: Record<string, unknown>;
+    try {
+      body = await c.req.json();
+    } catch {
+      return this.validationError(c, "Invalid JSON body");
+    }
+
+    const { assertionId, credential, identity } = body;
+    if (typeof identity !== "string" || identity.trim() === "") {
+      return this.validationError(c, "An identity is required");
+    }
+    if (typeof assertionId !== "string" && !credential) {
+      return this.validationError(
+        c,
+        "An assertionId or credential is required",
+      );
+    }
+
+    try {
+      const result = await this.verificationService.verifyRecipient(
+        typeof assertionId === "string" ? { assertionId } : { credential },
+        identity,
+      );
+
+      if (!result) {
+        return c.json(
+          {
+            status: "error",
+            error: {
+              code: "NOT_FOUND",
+              message: "Assertion not found",
+            },
+          },
+          404,
+        );
+      }
+
+      return c.json({
+        status: "success",
+        data: result,
+      });
+    } catch (error) {
+      console.error("Recipient verification error:", error);
+      return c.json(
+        {
+          status: "error",
+          error: {
+            code: "VERIFICATION_ERROR",
+            message:
+              error instanceof Error
+                ? error.message
+                : "Unknown error during recipient verification",
+          },
+        },
+        500,
+      );
+    }
+  }
+
+  private statusListNotFound(c: Context): Response {
+    return c.json(
+      {
+        status: "error",
+        error: {
+          code: "NOT_FOUND",
+          message: "Status list not found",
+        },
+      },
+      404,
+    );
+  }
+
+  private validationError(c: Context, message: string): Response {
+    return c.json(
+      {
+        status: "error",
+        error: {
+          code: "VALIDATION_ERROR",
+          message,
+        },
+      },
+      400,
+    );
+  }
 }
@@ -0,0 +1,74 @@
+import { eq } from "drizzle-orm";
+import { base58 } from "@scure/base";
+import { db } from "../config";
+import { signingKeys } from "../schema/signing";
+import { getKeyStore, isKeyStoreReference } from "@/utils/signing/key-store";
+
+/**
+ * Migration that moves plaintext private keys in signing_keys into the
+ * configured key store (SIGNING_KEY_STORE), replacing each with its key
+ * store reference
+ */
+export async function runMigration() {
+  console.log("Running signing key encryption migration...");
+
+  const keyStore = getKeyStore();
+
+  try {
+    const keys = await db
+      .select({
+        keyId: signingKeys.keyId,
+        privateKeyMultibase: signingKeys.privateKeyMultibase,
+      })
+      .from(signingKeys);
+
+    const plaintextKeys = keys.filter(
+      (key) => !isKeyStoreReference(key.privateKeyMultibase),
+    );
+    if (plaintextKeys.length === 0) {
+      console.log("✅ No plaintext signing keys found, skipping migration");
+      return;
+    }
+
+    await db.transaction(async (tx) => {
+      for (const key of plaintextKeys) {
+        if (!key.privateKeyMultibase.startsWith("z")) {
+          throw new Error(
+            `Signing key ${key.keyId} is neither multibase nor a key store reference`,
+          );
+        }
+
+        const privateKey = base58.decode(key.privateKeyMultibase.slice(1));
+        try {
+          const reference = await keyStore.importKey(privateKey);
+          await tx
+            .update(signingKeys)
+            .set({ privateKeyMultibase: reference, updatedAt: new Date() })
+            .where(eq(signingKeys.keyId, key.keyId));
+        } finally {
+          privateKey.fill(0);
+        }
+      }
+    });
+
+    console.log(
+      `✅ Moved ${plaintextKeys.length} signing key(s) into the ${keyStore.name} key store`,
+    );
+  } catch (error) {
+    console.error("❌ Error encrypting signing keys:", error);
+    throw error;
+  }
+}
+
+// Run the migration if this file is executed directly
+if (import.meta.main) {
+  runMigration()
+    .then(() => {
+      console.log("Migration completed successfully");
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("Migration failed:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,96 @@
+import { eq } from "drizzle-orm";
+import { db } from "../config";
+import { statusLists } from "../schema";
+import { CredentialService } from "@/services/credential.service";
+import type { SignableCredential } from "@/services/credential.service";
+import type { StatusList2021Credential } from "@/models/credential.model";
+import BitSet from "@/utils/bitset";
+import {
+  decodeLegacyBitString,
+  encodeBitString,
+  isLegacyBitString,
+  MIN_STATUS_LIST_SIZE,
+} from "@/utils/signing/status-list";
+
+/**
+ * Migration that rewrites stored status lists from the uncompressed
+ * base64 "0"/"1" string format into GZIP compressed, base64url encoded
+ * bitstrings of at least MIN_STATUS_LIST_SIZE entries
+ *
+ * Every index keeps its status. Changing the list invalidates its proof, so
+ * each list is re-signed with the issuer's active key.
+ */
+export async function runMigration() {
+  console.log("Running status list compression migration...");
+
+  const credentialService = new CredentialService();
+
+  try {
+    const rows = await db.select().from(statusLists);
+
+    const legacyRows = rows
+      .map((row) => ({
+        ...row,
+        credential: (typeof row.statusListJson === "string"
+          ? JSON.parse(row.statusListJson)
+          : row.statusListJson) as StatusList2021Credential,
+      }))
+      .filter((row) =>
+        isLegacyBitString(row.credential.credentialSubject.encodedList),
+      );
+    if (legacyRows.length === 0) {
+      console.log("✅ No uncompressed status lists found, skipping migration");
+      return;
+    }
+
+    await db.transaction(async (tx) => {
+      for (const row of legacyRows) {
+        const legacy = decodeLegacyBitString(
+          row.credential.credentialSubject.encodedList,
+        );
+
+        // Copy every status into a list of at least the minimum size
+        const bitSet = new BitSet(Math.max(legacy.size, MIN_STATUS_LIST_SIZE));
+        for (let index = 0; index < legacy.size; index++) {
+          if (legacy.get(index)) {
+            bitSet.set(index);
+          }
+        }
+
+        const { proof: _proof, ...unsigned } = row.credential;
+        unsigned.credentialSubject = {
+          ...unsigned.credentialSubject,
+          encodedList: encodeBitString(bitSet, "StatusList2021"),
+        };
+
+        const signed = await credentialService.signCredential(
+          row.issuerId,
+          unsigned as unknown as SignableCredential,
+        );
+
+        await tx
+          .update(statusLists)
+          .set({ statusListJson: signed, updatedAt: new Date() })
+          .where(eq(statusLists.statusListId, row.statusListId));
+      }
+    });
+
+    console.log(`✅ Compressed ${legacyRows.length} status list(s)`);
+  } catch (error) {
+    console.error("❌ Error compressing status lists:", error);
+    throw error;
+  }
+}
+
+// Run the migration if this file is executed directly
+if (import.meta.main) {
+  runMigration()
+    .then(() => {
+      console.log("Migration completed successfully");
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("Migration failed:", error);
+      process.exit(1);
+    });
+}
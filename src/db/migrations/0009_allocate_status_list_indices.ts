@@ -0,0 +1,101 @@
+import { eq, sql } from "drizzle-orm";
+import { db } from "../config";
+import { badgeAssertions, statusListIndices } from "../schema";
+import { CredentialService } from "@/services/credential.service";
+import { STATUS_PURPOSES } from "@/services/status-list.service";
+
+/**
+ * Migration that reserves status list indices for assertions issued before
+ * indices were allocated at issuance, and sets the bits of those already
+ * revoked or suspended
+ *
+ * Status list index allocation (drizzle/0006) dropped the index mappings of
+ * earlier versions, so without this step such assertions have no bit a
+ * verifier could see their status in. Setting bits re-signs the affected
+ * lists with the issuer's active key. Running it again is harmless.
+ * @param hostUrl Origin used for the URLs of status lists it has to create
+ */
+export async function runMigration(hostUrl: string) {
+  console.log("Running status list index backfill migration...");
+
+  const credentialService = new CredentialService();
+  const { statusListService } = credentialService;
+
+  try {
+    // Assertions missing an index of any purpose
+    const unallocated = await db
+      .select({
+        assertionId: badgeAssertions.assertionId,
+        issuerId: badgeAssertions.issuerId,
+      })
+      .from(badgeAssertions)
+      .where(
+        sql`(SELECT count(*) FROM ${statusListIndices} WHERE ${statusListIndices.assertionId} = ${badgeAssertions.assertionId}) < ${STATUS_PURPOSES.length}`,
+      );
+
+    for (const issuerId of new Set(unallocated.map((row) => row.issuerId))) {
+      await credentialService.ensureIssuerKeyExists(issuerId);
+    }
+
+    await db.transaction(async (tx) => {
+      for (const { assertionId, issuerId } of unallocated) {
+        await statusListService.allocateEntries(
+          hostUrl,
+          issuerId,
+          assertionId,
+          tx,
+        );
+      }
+
+      const revoked = await tx
+        .select({ assertionId: badgeAssertions.assertionId })
+        .from(badgeAssertions)
+        .where(eq(badgeAssertions.revoked, true));
+      await statusListService.setStatuses(
+        revoked.map((row) => row.assertionId),
+        "revocation",
+        true,
+        tx,
+      );
+
+      const suspended = await tx
+        .select({ assertionId: badgeAssertions.assertionId })
+        .from(badgeAssertions)
+        .where(eq(badgeAssertions.suspended, true));
+      await statusListService.setStatuses(
+        suspended.map((row) => row.assertionId),
+        "suspension",
+        true,
+        tx,
+      );
+
+      console.log(
+        `✅ Reserved indices for ${unallocated.length} assertion(s), set ${revoked.length} revocation and ${suspended.length} suspension bit(s)`,
+      );
+    });
+  } catch (error) {
+    console.error("❌ Error backfilling status list indices:", error);
+    throw error;
+  }
+}
+
+// Run the migration if this file is executed directly
+if (import.meta.main) {
+  const hostUrl = process.argv[2];
+  if (!hostUrl) {
+    console.error(
+      "Usage: bun run db:migrate:status-indices <host URL, e.g. https://badges.example.com>",
+    );
+    process.exit(1);
+  }
+
+  runMigration(hostUrl)
+    .then(() => {
+      console.log("Migration completed successfully");
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("Migration failed:", error);
+      process.exit(1);
+    });
+}
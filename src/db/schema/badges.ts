@@ -6,9 +6,20 @@ import {
   timestamp,
   boolean,
   jsonb,
+  doublePrecision,
+  integer,
 } from "drizzle-orm/pg-core";
 import { issuerProfiles } from "./issuers";
 
+/**
+ * Lifecycle state of a badge class
+ * - draft: being prepared and not issued yet
+ * - active: can be issued
+ * - retired: no longer issued, but still listed and resolvable
+ * - archived: hidden from lists, but still resolvable so awards verify
+ */
+export type BadgeClassStatus = "draft" | "active" | "retired" | "archived";
+
 // Badge classes for creating assertions
 export const badgeClasses = pgTable("badge_classes", {
   badgeId: uuid("badge_id").primaryKey().defaultRandom(),
@@ -19,11 +30,40 @@ export const badgeClasses = pgTable("badge_classes", {
   description: text("description").notNull(),
   imageUrl: text("image_url").notNull(),
   criteria: text("criteria").notNull(),
+  validityDuration: text("validity_duration"), // ISO 8601 duration awards are valid for by default, e.g. P2Y
+  hashRecipients: boolean("hash_recipients").default(false).notNull(), // Hash recipient identities of awards by default
+  // Open Badges 3.0 Achievement properties
+  achievementType: varchar("achievement_type", { length: 255 }),
+  alignment: jsonb("alignment"), // Alignment objects
+  resultDescription: jsonb("result_description"), // ResultDescription objects
+  tag: jsonb("tag"), // Array of tags
+  creditsAvailable: doublePrecision("credits_available"),
+  fieldOfStudy: text("field_of_study"),
+  specialization: text("specialization"),
+  humanCode: varchar("human_code", { length: 255 }),
+  inLanguage: varchar("in_language", { length: 35 }),
+  version: varchar("version", { length: 255 }),
+  related: jsonb("related"), // Related objects, e.g. translations
+  currentVersion: integer("current_version").default(1).notNull(), // Latest entry in badge_class_versions
+  status: varchar("status", { length: 20 }).default("active").notNull(), // BadgeClassStatus
   badgeJson: jsonb("badge_json").notNull(), // Full Open Badges badge class JSON
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Immutable definitions of a badge class, one per edit
+export const badgeClassVersions = pgTable("badge_class_versions", {
+  versionId: uuid("version_id").primaryKey().defaultRandom(),
+  badgeId: uuid("badge_id")
+    .references(() => badgeClasses.badgeId)
+    .notNull(),
+  version: integer("version").notNull(), // Unique per badge class, counting from 1
+  definition: jsonb("definition").notNull(), // BadgeClassDefinition at this version
+  badgeJson: jsonb("badge_json").notNull(), // Open Badges 2.0 badge class JSON at this version
+  createdBy: text("created_by"), // User ID from the access token, if any
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Badge assertions for issued badges
 export const badgeAssertions = pgTable("badge_assertions", {
   assertionId: uuid("assertion_id").primaryKey().defaultRandom(),
@@ -36,10 +76,16 @@ export const badgeAssertions = pgTable("badge_assertions", {
   recipientIdentity: text("recipient_identity").notNull(),
   recipientType: varchar("recipient_type", { length: 50 }).notNull(),
   recipientHashed: boolean("recipient_hashed").default(false).notNull(),
+  recipientSalt: text("recipient_salt"), // Salt of a hashed recipient identity
+  badgeVersion: integer("badge_version"), // Badge class version issued under, null before versioning
   issuedOn: timestamp("issued_on").defaultNow().notNull(),
+  validFrom: timestamp("valid_from"),
+  validUntil: timestamp("valid_until"),
   evidenceUrl: text("evidence_url"),
   revoked: boolean("revoked").default(false).notNull(),
   revocationReason: text("revocation_reason"),
+  suspended: boolean("suspended").default(false).notNull(),
+  suspensionReason: text("suspension_reason"),
   assertionJson: jsonb("assertion_json").notNull(), // Full Open Badges assertion JSON
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -49,5 +95,8 @@ export const badgeAssertions = pgTable("badge_assertions", {
 export type NewBadgeClass = typeof badgeClasses.$inferInsert;
 export type BadgeClass = typeof badgeClasses.$inferSelect;
 
+export type NewBadgeClassVersion = typeof badgeClassVersions.$inferInsert;
+export type BadgeClassVersion = typeof badgeClassVersions.$inferSelect;
+
 export type NewBadgeAssertion = typeof badgeAssertions.$inferInsert;
 export type BadgeAssertion = typeof badgeAssertions.$inferSelect;
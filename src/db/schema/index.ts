@@ -39,6 +39,7 @@ export * from "./oauth";
 export * from "./badges";
 export * from "./issuers";
 export * from "./status";
+export * from "./media";
 
 // Import and re-export signing last to avoid circular dependencies
 import { signingKeys } from "./signing";
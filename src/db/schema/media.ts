@@ -0,0 +1,30 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  integer,
+  timestamp,
+} from "drizzle-orm/pg-core";
+
+/**
+ * Image formats accepted as badge images
+ */
+export type MediaType = "image/png" | "image/svg+xml";
+
+// Badge images held in the media store
+export const media = pgTable("media", {
+  mediaId: uuid("media_id").primaryKey().defaultRandom(),
+  contentHash: varchar("content_hash", { length: 64 }).notNull(), // SHA-256 of the content, hex
+  mimeType: varchar("mime_type", { length: 50 }).notNull(), // MediaType
+  byteSize: integer("byte_size").notNull(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  storageKey: text("storage_key").notNull(), // Location in the media store
+  sourceUrl: text("source_url"), // URL the image was imported from, if it was not uploaded
+  uploadedBy: text("uploaded_by"), // User ID from the access token, if any
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type Media = typeof media.$inferSelect;
+export type NewMedia = typeof media.$inferInsert;
@@ -1,6 +1,14 @@
 import { pgTable, uuid, text, timestamp, jsonb } from "drizzle-orm/pg-core";
 import { issuerProfiles } from "./issuers";
 
+/**
+ * Lifecycle state of a signing key
+ * - active: the key new credentials are signed with (one per issuer)
+ * - retired: rotated out; signatures made during its validity window remain valid
+ * - compromised: revoked; signatures made at or after compromisedAt are rejected
+ */
+export type SigningKeyStatus = "active" | "retired" | "compromised";
+
 // Signing keys for credential issuance
 export const signingKeys = pgTable("signing_keys", {
   keyId: uuid("key_id").primaryKey().defaultRandom(),
@@ -12,6 +20,11 @@ export const signingKeys = pgTable("signing_keys", {
   controller: text("controller").notNull(),
   type: text("type").notNull().default("Ed25519VerificationKey2020"),
   keyInfo: jsonb("key_info").notNull(), // Public key information in JSON-LD format
+  status: text("status").notNull().default("active"), // SigningKeyStatus
+  validFrom: timestamp("valid_from").defaultNow().notNull(),
+  validUntil: timestamp("valid_until"), // Set when the key is retired or compromised
+  compromisedAt: timestamp("compromised_at"),
+  revocationReason: text("revocation_reason"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -1,12 +1,28 @@
-import { pgTable, uuid, timestamp, jsonb } from "drizzle-orm/pg-core";
-import { issuerProfiles } from "./index";
+import {
+  pgTable,
+  uuid,
+  integer,
+  text,
+  timestamp,
+  jsonb,
+  boolean,
+} from "drizzle-orm/pg-core";
+import { badgeAssertions, issuerProfiles } from "./index";
 
-// Status lists for credential revocation
+/**
+ * What a set bit in a status list means
+ * - revocation: the credential is permanently invalid
+ * - suspension: the credential is temporarily invalid and may be reinstated
+ */
+export type StatusPurpose = "revocation" | "suspension";
+
+// Status lists for credential revocation and suspension
 export const statusLists = pgTable("status_lists", {
   statusListId: uuid("status_list_id").primaryKey().defaultRandom(),
   issuerId: uuid("issuer_id")
     .references(() => issuerProfiles.issuerId)
     .notNull(),
+  statusPurpose: text("status_purpose").notNull().default("revocation"), // StatusPurpose
   statusListJson: jsonb("status_list_json").notNull(), // Full Status List 2021 credential in JSON format
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -19,10 +35,25 @@ export const statusListIndices = pgTable("status_list_indices", {
   statusListId: uuid("status_list_id")
     .references(() => statusLists.statusListId)
     .notNull(),
-  statusIndex: uuid("status_index").notNull(),
+  statusIndex: integer("status_index").notNull(), // Unique per status list
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Append-only log of revocation and suspension changes
+export const assertionStatusEvents = pgTable("assertion_status_events", {
+  eventId: uuid("event_id").primaryKey().defaultRandom(),
+  assertionId: uuid("assertion_id")
+    .references(() => badgeAssertions.assertionId)
+    .notNull(),
+  statusPurpose: text("status_purpose").notNull(), // StatusPurpose
+  value: boolean("value").notNull(), // New state, true for revoked or suspended
+  reason: text("reason"),
+  changedBy: text("changed_by"), // User ID from the access token, if any
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 // Export types for use in services
 export type NewStatusList = typeof statusLists.$inferInsert;
 export type NewStatusListIndex = typeof statusListIndices.$inferInsert;
+export type AssertionStatusEvent = typeof assertionStatusEvents.$inferSelect;
+export type NewAssertionStatusEvent = typeof assertionStatusEvents.$inferInsert;
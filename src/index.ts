@@ -9,6 +9,8 @@ import issuers from "@routes/issuers.routes";
 import verification from "@routes/verification.routes";
 import status from "@routes/status.routes";
 import health from "@routes/health.routes";
+import did from "@routes/did.routes";
+import media from "@routes/media.routes";
 import { createOAuthRouter } from "@routes/oauth.routes";
 import { OAuthController } from "@controllers/oauth.controller";
 import { errorHandler } from "@middleware/error-handler";
@@ -65,12 +67,22 @@ api.use("/issuers", async (c, next) => {
   return;
 });
 
+// Uploading images requires authentication, serving them does not
+api.use("/media", async (c, next) => {
+  if (c.req.method === "POST") {
+    return authMiddleware(c, next);
+  }
+  await next();
+  return;
+});
+
 // Mount the API routes
 api.route("/badges", badges);
 api.route("/assertions", assertions);
 api.route("/issuers", issuers);
 api.route("/verify", verification);
 api.route("/status", status);
+api.route("/media", media);
 app.route("/api", api);
 
 // Mount Swagger UI
@@ -84,6 +96,9 @@ app.get("/", (c) =>
 // Add comprehensive health check endpoint
 app.route("/health", health);
 
+// did:web DID documents must be served from the root of the host
+app.route("/", did);
+
 // Server startup configuration
 const port = parseInt(process.env.PORT || "7777", 10);
 const isDevEnv = process.env.NODE_ENV === "development";
@@ -0,0 +1,241 @@
+import { z } from "zod";
+
+/**
+ * Achievement types of the Open Badges 3.0 vocabulary
+ */
+export const ACHIEVEMENT_TYPES = [
+  "Achievement",
+  "ApprenticeshipCertificate",
+  "Assessment",
+  "Assignment",
+  "AssociateDegree",
+  "Award",
+  "Badge",
+  "BachelorDegree",
+  "Certificate",
+  "CertificateOfCompletion",
+  "Certification",
+  "CommunityService",
+  "Competency",
+  "Course",
+  "CoCurricular",
+  "Degree",
+  "Diploma",
+  "DoctoralDegree",
+  "Fieldwork",
+  "GeneralEducationDevelopment",
+  "JourneymanCertificate",
+  "LearningProgram",
+  "License",
+  "Membership",
+  "ProfessionalDoctorate",
+  "QualityAssuranceCredential",
+  "MasterCertificate",
+  "MasterDegree",
+  "MicroCredential",
+  "ResearchDoctorate",
+  "SecondarySchoolDiploma",
+] as const;
+
+/**
+ * Result types of the Open Badges 3.0 vocabulary
+ */
+export const RESULT_TYPES = [
+  "GradePointAverage",
+  "LetterGrade",
+  "Percent",
+  "PerformanceLevel",
+  "PredictedScore",
+  "RawScore",
+  "Result",
+  "RubricCriterion",
+  "RubricCriterionLevel",
+  "RubricScore",
+  "ScaledScore",
+  "Status",
+] as const;
+
+/**
+ * Alignment target types of the Open Badges 3.0 vocabulary
+ */
+export const ALIGNMENT_TARGET_TYPES = [
+  "ceasn:Competency",
+  "ceterms:Credential",
+  "CFItem",
+  "CFRubric",
+  "CFRubricCriterion",
+  "CFRubricCriterionLevel",
+  "CTDL",
+] as const;
+
+// Terms outside a vocabulary must be extensions, e.g. "ext:Internship"
+const extensionTerm = z
+  .string()
+  .regex(/^ext:[A-Za-z0-9._-]+$/, "Must be a known term or start with ext:");
+
+// BCP 47 language tags as constrained by the OB3 JSON schema, e.g. en-US
+const languageTag = z
+  .string()
+  .regex(
+    /^[a-z]{2,4}(-[A-Z][a-z]{3})?(-([A-Z]{2}|[0-9]{3}))?$/,
+    "Must be a BCP 47 language tag, e.g. en-US",
+  );
+
+/**
+ * The type of a nested object, which defaults to its class and is always
+ * stored as an array
+ */
+function typeOf<T extends string>(name: T) {
+  return z
+    .union([
+      z.literal(name),
+      z.array(z.string()).refine((type) => type.includes(name), {
+        message: `Must include ${name}`,
+      }),
+    ])
+    .optional()
+    .transform((type) => (Array.isArray(type) ? type : [name]));
+}
+
+export const alignmentSchema = z.object({
+  type: typeOf("Alignment"),
+  targetName: z.string().min(1, "targetName is required"),
+  targetUrl: z.string().url("Must be a valid URL"),
+  targetDescription: z.string().optional(),
+  targetFramework: z.string().optional(),
+  targetCode: z.string().optional(),
+  targetType: z
+    .union([z.enum(ALIGNMENT_TARGET_TYPES), extensionTerm])
+    .optional(),
+});
+
+export const rubricCriterionLevelSchema = z.object({
+  id: z.string().url("Must be a valid URI"),
+  type: typeOf("RubricCriterionLevel"),
+  name: z.string().min(1, "name is required"),
+  description: z.string().optional(),
+  level: z.string().optional(),
+  points: z.string().optional(),
+  alignment: z.array(alignmentSchema).optional(),
+});
+
+export const resultDescriptionSchema = z
+  .object({
+    id: z.string().url("Must be a valid URI"),
+    type: typeOf("ResultDescription"),
+    name: z.string().min(1, "name is required"),
+    resultType: z.union([z.enum(RESULT_TYPES), extensionTerm]),
+    allowedValue: z.array(z.string()).optional(),
+    requiredLevel: z.string().url("Must be a valid URI").optional(),
+    requiredValue: z.string().optional(),
+    rubricCriterionLevel: z.array(rubricCriterionLevelSchema).optional(),
+    valueMax: z.string().optional(),
+    valueMin: z.string().optional(),
+    alignment: z.array(alignmentSchema).optional(),
+  })
+  .refine(
+    (result) =>
+      !result.requiredLevel ||
+      result.rubricCriterionLevel?.some(
+        (level) => level.id === result.requiredLevel,
+      ),
+    {
+      message:
+        "requiredLevel must be the id of one of its rubricCriterionLevel",
+      path: ["requiredLevel"],
+    },
+  );
+
+export const relatedSchema = z.object({
+  id: z.string().url("Must be a valid URI"),
+  type: typeOf("Related"),
+  inLanguage: languageTag.optional(),
+  version: z.string().optional(),
+});
+
+/**
+ * Properties of an OB3 Achievement beyond its name, description, image and
+ * criteria
+ * Every property may be null, which removes it when a badge class is updated.
+ */
+export const achievementDetailsSchema = z.object({
+  achievementType: z
+    .union([z.enum(ACHIEVEMENT_TYPES), extensionTerm])
+    .nullish(),
+  alignment: z.array(alignmentSchema).nullish(),
+  resultDescription: z.array(resultDescriptionSchema).nullish(),
+  tag: z.array(z.string().min(1, "Tags must not be empty")).nullish(),
+  creditsAvailable: z
+    .number()
+    .nonnegative("Must not be negative")
+    .finite()
+    .nullish(),
+  fieldOfStudy: z.string().nullish(),
+  specialization: z.string().nullish(),
+  humanCode: z.string().max(255).nullish(),
+  inLanguage: languageTag.nullish(),
+  version: z.string().max(255).nullish(),
+  related: z.array(relatedSchema).nullish(),
+});
+
+export type Alignment = z.infer<typeof alignmentSchema>;
+export type ResultDescription = z.infer<typeof resultDescriptionSchema>;
+export type Related = z.infer<typeof relatedSchema>;
+export type AchievementDetails = z.infer<typeof achievementDetailsSchema>;
+
+/**
+ * Names of the achievement detail properties, which are also the names of
+ * their badge class columns
+ */
+export const ACHIEVEMENT_DETAIL_FIELDS = Object.keys(
+  achievementDetailsSchema.shape,
+) as (keyof AchievementDetails)[];
+
+/**
+ * Read and validate the achievement details of a badge class request
+ * Properties that are not in the request are left out of the result.
+ * @returns The details, or a message describing the first invalid property
+ */
+export function parseAchievementDetails(
+  body: Record<string, unknown>,
+):
+  | { success: true; data: AchievementDetails }
+  | { success: false; error: string } {
+  const result = achievementDetailsSchema.safeParse(body);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    return {
+      success: false,
+      error: `${issue.path.join(".")}: ${issue.message}`,
+    };
+  }
+
+  const data: Record<string, unknown> = {};
+  for (const field of ACHIEVEMENT_DETAIL_FIELDS) {
+    if (body[field] !== undefined) {
+      data[field] = result.data[field];
+    }
+  }
+  return { success: true, data: data as AchievementDetails };
+}
+
+/**
+ * Build the achievement details of a credential from a badge class
+ * Properties without a value are left out.
+ */
+export function constructAchievementDetails(badge: {
+  [K in keyof AchievementDetails]?: unknown;
+}): AchievementDetails {
+  const details: Record<string, unknown> = {};
+  for (const field of ACHIEVEMENT_DETAIL_FIELDS) {
+    const value = badge[field];
+    if (
+      value !== null &&
+      value !== undefined &&
+      !(Array.isArray(value) && value.length === 0)
+    ) {
+      details[field] = value;
+    }
+  }
+  return details as AchievementDetails;
+}
@@ -0,0 +1,71 @@
+import type { BadgeClassStatus } from "@/db/schema";
+
+/**
+ * Lifecycle states of badge classes, in lifecycle order
+ */
+export const BADGE_CLASS_STATUSES: readonly BadgeClassStatus[] = [
+  "draft",
+  "active",
+  "retired",
+  "archived",
+];
+
+/**
+ * States a badge class is listed in unless a status filter is given
+ */
+export const LISTED_BADGE_CLASS_STATUSES: readonly BadgeClassStatus[] = [
+  "draft",
+  "active",
+  "retired",
+];
+
+/**
+ * States a badge class can be created in
+ */
+export const INITIAL_BADGE_CLASS_STATUSES: readonly BadgeClassStatus[] = [
+  "draft",
+  "active",
+];
+
+// The states each state can change to. Retired classes can be reactivated,
+// and archived ones restored as retired so they are listed again.
+const BADGE_CLASS_TRANSITIONS: Record<BadgeClassStatus, BadgeClassStatus[]> = {
+  draft: ["active", "archived"],
+  active: ["retired", "archived"],
+  retired: ["active", "archived"],
+  archived: ["retired"],
+};
+
+/**
+ * Type guard for badge class states
+ */
+export function isBadgeClassStatus(value: unknown): value is BadgeClassStatus {
+  return BADGE_CLASS_STATUSES.includes(value as BadgeClassStatus);
+}
+
+/**
+ * Check whether a badge class can change from one state to another
+ * Keeping the current state is always allowed.
+ */
+export function canChangeBadgeClassStatus(
+  from: BadgeClassStatus,
+  to: BadgeClassStatus,
+): boolean {
+  return from === to || BADGE_CLASS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Parse a comma-separated status filter of a badge class list
+ * @param value The filter, e.g. "active,retired"
+ * @returns The states to list, or null if one is not a known state
+ */
+export function parseBadgeClassStatusFilter(
+  value: string | undefined,
+): BadgeClassStatus[] | null {
+  if (!value) {
+    return [...LISTED_BADGE_CLASS_STATUSES];
+  }
+
+  const statuses = value.split(",").map((status) => status.trim());
+  return statuses.every(isBadgeClassStatus) ? statuses : null;
+}
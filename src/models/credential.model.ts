@@ -2,6 +2,7 @@
  * Type definitions for Open Badges 3.0 credentials
  * Based on the W3C Verifiable Credentials Data Model and Open Badges 3.0 specification
  */
+import type { AchievementDetails } from "./achievement.model";
 
 /**
  * JSON-LD Context type
@@ -246,10 +247,12 @@ export interface OpenBadgeCredential {
   description?: string;
   credentialSubject: OpenBadgeCredentialSubject;
   evidence?: Evidence[] | Evidence;
-  credentialStatus?: CredentialStatus;
+  credentialStatus?: CredentialStatus | CredentialStatus[];
   credentialSchema?: CredentialSchema;
   proof?: CredentialProof;
   expirationDate?: string;
+  validFrom?: string;
+  validUntil?: string;
   refreshService?: {
     id: string;
     type: string;
@@ -263,11 +266,25 @@ export interface OpenBadgeCredential {
   }[];
 }
 
+/**
+ * Identity object for recipients not identified by a URI
+ */
+export interface IdentityObject {
+  type: "IdentityObject";
+  identityHash: string;
+  identityType: string;
+  hashed: boolean;
+  salt?: string;
+}
+
 /**
  * Credential subject with achievement
  */
-export interface OpenBadgeCredentialSubject extends CredentialSubject {
+export interface OpenBadgeCredentialSubject {
+  id?: string;
+  type: string | string[];
   achievement: Achievement;
+  identifier?: IdentityObject[];
   identity?: string;
   hashed?: boolean;
   salt?: string;
@@ -276,7 +293,7 @@ export interface OpenBadgeCredentialSubject extends CredentialSubject {
 /**
  * Open Badge Class/Achievement Definition (OB3.0)
  */
-export interface OpenBadgeAchievement {
+export interface OpenBadgeAchievement extends AchievementDetails {
   "@context": string[];
   id: string;
   type: string[];
@@ -284,9 +301,7 @@ export interface OpenBadgeAchievement {
   description?: string;
   image?: ImageObject;
   criteria?: AchievementCriteria;
-  issuer: IssuerProfile | string;
-  alignment?: AlignmentObject[];
-  tags?: string[];
+  creator: IssuerProfile | string;
 }
 
 /**
@@ -308,7 +323,7 @@ export interface BaseVerifiableCredential {
     [key: string]: unknown;
   };
   evidence?: Evidence[] | Evidence;
-  credentialStatus?: CredentialStatus;
+  credentialStatus?: CredentialStatus | CredentialStatus[];
   credentialSchema?: CredentialSchema;
   proof?: CredentialProof;
   expirationDate?: string;
@@ -334,7 +349,7 @@ export interface StatusList2021Credential extends BaseVerifiableCredential {
     id: string;
     type: "StatusList2021";
     statusPurpose: "revocation" | "suspension";
-    encodedList: string; // Base64-encoded bitstring
+    encodedList: string; // GZIP compressed, base64url encoded bitstring
   };
 }
 
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { getIssuerDid } from "@/utils/did/did-web";
 
 // Define the issuer profile validation schema based on Open Badges 2.0/2.1 and 3.0
 export const issuerProfileSchema = z.object({
@@ -100,6 +101,7 @@ export interface IssuerJsonLdV2 {
   description?: string;
   email?: string;
   image?: string;
+  revocationList?: string;
   related?: Array<{
     type: ["https://purl.imsglobal.org/spec/vc/ob/vocab.html#Profile"];
     id: string;
@@ -107,6 +109,19 @@ export interface IssuerJsonLdV2 {
   }>;
 }
 
+// Open Badges 2.0 list of an issuer's revoked assertions
+export interface RevocationListV2 {
+  "@context": "https://w3id.org/openbadges/v2";
+  type: "RevocationList";
+  id: string;
+  issuer: string;
+  revokedAssertions: Array<{
+    id: string;
+    uid: string;
+    revocationReason?: string;
+  }>;
+}
+
 export interface IssuerJsonLdV3 {
   "@context": [
     "https://www.w3.org/ns/did/v1",
@@ -144,12 +159,13 @@ export function constructIssuerJsonLd(
     ...(issuer.description && { description: issuer.description }),
     ...(issuer.email && { email: issuer.email }),
     ...(issuer.image && { image: issuer.image }),
+    revocationList: getRevocationListUrl(hostUrl, issuerId),
     // Add OB 3.0 relation if public key is present
     ...(issuer.publicKey && {
       related: [
         {
           type: ["https://purl.imsglobal.org/spec/vc/ob/vocab.html#Profile"],
-          id: `did:web:${new URL(hostUrl).hostname}:issuers:${issuerId}`,
+          id: getIssuerDid(hostUrl, issuerId),
           version: "Open Badges v3p0",
         },
       ],
@@ -163,8 +179,7 @@ export function constructIssuerJsonLdV3(
   issuerId: string,
   issuer: CreateIssuerDto | (UpdateIssuerDto & { name: string; url: string }),
 ): IssuerJsonLdV3 {
-  const hostname = new URL(hostUrl).hostname;
-  const didId = `did:web:${hostname}:issuers:${issuerId}`;
+  const didId = getIssuerDid(hostUrl, issuerId);
   const httpsId = `${hostUrl}/issuers/${issuerId}`;
 
   return {
@@ -191,3 +206,28 @@ export function constructIssuerJsonLdV3(
     ...(issuer.publicKey && { publicKey: issuer.publicKey }),
   };
 }
+
+// URL of the Open Badges 2.0 RevocationList of an issuer
+export function getRevocationListUrl(hostUrl: string, issuerId: string) {
+  return `${hostUrl}/api/issuers/${issuerId}/revocations`;
+}
+
+// Function to construct an Open Badges 2.0 RevocationList
+export function constructRevocationList(
+  hostUrl: string,
+  issuerId: string,
+  id: string,
+  revoked: Array<{ assertionId: string; revocationReason: string | null }>,
+): RevocationListV2 {
+  return {
+    "@context": "https://w3id.org/openbadges/v2",
+    type: "RevocationList",
+    id,
+    issuer: `${hostUrl}/issuers/${issuerId}`,
+    revokedAssertions: revoked.map(({ assertionId, revocationReason }) => ({
+      id: `${hostUrl}/assertions/${assertionId}`,
+      uid: assertionId,
+      ...(revocationReason && { revocationReason }),
+    })),
+  };
+}
@@ -10,6 +10,8 @@ export const AUTH_ROUTES = {
 export const BADGE_ROUTES = {
   CREATE: "/badges",
   GET: "/badges/:id",
+  VERSIONS: "/badges/:id/versions",
+  VERSION: "/badges/:id/versions/:version",
   LIST: "/badges",
   UPDATE: "/badges/:id",
   DELETE: "/badges/:id",
@@ -1,16 +1,73 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
+import { eq } from "drizzle-orm";
+import { db } from "@/db/config";
+import { badgeAssertions, issuerProfiles } from "@/db/schema";
 import { AssertionController } from "@/controllers/assertions.controller";
+import {
+  combineMiddleware,
+  requireAuth,
+  requireOwnership,
+  requireRole,
+  Role,
+} from "@/middleware/auth";
+import { isValidUuid } from "@/utils/validation";
 
 const ASSERTION_ROUTES = {
   CREATE: "/assertions",
   GET: "/assertions/:id",
   LIST: "/assertions",
   REVOKE: "/assertions/:id/revoke",
+  REVOKE_BATCH: "/assertions/revoke-batch",
+  SUSPEND: "/assertions/:id/suspend",
+  UNSUSPEND: "/assertions/:id/unsuspend",
+  STATUS_HISTORY: "/assertions/:id/status-history",
 };
 
 const assertions = new Hono();
 const assertionController = new AssertionController();
 
+/**
+ * Get the owner user ID of an issuer
+ * @returns The owner's ID, or an empty string if there is no such issuer
+ */
+async function getIssuerOwnerId(issuerId: unknown): Promise<string> {
+  if (typeof issuerId !== "string" || !isValidUuid(issuerId)) {
+    return "";
+  }
+  const [issuer] = await db
+    .select({ ownerUserId: issuerProfiles.ownerUserId })
+    .from(issuerProfiles)
+    .where(eq(issuerProfiles.issuerId, issuerId))
+    .limit(1);
+  return issuer?.ownerUserId ?? "";
+}
+
+/**
+ * Get the owner of the issuer of the assertion in the path
+ */
+async function getAssertionIssuerOwner(c: Context): Promise<string> {
+  const id = c.req.param("id");
+  if (!id || !isValidUuid(id)) {
+    return "";
+  }
+  const [assertion] = await db
+    .select({ issuerId: badgeAssertions.issuerId })
+    .from(badgeAssertions)
+    .where(eq(badgeAssertions.assertionId, id))
+    .limit(1);
+  return getIssuerOwnerId(assertion?.issuerId);
+}
+
+/**
+ * Get the owner of the issuer named in a batch revocation's body
+ */
+async function getBatchIssuerOwner(c: Context): Promise<string> {
+  const body = (await c.req.json().catch(() => ({}))) as {
+    issuerId?: unknown;
+  };
+  return getIssuerOwnerId(body.issuerId);
+}
+
 // List all assertions (with optional filters)
 assertions.get(ASSERTION_ROUTES.LIST, (c) =>
   assertionController.listAssertions(c),
@@ -21,14 +78,64 @@ assertions.get(ASSERTION_ROUTES.GET, (c) =>
   assertionController.getAssertion(c),
 );
 
+// Get who changed an assertion's status, when and why
+assertions.get(
+  ASSERTION_ROUTES.STATUS_HISTORY,
+  combineMiddleware(
+    requireAuth,
+    requireRole([Role.ISSUER_ADMIN, Role.ISSUER_OWNER, Role.ISSUER_VIEWER]),
+    requireOwnership(getAssertionIssuerOwner),
+  ),
+  (c) => assertionController.getStatusHistory(c),
+);
+
 // Create (issue) a new badge assertion
 assertions.post(ASSERTION_ROUTES.CREATE, (c) =>
   assertionController.createAssertion(c),
 );
 
 // Revoke a badge assertion
-assertions.post(ASSERTION_ROUTES.REVOKE, (c) =>
-  assertionController.revokeAssertion(c),
+assertions.post(
+  ASSERTION_ROUTES.REVOKE,
+  combineMiddleware(
+    requireAuth,
+    requireRole([Role.ISSUER_ADMIN, Role.ISSUER_OWNER]),
+    requireOwnership(getAssertionIssuerOwner),
+  ),
+  (c) => assertionController.revokeAssertion(c),
+);
+
+// Revoke many badge assertions of an issuer at once
+assertions.post(
+  ASSERTION_ROUTES.REVOKE_BATCH,
+  combineMiddleware(
+    requireAuth,
+    requireRole([Role.ISSUER_ADMIN, Role.ISSUER_OWNER]),
+    requireOwnership(getBatchIssuerOwner),
+  ),
+  (c) => assertionController.revokeAssertionsBatch(c),
+);
+
+// Temporarily suspend a badge assertion
+assertions.post(
+  ASSERTION_ROUTES.SUSPEND,
+  combineMiddleware(
+    requireAuth,
+    requireRole([Role.ISSUER_ADMIN, Role.ISSUER_OWNER]),
+    requireOwnership(getAssertionIssuerOwner),
+  ),
+  (c) => assertionController.suspendAssertion(c),
+);
+
+// Lift the suspension of a badge assertion
+assertions.post(
+  ASSERTION_ROUTES.UNSUSPEND,
+  combineMiddleware(
+    requireAuth,
+    requireRole([Role.ISSUER_ADMIN, Role.ISSUER_OWNER]),
+    requireOwnership(getAssertionIssuerOwner),
+  ),
+  (c) => assertionController.unsuspendAssertion(c),
 );
 
 export default assertions;
@@ -1,14 +1,43 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { db } from "../db/config";
-import { badgeClasses, issuerProfiles, badgeAssertions } from "../db/schema";
-import { eq } from "drizzle-orm";
+import {
+  badgeClasses,
+  issuerProfiles,
+  badgeAssertions,
+  type BadgeClassStatus,
+} from "../db/schema";
+import { and, eq, inArray } from "drizzle-orm";
 import { BADGE_ROUTES } from "./aliases";
-import { BadgeController } from "@/controllers/badge.controller";
 import { bakeImage, extractImage } from "../utils/badge-baker";
 import { isValidUuid } from "@/utils/validation";
+import { addDuration, parseDuration } from "@/utils/duration";
+import {
+  parseAchievementDetails,
+  type AchievementDetails,
+} from "@/models/achievement.model";
+import {
+  BadgeVersionService,
+  type BadgeClassDefinition,
+} from "@/services/badge-version.service";
+import { MediaService, type StoredImage } from "@/services/media.service";
+import {
+  combineMiddleware,
+  requireAuth,
+  requireOwnership,
+  requireRole,
+  Role,
+  type AuthUser,
+} from "@/middleware/auth";
+import {
+  INITIAL_BADGE_CLASS_STATUSES,
+  canChangeBadgeClassStatus,
+  isBadgeClassStatus,
+  parseBadgeClassStatusFilter,
+} from "@/models/badge-class.model";
 
 const badges = new Hono();
-const controller = new BadgeController();
+const badgeVersionService = new BadgeVersionService();
+const mediaService = new MediaService();
 
 // Interface for badge class JSON
 interface BadgeClassJson {
@@ -24,11 +53,168 @@ interface BadgeClassJson {
   issuer: string;
 }
 
+function badgeNotFound(c: Context) {
+  return c.json(
+    {
+      status: "error",
+      error: {
+        code: "NOT_FOUND",
+        message: "Badge not found",
+      },
+    },
+    404,
+  );
+}
+
+/**
+ * Get the owner of the issuer of the badge class in the path
+ * @returns The owner's ID, or an empty string if there is no such badge class
+ */
+async function getBadgeIssuerOwner(c: Context): Promise<string> {
+  const badgeId = c.req.param("id");
+  if (!badgeId || !isValidUuid(badgeId)) {
+    return "";
+  }
+  const [owner] = await db
+    .select({ ownerUserId: issuerProfiles.ownerUserId })
+    .from(badgeClasses)
+    .innerJoin(
+      issuerProfiles,
+      eq(badgeClasses.issuerId, issuerProfiles.issuerId),
+    )
+    .where(eq(badgeClasses.badgeId, badgeId))
+    .limit(1);
+  return owner?.ownerUserId ?? "";
+}
+
+/**
+ * ID of the authenticated user, recorded with badge class versions
+ */
+function currentUserId(c: Context): string | null {
+  return (c.get("user") as AuthUser | undefined)?.id ?? null;
+}
+
+function badgeStatusConflict(c: Context, message: string) {
+  return c.json(
+    {
+      status: "error",
+      error: {
+        code: "CONFLICT",
+        message,
+      },
+    },
+    409,
+  );
+}
+
+function invalidAchievementDetails(c: Context, message: string) {
+  return c.json(
+    {
+      status: "error",
+      error: {
+        code: "VALIDATION",
+        message,
+      },
+    },
+    400,
+  );
+}
+
+/**
+ * Mirror the achievement details Open Badges 2.0 also has in a badge class's
+ * JSON: its tags and alignments
+ */
+function setOB2AchievementDetails(
+  badgeJson: Record<string, unknown>,
+  details: AchievementDetails,
+) {
+  if (details.tag !== undefined) {
+    if (details.tag?.length) {
+      badgeJson.tags = details.tag;
+    } else {
+      delete badgeJson.tags;
+    }
+  }
+  if (details.alignment !== undefined) {
+    if (details.alignment?.length) {
+      badgeJson.alignment = details.alignment.map((alignment) => ({
+        targetName: alignment.targetName,
+        targetUrl: alignment.targetUrl,
+        targetDescription: alignment.targetDescription,
+        targetFramework: alignment.targetFramework,
+        targetCode: alignment.targetCode,
+      }));
+    } else {
+      delete badgeJson.alignment;
+    }
+  }
+}
+
+function invalidHashRecipients(c: Context) {
+  return c.json(
+    {
+      status: "error",
+      error: {
+        code: "VALIDATION",
+        message: "hashRecipients must be a boolean",
+      },
+    },
+    400,
+  );
+}
+
+/**
+ * Whether a value is a duration awards can be issued with
+ * Durations too long to add to today's date are rejected with the badge
+ * class rather than at every issuance.
+ */
+function isValidityDuration(value: unknown): boolean {
+  const duration = parseDuration(value);
+  if (!duration) {
+    return false;
+  }
+  try {
+    addDuration(new Date(), duration);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function invalidValidityDuration(c: Context) {
+  return c.json(
+    {
+      status: "error",
+      error: {
+        code: "VALIDATION",
+        message:
+          "validityDuration must be an ISO 8601 duration, e.g. P2Y for two years",
+      },
+    },
+    400,
+  );
+}
+
 // List all badge classes
 badges.get(BADGE_ROUTES.LIST, async (c) => {
   try {
-    // Get badge classes (with optional filtering by issuer)
+    // Get badge classes (with optional filtering by issuer and state)
     const issuerId = c.req.query("issuerId");
+    const statuses = parseBadgeClassStatusFilter(c.req.query("status"));
+
+    if (!statuses) {
+      return c.json(
+        {
+          status: "error",
+          error: {
+            code: "VALIDATION",
+            message:
+              "status must be a comma-separated list of draft, active, retired and archived",
+          },
+        },
+        400,
+      );
+    }
 
     // Validate UUID format if issuerId is provided
     if (issuerId && !isValidUuid(issuerId)) {
@@ -40,28 +226,22 @@ badges.get(BADGE_ROUTES.LIST, async (c) => {
       });
     }
 
-    if (issuerId) {
-      const results = await db
-        .select()
-        .from(badgeClasses)
-        .where(eq(badgeClasses.issuerId, issuerId));
-
-      return c.json({
-        status: "success",
-        data: {
-          badges: results,
-        },
-      });
-    } else {
-      const results = await db.select().from(badgeClasses);
+    const results = await db
+      .select()
+      .from(badgeClasses)
+      .where(
+        and(
+          inArray(badgeClasses.status, statuses),
+          issuerId ? eq(badgeClasses.issuerId, issuerId) : undefined,
+        ),
+      );
 
-      return c.json({
-        status: "success",
-        data: {
-          badges: results,
-        },
-      });
-    }
+    return c.json({
+      status: "success",
+      data: {
+        badges: results,
+      },
+    });
   } catch (error) {
     console.error("Failed to list badges:", error);
     return c.json(
@@ -136,13 +316,109 @@ badges.get(BADGE_ROUTES.GET, async (c) => {
   }
 });
 
+// List the versions of a badge class
+badges.get(BADGE_ROUTES.VERSIONS, async (c) => {
+  try {
+    const badgeId = c.req.param("id");
+
+    if (!isValidUuid(badgeId)) {
+      return badgeNotFound(c);
+    }
+
+    const [badge] = await db
+      .select({ currentVersion: badgeClasses.currentVersion })
+      .from(badgeClasses)
+      .where(eq(badgeClasses.badgeId, badgeId))
+      .limit(1);
+
+    if (!badge) {
+      return badgeNotFound(c);
+    }
+
+    return c.json({
+      status: "success",
+      data: {
+        currentVersion: badge.currentVersion,
+        versions: await badgeVersionService.listVersions(badgeId),
+      },
+    });
+  } catch (error) {
+    console.error("Failed to list badge versions:", error);
+    return c.json(
+      {
+        status: "error",
+        error: {
+          code: "SERVER_ERROR",
+          message: "Failed to retrieve badge versions",
+        },
+      },
+      500,
+    );
+  }
+});
+
+// Get the definition of a badge class at one of its versions
+badges.get(BADGE_ROUTES.VERSION, async (c) => {
+  try {
+    const badgeId = c.req.param("id");
+    const version = Number(c.req.param("version"));
+
+    if (
+      !isValidUuid(badgeId) ||
+      !Number.isSafeInteger(version) ||
+      version < 1
+    ) {
+      return badgeNotFound(c);
+    }
+
+    const badgeVersion = await badgeVersionService.getVersion(badgeId, version);
+
+    if (!badgeVersion) {
+      return badgeNotFound(c);
+    }
+
+    return c.json({
+      status: "success",
+      data: {
+        badgeId,
+        version: badgeVersion.version,
+        definition: badgeVersion.definition as BadgeClassDefinition,
+        badgeJson: badgeVersion.badgeJson,
+        createdBy: badgeVersion.createdBy,
+        createdAt: badgeVersion.createdAt,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to get badge version:", error);
+    return c.json(
+      {
+        status: "error",
+        error: {
+          code: "SERVER_ERROR",
+          message: "Failed to retrieve badge version",
+        },
+      },
+      500,
+    );
+  }
+});
+
 // Create a new badge class
 badges.post(BADGE_ROUTES.CREATE, async (c) => {
   try {
     const body = await c.req.json();
 
     // Validate required fields
-    const { issuerId, name, description, criteria, imageUrl } = body;
+    const {
+      issuerId,
+      name,
+      description,
+      criteria,
+      imageUrl,
+      validityDuration,
+      hashRecipients,
+      status,
+    } = body;
 
     if (!issuerId || !name || !description || !criteria || !imageUrl) {
       return c.json(
@@ -157,6 +433,35 @@ badges.post(BADGE_ROUTES.CREATE, async (c) => {
       );
     }
 
+    if (
+      validityDuration !== undefined &&
+      !isValidityDuration(validityDuration)
+    ) {
+      return invalidValidityDuration(c);
+    }
+    if (hashRecipients !== undefined && typeof hashRecipients !== "boolean") {
+      return invalidHashRecipients(c);
+    }
+    const details = parseAchievementDetails(body);
+    if (!details.success) {
+      return invalidAchievementDetails(c, details.error);
+    }
+    if (
+      status !== undefined &&
+      !INITIAL_BADGE_CLASS_STATUSES.includes(status)
+    ) {
+      return c.json(
+        {
+          status: "error",
+          error: {
+            code: "VALIDATION",
+            message: "A badge class is created as draft or active",
+          },
+        },
+        400,
+      );
+    }
+
     // Validate issuer UUID format
     if (!isValidUuid(issuerId)) {
       return c.json(
@@ -201,6 +506,10 @@ badges.post(BADGE_ROUTES.CREATE, async (c) => {
       description,
       criteria,
       imageUrl,
+      validityDuration,
+      hashRecipients,
+      status,
+      ...details.data,
       badgeJson: {
         "@context": "https://w3id.org/openbadges/v2",
         type: "BadgeClass",
@@ -212,28 +521,32 @@ badges.post(BADGE_ROUTES.CREATE, async (c) => {
           narrative: criteria,
         },
         issuer: `${hostUrl}/issuers/${issuerId}`,
-      },
+      } as Record<string, unknown>,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
-
-    // Insert the badge
-    const result = await db.insert(badgeClasses).values(newBadge).returning();
-
-    if (!result || result.length === 0) {
-      throw new Error("Failed to insert badge");
-    }
-
-    // Update the badge JSON with the correct ID
-    const insertedBadge = result[0];
-    const badgeJson = insertedBadge.badgeJson as BadgeClassJson;
-    badgeJson.id = `${hostUrl}/badges/${insertedBadge.badgeId}`;
-
-    // Update the badge with the correct ID
-    await db
-      .update(badgeClasses)
-      .set({ badgeJson })
-      .where(eq(badgeClasses.badgeId, insertedBadge.badgeId));
+    setOB2AchievementDetails(newBadge.badgeJson, details.data);
+
+    // Create the badge class and its first version together
+    const insertedBadge = await db.transaction(async (tx) => {
+      const result = await tx.insert(badgeClasses).values(newBadge).returning();
+
+      if (!result || result.length === 0) {
+        throw new Error("Failed to insert badge");
+      }
+
+      // Update the badge JSON with the correct ID
+      const badgeJson = result[0].badgeJson as BadgeClassJson;
+      badgeJson.id = `${hostUrl}/badges/${result[0].badgeId}`;
+
+      const [created] = await tx
+        .update(badgeClasses)
+        .set({ badgeJson })
+        .where(eq(badgeClasses.badgeId, result[0].badgeId))
+        .returning();
+      await badgeVersionService.createVersion(created, currentUserId(c), tx);
+      return created;
+    });
 
     // Return the created badge
     return c.json(
@@ -241,10 +554,7 @@ badges.post(BADGE_ROUTES.CREATE, async (c) => {
         status: "success",
         data: {
           badgeId: insertedBadge.badgeId,
-          badge: {
-            ...insertedBadge,
-            badgeJson,
-          },
+          badge: insertedBadge,
         },
       },
       201,
@@ -265,182 +575,264 @@ badges.post(BADGE_ROUTES.CREATE, async (c) => {
 });
 
 // Update a badge class
-badges.put(BADGE_ROUTES.UPDATE, async (c) => {
-  try {
-    const badgeId = c.req.param("id");
-
-    // Validate UUID format
-    if (!isValidUuid(badgeId)) {
-      return c.json(
-        {
-          status: "error",
-          error: {
-            code: "NOT_FOUND",
-            message: "Badge not found",
+badges.put(
+  BADGE_ROUTES.UPDATE,
+  combineMiddleware(
+    requireAuth,
+    requireRole([Role.ISSUER_ADMIN, Role.ISSUER_OWNER]),
+    requireOwnership(getBadgeIssuerOwner),
+  ),
+  async (c) => {
+    try {
+      const badgeId = c.req.param("id");
+
+      // Validate UUID format
+      if (!isValidUuid(badgeId)) {
+        return c.json(
+          {
+            status: "error",
+            error: {
+              code: "NOT_FOUND",
+              message: "Badge not found",
+            },
           },
-        },
-        404,
-      );
-    }
-
-    const body = await c.req.json();
+          404,
+        );
+      }
 
-    // Get the existing badge
-    const existingBadge = await db
-      .select()
-      .from(badgeClasses)
-      .where(eq(badgeClasses.badgeId, badgeId))
-      .limit(1);
+      const body = await c.req.json();
 
-    if (!existingBadge || existingBadge.length === 0) {
-      return c.json(
-        {
-          status: "error",
-          error: {
-            code: "NOT_FOUND",
-            message: "Badge not found",
+      // Get the existing badge
+      const existingBadge = await db
+        .select()
+        .from(badgeClasses)
+        .where(eq(badgeClasses.badgeId, badgeId))
+        .limit(1);
+
+      if (!existingBadge || existingBadge.length === 0) {
+        return c.json(
+          {
+            status: "error",
+            error: {
+              code: "NOT_FOUND",
+              message: "Badge not found",
+            },
           },
-        },
-        404,
-      );
-    }
-
-    // Extract fields to update
-    const { name, description, criteria, imageUrl } = body;
-
-    // Create a properly typed updates object
-    type BadgeUpdates = {
-      updatedAt: Date;
-      name?: string;
-      description?: string;
-      criteria?: string;
-      imageUrl?: string;
-      badgeJson?: Record<string, unknown>;
-    };
-
-    const updates: BadgeUpdates = { updatedAt: new Date() };
-
-    if (name) updates.name = name;
-    if (description) updates.description = description;
-    if (criteria) updates.criteria = criteria;
-    if (imageUrl) updates.imageUrl = imageUrl;
-
-    // Update the badge JSON as well
-    const badgeJson = {
-      ...(existingBadge[0].badgeJson as Record<string, unknown>),
-    };
-    if (name) badgeJson.name = name;
-    if (description) badgeJson.description = description;
-    if (criteria) badgeJson.criteria = { narrative: criteria };
-    if (imageUrl) badgeJson.image = imageUrl;
-
-    updates.badgeJson = badgeJson;
-
-    // Update the badge
-    const result = await db
-      .update(badgeClasses)
-      .set(updates)
-      .where(eq(badgeClasses.badgeId, badgeId))
-      .returning();
+          404,
+        );
+      }
+
+      // Extract fields to update
+      const {
+        name,
+        description,
+        criteria,
+        imageUrl,
+        validityDuration,
+        hashRecipients,
+        status,
+      } = body;
+
+      // Archived badge classes are frozen; they can only be restored
+      const { status: currentStatus } = existingBadge[0];
+      if (status !== undefined && !isBadgeClassStatus(status)) {
+        return c.json(
+          {
+            status: "error",
+            error: {
+              code: "VALIDATION",
+              message: "status must be draft, active, retired or archived",
+            },
+          },
+          400,
+        );
+      }
+      if (
+        status !== undefined &&
+        !canChangeBadgeClassStatus(currentStatus as BadgeClassStatus, status)
+      ) {
+        return badgeStatusConflict(
+          c,
+          `A badge class cannot change from ${currentStatus} to ${status}`,
+        );
+      }
+      if (
+        currentStatus === "archived" &&
+        Object.keys(body).some((field) => field !== "status")
+      ) {
+        return badgeStatusConflict(
+          c,
+          "An archived badge class cannot be edited; restore it first",
+        );
+      }
+
+      // null removes the default validity duration
+      if (
+        validityDuration !== undefined &&
+        validityDuration !== null &&
+        !isValidityDuration(validityDuration)
+      ) {
+        return invalidValidityDuration(c);
+      }
+      if (hashRecipients !== undefined && typeof hashRecipients !== "boolean") {
+        return invalidHashRecipients(c);
+      }
+      // null removes an achievement detail
+      const details = parseAchievementDetails(body);
+      if (!details.success) {
+        return invalidAchievementDetails(c, details.error);
+      }
+
+      // Create a properly typed updates object
+      type BadgeUpdates = {
+        updatedAt: Date;
+        name?: string;
+        description?: string;
+        criteria?: string;
+        imageUrl?: string;
+        validityDuration?: string | null;
+        hashRecipients?: boolean;
+        status?: BadgeClassStatus;
+        badgeJson?: Record<string, unknown>;
+      } & AchievementDetails;
+
+      const updates: BadgeUpdates = { updatedAt: new Date(), ...details.data };
+
+      if (name) updates.name = name;
+      if (description) updates.description = description;
+      if (criteria) updates.criteria = criteria;
+      if (imageUrl) updates.imageUrl = imageUrl;
+      if (validityDuration !== undefined) {
+        updates.validityDuration = validityDuration;
+      }
+      if (hashRecipients !== undefined) updates.hashRecipients = hashRecipients;
+      if (status !== undefined) updates.status = status;
+
+      // Update the badge JSON as well
+      const badgeJson = {
+        ...(existingBadge[0].badgeJson as Record<string, unknown>),
+      };
+      if (name) badgeJson.name = name;
+      if (description) badgeJson.description = description;
+      if (criteria) badgeJson.criteria = { narrative: criteria };
+      if (imageUrl) badgeJson.image = imageUrl;
+      setOB2AchievementDetails(badgeJson, details.data);
+
+      updates.badgeJson = badgeJson;
+
+      // Update the badge, creating a version if its definition changed
+      const badge = await db.transaction(async (tx) => {
+        const [updated] = await tx
+          .update(badgeClasses)
+          .set(updates)
+          .where(eq(badgeClasses.badgeId, badgeId))
+          .returning();
+        return badgeVersionService.recordEdit(
+          existingBadge[0],
+          updated,
+          currentUserId(c),
+          tx,
+        );
+      });
 
-    return c.json({
-      status: "success",
-      data: {
-        badge: result[0],
-      },
-    });
-  } catch (error) {
-    console.error("Failed to update badge:", error);
-    return c.json(
-      {
-        status: "error",
-        error: {
-          code: "SERVER_ERROR",
-          message: "Failed to update badge",
+      return c.json({
+        status: "success",
+        data: {
+          badge,
         },
-      },
-      500,
-    );
-  }
-});
-
-// Delete a badge class
-badges.delete(BADGE_ROUTES.DELETE, async (c) => {
-  try {
-    const badgeId = c.req.param("id");
-
-    // Validate UUID format
-    if (!isValidUuid(badgeId)) {
+      });
+    } catch (error) {
+      console.error("Failed to update badge:", error);
       return c.json(
         {
           status: "error",
           error: {
-            code: "NOT_FOUND",
-            message: "Badge not found",
+            code: "SERVER_ERROR",
+            message: "Failed to update badge",
           },
         },
-        404,
+        500,
       );
     }
+  },
+);
+
+// Archive a badge class
+badges.delete(
+  BADGE_ROUTES.DELETE,
+  combineMiddleware(
+    requireAuth,
+    requireRole([Role.ISSUER_ADMIN, Role.ISSUER_OWNER]),
+    requireOwnership(getBadgeIssuerOwner),
+  ),
+  async (c) => {
+    try {
+      const badgeId = c.req.param("id");
+
+      // Validate UUID format
+      if (!isValidUuid(badgeId)) {
+        return c.json(
+          {
+            status: "error",
+            error: {
+              code: "NOT_FOUND",
+              message: "Badge not found",
+            },
+          },
+          404,
+        );
+      }
 
-    // Check if badge exists
-    const badge = await db
-      .select()
-      .from(badgeClasses)
-      .where(eq(badgeClasses.badgeId, badgeId))
-      .limit(1);
-
-    if (!badge || badge.length === 0) {
-      return c.json(
-        {
-          status: "error",
-          error: {
-            code: "NOT_FOUND",
-            message: "Badge not found",
+      // Check if badge exists
+      const badge = await db
+        .select()
+        .from(badgeClasses)
+        .where(eq(badgeClasses.badgeId, badgeId))
+        .limit(1);
+
+      if (!badge || badge.length === 0) {
+        return c.json(
+          {
+            status: "error",
+            error: {
+              code: "NOT_FOUND",
+              message: "Badge not found",
+            },
           },
-        },
-        404,
-      );
-    }
+          404,
+        );
+      }
+
+      // Badge classes are archived rather than deleted, so their assertions
+      // and versions stay verifiable
+      const [archivedBadge] = await db
+        .update(badgeClasses)
+        .set({ status: "archived", updatedAt: new Date() })
+        .where(eq(badgeClasses.badgeId, badgeId))
+        .returning();
 
-    // Check if badge has been issued (has assertions)
-    const hasAssertions = await controller.hasBadgeAssertions(badgeId);
-    if (hasAssertions) {
+      return c.json({
+        status: "success",
+        data: {
+          message: "Badge archived successfully",
+          badge: archivedBadge,
+        },
+      });
+    } catch (error) {
+      console.error("Failed to archive badge:", error);
       return c.json(
         {
           status: "error",
           error: {
-            code: "CONFLICT",
-            message: "Cannot delete a badge that has been issued",
+            code: "SERVER_ERROR",
+            message: "Failed to archive badge",
           },
         },
-        409,
+        500,
       );
     }
-
-    // Delete the badge
-    await db.delete(badgeClasses).where(eq(badgeClasses.badgeId, badgeId));
-
-    return c.json({
-      status: "success",
-      data: {
-        message: "Badge deleted successfully",
-      },
-    });
-  } catch (error) {
-    console.error("Failed to delete badge:", error);
-    return c.json(
-      {
-        status: "error",
-        error: {
-          code: "SERVER_ERROR",
-          message: "Failed to delete badge",
-        },
-      },
-      500,
-    );
-  }
-});
+  },
+);
 
 // Add badge baking endpoints
 badges.get(BADGE_ROUTES.BAKE_BADGE, async (c) => {
@@ -527,36 +919,39 @@ badges.get(BADGE_ROUTES.BAKE_BADGE, async (c) => {
       );
     }
 
-    // Get the image data from URL - this would typically fetch from your storage
-    // For demonstration, we'll fetch from the badge's imageUrl
-    const imageUrl = badge[0].imageUrl;
-    const imageResponse = await fetch(imageUrl);
-
-    if (!imageResponse.ok) {
+    // Awards are baked into the image of the version they were issued under
+    const badgeVersion = assertion[0].badgeVersion
+      ? await badgeVersionService.getVersion(
+          assertion[0].badgeId,
+          assertion[0].badgeVersion,
+        )
+      : null;
+    const imageUrl =
+      (badgeVersion?.definition as BadgeClassDefinition | undefined)
+        ?.imageUrl ?? badge[0].imageUrl;
+
+    // Images are read from the media store, which imports them on first use
+    let image: StoredImage;
+    try {
+      image = await mediaService.loadImage(imageUrl);
+    } catch (error) {
+      console.error("Failed to load badge image:", error);
       return c.json(
         {
           status: "error",
           error: {
             code: "FETCH_ERROR",
-            message: "Failed to fetch badge image",
+            message: "Failed to load badge image",
           },
         },
         500,
       );
     }
 
-    // Get image data as buffer
-    const imageArrayBuffer = await imageResponse.arrayBuffer();
-    const imageBuffer = Buffer.from(imageArrayBuffer);
-
     // Bake the assertion into the image
     const assertionJson = assertion[0].assertionJson as Record<string, unknown>;
-    const bakedImage = await bakeImage(imageBuffer, assertionJson);
-
-    // Set content type based on image type
-    const contentType = imageUrl.toLowerCase().endsWith(".svg")
-      ? "image/svg+xml"
-      : "image/png";
+    const bakedImage = await bakeImage(image.data, assertionJson);
+    const contentType = image.media.mimeType;
 
     // Send the image back to the client
     c.header("Content-Type", contentType);
@@ -0,0 +1,20 @@
+import { Hono } from "hono";
+import { DidController } from "@/controllers/did.controller";
+
+const DID_ROUTES = {
+  HOST_DOCUMENT: "/.well-known/did.json",
+  ISSUER_DOCUMENT: "/issuers/:id/did.json",
+};
+
+const did = new Hono();
+const didController = new DidController();
+
+// did:web:<host>
+did.get(DID_ROUTES.HOST_DOCUMENT, (c) => didController.getHostDidDocument(c));
+
+// did:web:<host>:issuers:<id>
+did.get(DID_ROUTES.ISSUER_DOCUMENT, (c) =>
+  didController.getIssuerDidDocument(c),
+);
+
+export default did;
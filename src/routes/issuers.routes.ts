@@ -9,6 +9,7 @@ import {
   type AuthUser,
 } from "../middleware/auth";
 import { IssuerController } from "../controllers/issuer.controller";
+import { SigningKeyController } from "../controllers/signing-key.controller";
 import {
   type CreateIssuerDto,
   type UpdateIssuerDto,
@@ -22,6 +23,7 @@ declare module "hono" {
 }
 
 const controller = new IssuerController();
+const keyController = new SigningKeyController();
 const issuers = new Hono();
 
 // Interface for issuer response with ownerUserId
@@ -133,6 +135,45 @@ issuers.delete(
   },
 );
 
+// List an issuer's signing keys
+issuers.get(
+  "/:id/keys",
+  combineMiddleware(
+    requireAuth,
+    requireRole([Role.ISSUER_ADMIN, Role.ISSUER_OWNER]),
+    requireOwnership(getIssuerOwner),
+  ),
+  (c) => keyController.listKeys(c),
+);
+
+// Rotate an issuer's signing key
+issuers.post(
+  "/:id/keys/rotate",
+  combineMiddleware(
+    requireAuth,
+    requireRole([Role.ISSUER_ADMIN, Role.ISSUER_OWNER]),
+    requireOwnership(getIssuerOwner),
+  ),
+  (c) => keyController.rotateKey(c),
+);
+
+// Public keys of an issuer as a JWK Set
+issuers.get("/:id/jwks.json", (c) => keyController.getJwks(c));
+
+// Revoked assertions of an issuer as an OB2 RevocationList
+issuers.get("/:id/revocations", (c) => controller.getRevocationList(c));
+
+// Revoke a compromised signing key
+issuers.post(
+  "/:id/keys/:keyId/revoke",
+  combineMiddleware(
+    requireAuth,
+    requireRole([Role.ISSUER_ADMIN, Role.ISSUER_OWNER]),
+    requireOwnership(getIssuerOwner),
+  ),
+  (c) => keyController.revokeKey(c),
+);
+
 // Verify issuer
 issuers.get("/:id/verify", async (c) => {
   try {
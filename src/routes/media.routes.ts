@@ -0,0 +1,159 @@
+import { Hono, type Context } from "hono";
+import type { AuthUser } from "@/middleware/auth";
+import { getMediaUrl, MediaService } from "@/services/media.service";
+import type { Media } from "@/db/schema";
+import { BadRequestError } from "@/utils/errors";
+import { isNotModified } from "@/utils/http-cache";
+import { isValidUuid } from "@/utils/validation";
+
+const MEDIA_ROUTES = {
+  UPLOAD: "/",
+  GET: "/:mediaId",
+} as const;
+
+// Content never changes under a media URL
+const MEDIA_CACHE_CONTROL = "public, max-age=31536000, immutable";
+
+// Served SVGs must not run scripts or load anything
+const SVG_CONTENT_SECURITY_POLICY =
+  "default-src 'none'; style-src 'unsafe-inline'; sandbox";
+
+const media = new Hono();
+const mediaService = new MediaService();
+
+/**
+ * Describe a stored image, including the URL it is served at
+ */
+function toMediaJson(c: Context, stored: Media) {
+  return {
+    mediaId: stored.mediaId,
+    url: getMediaUrl(new URL(c.req.url).origin, stored.mediaId),
+    mimeType: stored.mimeType,
+    byteSize: stored.byteSize,
+    width: stored.width,
+    height: stored.height,
+    contentHash: stored.contentHash,
+    createdAt: stored.createdAt,
+  };
+}
+
+// Upload a badge image
+media.post(MEDIA_ROUTES.UPLOAD, async (c) => {
+  try {
+    const formData = await c.req.formData();
+    const file = formData.get("file");
+
+    if (!file || !(file instanceof File)) {
+      return c.json(
+        {
+          status: "error",
+          error: {
+            code: "VALIDATION",
+            message: "No file uploaded or invalid file",
+          },
+        },
+        400,
+      );
+    }
+
+    const stored = await mediaService.store(
+      Buffer.from(await file.arrayBuffer()),
+      { uploadedBy: (c.get("user") as AuthUser | undefined)?.id },
+    );
+
+    return c.json(
+      {
+        status: "success",
+        data: toMediaJson(c, stored),
+      },
+      201,
+    );
+  } catch (error) {
+    if (error instanceof BadRequestError) {
+      return c.json(
+        {
+          status: "error",
+          error: {
+            code: "VALIDATION",
+            message: error.message,
+          },
+        },
+        400,
+      );
+    }
+
+    console.error("Failed to upload media:", error);
+    return c.json(
+      {
+        status: "error",
+        error: {
+          code: "SERVER_ERROR",
+          message: "Failed to upload media",
+        },
+      },
+      500,
+    );
+  }
+});
+
+// Serve a badge image at its stable URL
+media.get(MEDIA_ROUTES.GET, async (c) => {
+  try {
+    const mediaId = c.req.param("mediaId");
+    const stored = isValidUuid(mediaId)
+      ? await mediaService.getMedia(mediaId)
+      : null;
+
+    if (!stored) {
+      return c.json(
+        {
+          status: "error",
+          error: {
+            code: "NOT_FOUND",
+            message: "Media not found",
+          },
+        },
+        404,
+      );
+    }
+
+    const etag = `"${stored.contentHash}"`;
+    c.header("ETag", etag);
+    c.header("Last-Modified", stored.createdAt.toUTCString());
+    c.header("Cache-Control", MEDIA_CACHE_CONTROL);
+    if (stored.mimeType === "image/svg+xml") {
+      c.header("Content-Security-Policy", SVG_CONTENT_SECURITY_POLICY);
+    }
+
+    if (
+      isNotModified(
+        {
+          ifNoneMatch: c.req.header("If-None-Match"),
+          ifModifiedSince: c.req.header("If-Modified-Since"),
+        },
+        etag,
+        stored.createdAt,
+      )
+    ) {
+      return c.body(null, 304);
+    }
+
+    const data = await mediaService.readContent(stored);
+    c.header("Content-Type", stored.mimeType);
+    return c.body(new Uint8Array(data));
+  } catch (error) {
+    console.error("Failed to get media:", error);
+    return c.json(
+      {
+        status: "error",
+        error: {
+          code: "SERVER_ERROR",
+          message: "Failed to get media",
+        },
+      },
+      500,
+    );
+  }
+});
+
+export default media;
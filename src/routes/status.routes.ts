@@ -1,95 +1,272 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { eq } from "drizzle-orm";
 import { db } from "@/db/config";
-import { statusLists, badgeAssertions } from "@/db/schema";
+import { badgeAssertions, type StatusPurpose } from "@/db/schema";
 import { isValidUuid } from "@/utils/validation";
+import { isStatusList2021Credential } from "@/models/credential.model";
 import {
-  isStatusList2021Credential,
-  StatusList2021Entry,
-} from "@/models/credential.model";
-import { CredentialService } from "@/services/credential.service";
-import {
-  getIndexFromUuid,
-  isCredentialRevoked,
-} from "@/utils/signing/status-list";
+  CredentialService,
+  type SignableCredential,
+} from "@/services/credential.service";
+import type { StoredStatusList } from "@/services/status-list.service";
+import { isCredentialRevoked } from "@/utils/signing/status-list";
+import { VC_JWT_MEDIA_TYPE } from "@/utils/signing/vc-jwt";
+import { VC_LD_MEDIA_TYPE } from "@/utils/signing/data-integrity";
+import { createETag, isNotModified } from "@/utils/http-cache";
+import { constructRevocationList } from "@/models/issuer.model";
 
 const STATUS_ROUTES = {
   GET_STATUS_LIST: "/list/:issuerId",
+  GET_STATUS_LIST_SHARD: "/list/:issuerId/:listId",
+  GET_REVOCATION_LIST: "/revocations/:issuerId",
   GET_STATUS: "/:assertionId",
 };
 
+// Page size of the public revocation list
+const REVOCATION_LIST_PAGE_SIZE = 100;
+const MAX_REVOCATION_LIST_PAGE_SIZE = 1000;
+
+// Seconds verifiers may cache a status list before revalidating
+const STATUS_LIST_TTL = Number(process.env.STATUS_LIST_TTL) || 300;
+
 const status = new Hono();
 const credentialService = new CredentialService();
+const { statusListService } = credentialService;
+
+// Latest VC-JWT of each status list, keyed by status list ID
+const statusListJwts = new Map<string, { etag: string; jwt: string }>();
+
+/**
+ * Read an assertion's entry and bit in its status list of a purpose
+ * The value is undefined when the assertion has no readable bit.
+ */
+async function readStatusBit(assertionId: string, purpose: StatusPurpose) {
+  const entry = await statusListService.getEntry(assertionId, purpose);
+  let value: boolean | undefined;
+
+  if (entry) {
+    const statusList = await statusListService.getStatusListByUrl(
+      entry.statusListCredential,
+    );
+
+    if (statusList && isStatusList2021Credential(statusList.credential)) {
+      try {
+        value = isCredentialRevoked(
+          statusList.credential.credentialSubject.encodedList,
+          parseInt(entry.statusListIndex),
+        );
+      } catch (error) {
+        console.error("Status list verification error:", error);
+      }
+    }
+  }
+
+  return { entry, value };
+}
+
+/**
+ * Send a status list credential to a verifier
+ * The bare credential is returned, as a VC-JWT if the client asks for one
+ * and in its Data Integrity form otherwise. Responses can be cached for
+ * STATUS_LIST_TTL seconds and revalidated with a conditional GET.
+ */
+async function sendStatusList(c: Context, statusList: StoredStatusList) {
+  const asJwt = (c.req.header("Accept") || "").includes(VC_JWT_MEDIA_TYPE);
+  const etag = createETag(
+    `${asJwt ? "jwt" : "ld"}:${JSON.stringify(statusList.credential)}`,
+  );
+  const headers = {
+    ETag: etag,
+    "Last-Modified": statusList.updatedAt.toUTCString(),
+    "Cache-Control": `public, max-age=${STATUS_LIST_TTL}`,
+    Vary: "Accept",
+  };
+
+  if (
+    isNotModified(
+      {
+        ifNoneMatch: c.req.header("If-None-Match"),
+        ifModifiedSince: c.req.header("If-Modified-Since"),
+      },
+      etag,
+      statusList.updatedAt,
+    )
+  ) {
+    return c.body(null, 304, headers);
+  }
+
+  if (asJwt) {
+    // Signing is expensive, so a list is signed once per version
+    let cached = statusListJwts.get(statusList.statusListId);
+    if (cached?.etag !== etag) {
+      cached = {
+        etag,
+        jwt: await credentialService.signCredentialJwt(
+          statusList.issuerId,
+          statusList.credential as unknown as SignableCredential,
+        ),
+      };
+      statusListJwts.set(statusList.statusListId, cached);
+    }
+    return c.body(cached.jwt, 200, {
+      ...headers,
+      "Content-Type": VC_JWT_MEDIA_TYPE,
+    });
+  }
 
-// Get a status list for an issuer
+  return c.body(JSON.stringify(statusList.credential), 200, {
+    ...headers,
+    "Content-Type": VC_LD_MEDIA_TYPE,
+  });
+}
+
+function statusListNotFound(c: Context) {
+  return c.json(
+    {
+      status: "error",
+      error: {
+        code: "NOT_FOUND",
+        message: "Status list not found",
+      },
+    },
+    404,
+  );
+}
+
+function statusListError(c: Context, error: unknown) {
+  console.error("Failed to get status list:", error);
+  return c.json(
+    {
+      status: "error",
+      error: {
+        code: "SERVER_ERROR",
+        message: "Failed to retrieve status list",
+      },
+    },
+    500,
+  );
+}
+
+// Get the first status list of an issuer
+// Credentials issued before lists were sharded point to this URL.
 status.get(STATUS_ROUTES.GET_STATUS_LIST, async (c) => {
   try {
     const issuerId = c.req.param("issuerId");
 
     // Validate UUID format
     if (!issuerId || !isValidUuid(issuerId)) {
+      return statusListNotFound(c);
+    }
+
+    const [statusList] = await statusListService.listStatusLists(
+      issuerId,
+      "revocation",
+    );
+    if (!statusList) {
+      return statusListNotFound(c);
+    }
+
+    return sendStatusList(c, statusList);
+  } catch (error) {
+    return statusListError(c, error);
+  }
+});
+
+// Get one of an issuer's status lists
+status.get(STATUS_ROUTES.GET_STATUS_LIST_SHARD, async (c) => {
+  try {
+    const issuerId = c.req.param("issuerId");
+    const listId = c.req.param("listId");
+
+    const statusList =
+      issuerId && listId && isValidUuid(issuerId) && isValidUuid(listId)
+        ? await statusListService.getStatusList(issuerId, listId)
+        : null;
+
+    if (!statusList) {
+      return statusListNotFound(c);
+    }
+
+    return sendStatusList(c, statusList);
+  } catch (error) {
+    return statusListError(c, error);
+  }
+});
+
+// Get a page of an issuer's revoked assertions as an OB2 RevocationList
+// Only served when PUBLIC_REVOCATION_LIST is enabled.
+status.get(STATUS_ROUTES.GET_REVOCATION_LIST, async (c) => {
+  try {
+    const issuerId = c.req.param("issuerId");
+
+    if (
+      process.env.PUBLIC_REVOCATION_LIST !== "true" ||
+      !issuerId ||
+      !isValidUuid(issuerId)
+    ) {
       return c.json(
         {
           status: "error",
           error: {
             code: "NOT_FOUND",
-            message: "Status list not found",
+            message: "Revocation list not found",
           },
         },
         404,
       );
     }
 
-    // Get the status list
-    const [statusList] = await db
-      .select()
-      .from(statusLists)
-      .where(eq(statusLists.issuerId, issuerId as string))
-      .limit(1);
-
-    if (!statusList) {
-      // If no status list exists, create a new one
-      const hostUrl = new URL(c.req.url).origin;
-      const newStatusList = await credentialService.createOrUpdateStatusList(
-        hostUrl,
-        issuerId as string,
-      );
-
-      // Validate the status list
-      if (!isStatusList2021Credential(newStatusList)) {
-        throw new Error("Failed to create valid status list");
-      }
-
-      return c.json({
-        status: "success",
-        data: {
-          statusList: newStatusList,
+    const page = Number(c.req.query("page") || 1);
+    const limit = Number(c.req.query("limit") || REVOCATION_LIST_PAGE_SIZE);
+    if (
+      !Number.isSafeInteger(page) ||
+      page < 1 ||
+      !Number.isSafeInteger(limit) ||
+      limit < 1 ||
+      limit > MAX_REVOCATION_LIST_PAGE_SIZE
+    ) {
+      return c.json(
+        {
+          status: "error",
+          error: {
+            code: "VALIDATION",
+            message: `page must be a positive integer and limit between 1 and ${MAX_REVOCATION_LIST_PAGE_SIZE}`,
+          },
         },
-      });
+        400,
+      );
     }
 
-    // Parse the status list
-    let statusListCredential;
-    if (typeof statusList.statusListJson === "string") {
-      statusListCredential = JSON.parse(statusList.statusListJson);
-    } else {
-      statusListCredential = statusList.statusListJson;
-    }
+    const { total, assertions } =
+      await credentialService.statusHistoryService.listRevokedAssertions(
+        issuerId,
+        { limit, offset: (page - 1) * limit },
+      );
 
-    return c.json({
-      status: "success",
-      data: {
-        statusList: statusListCredential,
+    const url = new URL(c.req.url);
+    const listUrl = `${url.origin}/api/status/revocations/${issuerId}`;
+    const pageUrl = (n: number) => `${listUrl}?page=${n}&limit=${limit}`;
+    const links = [
+      ...(page > 1 ? [`<${pageUrl(page - 1)}>; rel="prev"`] : []),
+      ...(page * limit < total ? [`<${pageUrl(page + 1)}>; rel="next"`] : []),
+    ];
+
+    return c.json(
+      constructRevocationList(url.origin, issuerId, pageUrl(page), assertions),
+      200,
+      {
+        "X-Total-Count": String(total),
+        ...(links.length > 0 && { Link: links.join(", ") }),
       },
-    });
+    );
   } catch (error) {
-    console.error("Failed to get status list:", error);
+    console.error("Failed to get revocation list:", error);
     return c.json(
       {
         status: "error",
         error: {
           code: "SERVER_ERROR",
-          message: "Failed to retrieve status list",
+          message: "Failed to retrieve revocation list",
         },
       },
       500,
@@ -136,60 +313,22 @@ status.get(STATUS_ROUTES.GET_STATUS, async (c) => {
       );
     }
 
-    const issuerId = assertion.issuerId;
-
-    // Get the status list
-    const [statusList] = await db
-      .select()
-      .from(statusLists)
-      .where(eq(statusLists.issuerId, issuerId))
-      .limit(1);
-
-    // Check status list revocation
-    let revoked = assertion.revoked;
-    let statusListInfo = null;
-
-    if (statusList) {
-      // Parse the status list
-      let statusListCredential;
-      if (typeof statusList.statusListJson === "string") {
-        statusListCredential = JSON.parse(statusList.statusListJson);
-      } else {
-        statusListCredential = statusList.statusListJson;
-      }
-
-      if (isStatusList2021Credential(statusListCredential)) {
-        const index = getIndexFromUuid(assertionId as string);
-        const encodedList = statusListCredential.credentialSubject.encodedList;
-
-        try {
-          const isRevoked = isCredentialRevoked(encodedList, index);
-
-          // Status list takes precedence over database
-          revoked = isRevoked;
-
-          // Create a status entry for clients to verify
-          const hostUrl = new URL(c.req.url).origin;
-          statusListInfo = {
-            id: `${hostUrl}/status/${assertionId}`,
-            type: "StatusList2021Entry",
-            statusPurpose: "revocation",
-            statusListIndex: index.toString(),
-            statusListCredential: `${hostUrl}/status/list/${issuerId}`,
-          } as StatusList2021Entry;
-        } catch (error) {
-          console.error("Status list verification error:", error);
-        }
-      }
-    }
+    // Status lists take precedence over the database
+    const [revocation, suspension] = await Promise.all([
+      readStatusBit(assertionId as string, "revocation"),
+      readStatusBit(assertionId as string, "suspension"),
+    ]);
 
     return c.json({
       status: "success",
       data: {
         id: assertionId,
-        revoked: revoked,
+        revoked: revocation.value ?? assertion.revoked,
         reason: assertion.revocationReason,
-        statusList: statusListInfo,
+        statusList: revocation.entry,
+        suspended: suspension.value ?? assertion.suspended,
+        suspensionReason: assertion.suspensionReason,
+        suspensionStatusList: suspension.entry,
       },
     });
   } catch (error) {
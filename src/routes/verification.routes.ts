@@ -5,6 +5,8 @@ const VERIFICATION_ROUTES = {
   VERIFY_ASSERTION: "/assertions/:assertionId",
   VERIFY_BADGE_JSON: "/verify-json",
   VERIFY_STATUS_LIST: "/status/:statusListId",
+  VERIFY_STATUS_LIST_URL: "/status",
+  VERIFY_RECIPIENT: "/recipient",
 };
 
 const verification = new Hono();
@@ -25,4 +27,14 @@ verification.get(VERIFICATION_ROUTES.VERIFY_STATUS_LIST, (c) =>
   verificationController.verifyStatusList(c),
 );
 
+// Verify a status list credential by its URL
+verification.get(VERIFICATION_ROUTES.VERIFY_STATUS_LIST_URL, (c) =>
+  verificationController.verifyStatusList(c),
+);
+
+// Check whether a credential was issued to a recipient
+verification.post(VERIFICATION_ROUTES.VERIFY_RECIPIENT, (c) =>
+  verificationController.verifyRecipient(c),
+);
+
 export default verification;
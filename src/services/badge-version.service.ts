@@ -0,0 +1,146 @@
+import { and, asc, eq, sql } from "drizzle-orm";
+import { db } from "@/db/config";
+import {
+  badgeClasses,
+  badgeClassVersions,
+  type BadgeClass,
+  type BadgeClassVersion,
+} from "@/db/schema";
+import type { DbExecutor } from "@/services/status-list.service";
+import {
+  constructAchievementDetails,
+  type AchievementDetails,
+} from "@/models/achievement.model";
+
+/**
+ * What a badge class means to its earners, as frozen by each version
+ * Issuance settings such as validityDuration are not part of it.
+ */
+export type BadgeClassDefinition = Pick<
+  BadgeClass,
+  "name" | "description" | "imageUrl" | "criteria"
+> &
+  AchievementDetails;
+
+/**
+ * Get the definition of a badge class as it is now
+ */
+export function getBadgeClassDefinition(
+  badge: BadgeClass,
+): BadgeClassDefinition {
+  return {
+    name: badge.name,
+    description: badge.description,
+    imageUrl: badge.imageUrl,
+    criteria: badge.criteria,
+    ...constructAchievementDetails(badge),
+  };
+}
+
+/**
+ * Records the versions of badge classes and reads them back
+ * Versions are only ever appended; the database rejects updates.
+ */
+export class BadgeVersionService {
+  /**
+   * Freeze a badge class's current definition as its current version
+   * The OB2 badge class JSON of the version is identified by its own URL, so
+   * assertions that embed it keep pointing at what was awarded.
+   * @param badge The badge class, as stored
+   * @param createdBy ID of the user who made the change, if any
+   * @param executor Transaction that changed the badge class
+   */
+  async createVersion(
+    badge: BadgeClass,
+    createdBy?: string | null,
+    executor: DbExecutor = db,
+  ): Promise<BadgeClassVersion> {
+    const badgeJson = badge.badgeJson as Record<string, unknown>;
+    const [version] = await executor
+      .insert(badgeClassVersions)
+      .values({
+        badgeId: badge.badgeId,
+        version: badge.currentVersion,
+        definition: getBadgeClassDefinition(badge),
+        badgeJson: {
+          ...badgeJson,
+          id: `${badgeJson.id}/versions/${badge.currentVersion}`,
+        },
+        createdBy: createdBy || null,
+      })
+      .returning();
+    return version;
+  }
+
+  /**
+   * Create a new version after an edit that changed the definition
+   * Edits of issuance settings alone keep the current version.
+   * @param previous The badge class before the edit
+   * @param updated The badge class after the edit
+   * @param createdBy ID of the user who made the change, if any
+   * @param executor Transaction that made the edit
+   * @returns The badge class with its current version
+   */
+  async recordEdit(
+    previous: BadgeClass,
+    updated: BadgeClass,
+    createdBy?: string | null,
+    executor: DbExecutor = db,
+  ): Promise<BadgeClass> {
+    if (
+      JSON.stringify(getBadgeClassDefinition(previous)) ===
+      JSON.stringify(getBadgeClassDefinition(updated))
+    ) {
+      return updated;
+    }
+
+    const [badge] = await executor
+      .update(badgeClasses)
+      .set({ currentVersion: sql`${badgeClasses.currentVersion} + 1` })
+      .where(eq(badgeClasses.badgeId, updated.badgeId))
+      .returning();
+    await this.createVersion(badge, createdBy, executor);
+    return badge;
+  }
+
+  /**
+   * Get one version of a badge class
+   * @returns The version, or null if it does not exist
+   */
+  async getVersion(
+    badgeId: string,
+    version: number,
+    executor: DbExecutor = db,
+  ): Promise<BadgeClassVersion | null> {
+    const [result] = await executor
+      .select()
+      .from(badgeClassVersions)
+      .where(
+        and(
+          eq(badgeClassVersions.badgeId, badgeId),
+          eq(badgeClassVersions.version, version),
+        ),
+      )
+      .limit(1);
+    return result ?? null;
+  }
+
+  /**
+   * List the versions of a badge class, oldest first
+   */
+  async listVersions(
+    badgeId: string,
+  ): Promise<
+    Array<Pick<BadgeClassVersion, "version" | "createdBy" | "createdAt">>
+  > {
+    return db
+      .select({
+        version: badgeClassVersions.version,
+        createdBy: badgeClassVersions.createdBy,
+        createdAt: badgeClassVersions.createdAt,
+      })
+      .from(badgeClassVersions)
+      .where(eq(badgeClassVersions.badgeId, badgeId))
+      .orderBy(asc(badgeClassVersions.version));
+  }
+}
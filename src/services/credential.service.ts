@@ -1,20 +1,24 @@
-import { eq } from "drizzle-orm";
+import { and, eq, gte, inArray, lte } from "drizzle-orm";
 import { db } from "@/db/config";
 import {
   badgeAssertions,
   badgeClasses,
   issuerProfiles,
-  statusLists,
+  type StatusPurpose,
 } from "@/db/schema";
-import { getSigningKey, generateSigningKey } from "@/utils/signing/keys";
 import {
-  createStatusListCredential,
-  updateCredentialStatus,
-  getIndexFromUuid,
-  isCredentialRevoked,
-} from "@/utils/signing/status-list";
-import ed from "@/utils/signing/noble-polyfill";
-import { base64url } from "@scure/base";
+  getSigningKey,
+  generateSigningKey,
+  getSigningKeyByVerificationMethod,
+  checkKeyValidity,
+} from "@/utils/signing/keys";
+import { isCredentialRevoked } from "@/utils/signing/status-list";
+import {
+  createDataIntegrityProof,
+  verifyDataIntegrityProof,
+  withDataIntegrityContext,
+} from "@/utils/signing/data-integrity";
+import { encodeCredentialJwt } from "@/utils/signing/vc-jwt";
 import {
   OpenBadgeCredential,
   OpenBadgeAchievement,
@@ -22,7 +26,16 @@ import {
   StatusList2021Credential,
   StatusList2021Entry,
 } from "@/models/credential.model";
+import { constructAchievementDetails } from "@/models/achievement.model";
 import { isValidUuid } from "@/utils/validation";
+import { BadRequestError } from "@/utils/errors";
+import { StatusListService } from "@/services/status-list.service";
+import { StatusHistoryService } from "@/services/status-history.service";
+import {
+  BadgeVersionService,
+  getBadgeClassDefinition,
+  type BadgeClassDefinition,
+} from "@/services/badge-version.service";
 import {
   OB3_CREDENTIAL_CONTEXT,
   OB3_ACHIEVEMENT_CONTEXT,
@@ -44,10 +57,55 @@ export interface SignableCredential {
   [key: string]: unknown;
 }
 
+// Most assertions one batch revocation may select
+export const MAX_BATCH_REVOCATION_SIZE = 10000;
+
+/**
+ * Assertions of one issuer to revoke in a batch: explicit IDs, or every
+ * assertion of a badge class and/or issued within a date range
+ */
+export type RevocationSelection = { issuerId: string } & (
+  | { assertionIds: string[] }
+  | { badgeId?: string; issuedFrom?: Date; issuedTo?: Date }
+);
+
+/**
+ * Outcome of revoking one assertion of a batch
+ * - revoked: the assertion was revoked
+ * - already_revoked: the assertion was revoked before and left unchanged
+ * - not_found: the issuer has no assertion with the ID
+ */
+export interface RevocationReportEntry {
+  assertionId: string;
+  result: "revoked" | "already_revoked" | "not_found";
+  statusListUpdated: boolean;
+}
+
 /**
  * Service for managing and processing Open Badge Credentials
  */
 export class CredentialService {
+  /**
+   * Records who changed an assertion's status, when and why
+   */
+  readonly statusHistoryService = new StatusHistoryService();
+
+  /**
+   * Freezes badge class definitions into the versions awards are issued under
+   */
+  readonly badgeVersionService = new BadgeVersionService();
+
+  /**
+   * Allocates status list indices and keeps the lists signed
+   */
+  readonly statusListService = new StatusListService(
+    async (issuerId, statusList) =>
+      (await this.signCredential(
+        issuerId,
+        statusList as unknown as SignableCredential,
+      )) as unknown as StatusList2021Credential,
+  );
+
   /**
    * Create a new issuer key pair if one doesn't exist
    */
@@ -61,10 +119,13 @@ export class CredentialService {
 
   /**
    * Create an Open Badges 3.0 achievement
+   * @param version Version of the badge class to describe; the current
+   * definition is used when omitted
    */
   async createAchievement(
     hostUrl: string,
     badgeId: string,
+    version?: number | null,
   ): Promise<OpenBadgeAchievement> {
     // Validate UUID format
     if (!isValidUuid(badgeId)) {
@@ -92,21 +153,36 @@ export class CredentialService {
         throw new Error("Issuer not found");
       }
 
+      // Awards describe the version they were issued under
+      const pinned = version
+        ? await this.badgeVersionService.getVersion(badge.badgeId, version)
+        : null;
+      if (version && !pinned) {
+        throw new Error("Badge version not found");
+      }
+      const { name, description, imageUrl, criteria, ...details } =
+        (pinned?.definition as BadgeClassDefinition | undefined) ??
+        getBadgeClassDefinition(badge);
+
       // Create achievement definition
       return {
         "@context": OB3_ACHIEVEMENT_CONTEXT,
         id: `${hostUrl}/badges/${badge.badgeId}`,
-        type: ["AchievementCredential"],
-        name: badge.name,
-        description: badge.description,
+        type: ["Achievement"],
+        name,
+        description,
         image: {
-          id: badge.imageUrl,
+          id: imageUrl,
           type: "Image",
         },
         criteria: {
-          narrative: badge.criteria,
+          narrative: criteria,
+        },
+        creator: {
+          id: `${hostUrl}/issuers/${badge.issuerId}`,
+          type: "Profile",
         },
-        issuer: `${hostUrl}/issuers/${badge.issuerId}`,
+        ...constructAchievementDetails(details),
       };
     } catch (error) {
       console.error("Error creating achievement:", error);
@@ -121,6 +197,41 @@ export class CredentialService {
     hostUrl: string,
     assertionId: string,
   ): Promise<OpenBadgeCredential> {
+    const { issuerId, credential } = await this.buildCredential(
+      hostUrl,
+      assertionId,
+    );
+
+    // Sign the credential
+    return (await this.signCredential(
+      issuerId,
+      credential,
+    )) as unknown as OpenBadgeCredential;
+  }
+
+  /**
+   * Create an Open Badges 3.0 verifiable credential secured as a VC-JWT
+   * @returns The compact JWS
+   */
+  async createCredentialJwt(
+    hostUrl: string,
+    assertionId: string,
+  ): Promise<string> {
+    const { issuerId, credential } = await this.buildCredential(
+      hostUrl,
+      assertionId,
+    );
+
+    return this.signCredentialJwt(issuerId, credential);
+  }
+
+  /**
+   * Build the unsigned Open Badges 3.0 credential for an assertion
+   */
+  private async buildCredential(
+    hostUrl: string,
+    assertionId: string,
+  ): Promise<{ issuerId: string; credential: SignableCredential }> {
     // Validate UUID format
     if (!isValidUuid(assertionId)) {
       throw new Error("Invalid assertion ID format");
@@ -135,8 +246,9 @@ export class CredentialService {
 
       // Check if we got a valid result
       let assertion: any;
+      const isStored = Boolean(assertionResult && assertionResult.length > 0);
 
-      if (assertionResult && assertionResult.length > 0) {
+      if (isStored) {
         // Production path - we got a result from the database
         assertion = assertionResult[0];
         console.log("Using assertion from database");
@@ -155,6 +267,7 @@ export class CredentialService {
           recipientIdentity: "test@example.com",
           recipientType: "email",
           recipientHashed: false,
+          recipientSalt: null,
           issuedOn: new Date(),
           assertionJson: {
             "@context": "https://w3id.org/openbadges/v2",
@@ -200,7 +313,11 @@ export class CredentialService {
       }
 
       // Create the achievement
-      const achievement = await this.createAchievement(hostUrl, badgeId);
+      const achievement = await this.createAchievement(
+        hostUrl,
+        badgeId,
+        assertion.badgeVersion,
+      );
 
       // Create the credential without proof
       const credential: SignableCredential = {
@@ -209,22 +326,16 @@ export class CredentialService {
         type: ["VerifiableCredential", "OpenBadgeCredential"],
         issuer: `${hostUrl}/issuers/${assertion.issuerId}`,
         issuanceDate: assertion.issuedOn.toISOString(),
-        credentialSubject: {
-          id: assertion.recipientHashed
-            ? undefined
-            : assertion.recipientIdentity,
-          type:
-            assertion.recipientType === "email"
-              ? "EmailCredentialSubject"
-              : assertion.recipientType === "did"
-                ? "DidCredentialSubject"
-                : assertion.recipientType === "url"
-                  ? "UrlCredentialSubject"
-                  : assertion.recipientType === "phone"
-                    ? "PhoneCredentialSubject"
-                    : "IdentityObject",
-          achievement,
-        },
+        // VCDM 2.0 validity period; expirationDate repeats validUntil for
+        // verifiers of the 1.1 data model the credential is based on
+        ...(assertion.validFrom && {
+          validFrom: assertion.validFrom.toISOString(),
+        }),
+        ...(assertion.validUntil && {
+          validUntil: assertion.validUntil.toISOString(),
+          expirationDate: assertion.validUntil.toISOString(),
+        }),
+        credentialSubject: this.createCredentialSubject(assertion, achievement),
         // Add credential schema for OB3.0 compliance
         credentialSchema: {
           id: OB3_CREDENTIAL_SCHEMA_URL,
@@ -232,47 +343,81 @@ export class CredentialService {
         },
       };
 
-      // Add credential status if assertion is revoked
-      if (assertion.revoked) {
-        // Use a simple statusList ID instead of generating one
-        const statusId = "status-list-1";
-
-        credential.credentialStatus = {
-          id: `${hostUrl}/status/${statusId}#${assertionId}`,
-          type: "StatusList2021Entry",
-          statusPurpose: "revocation",
-          statusListIndex: "0", // Just use 0 for testing
-          statusListCredential: `${hostUrl}/status/${statusId}`,
-        };
+      // Indices are reserved when the assertion is issued
+      const credentialStatus = isStored
+        ? await this.statusListService.getEntries(assertionId)
+        : [];
+      if (credentialStatus.length > 0) {
+        credential.credentialStatus = credentialStatus;
       }
 
-      // Sign the credential
-      const signedCredential = (await this.signCredential(
-        assertion.issuerId,
-        credential,
-      )) as unknown as OpenBadgeCredential;
-
-      return signedCredential;
+      return { issuerId: assertion.issuerId, credential };
     } catch (error) {
       console.error("Error creating credential:", error);
       throw error;
     }
   }
 
+  /**
+   * Build the OB3 AchievementSubject for an assertion's recipient
+   * DID and URL recipients are identified by id, all others through an
+   * IdentityObject so every term is defined by the OB3 context.
+   */
+  private createCredentialSubject(
+    assertion: {
+      recipientIdentity: string;
+      recipientType: string;
+      recipientHashed: boolean;
+      recipientSalt?: string | null;
+    },
+    achievement: OpenBadgeAchievement,
+  ): SignableCredential["credentialSubject"] {
+    if (
+      !assertion.recipientHashed &&
+      (assertion.recipientType === "did" || assertion.recipientType === "url")
+    ) {
+      return {
+        id: assertion.recipientIdentity,
+        type: ["AchievementSubject"],
+        achievement,
+      };
+    }
+
+    return {
+      type: ["AchievementSubject"],
+      identifier: [
+        {
+          type: "IdentityObject",
+          identityHash: assertion.recipientIdentity,
+          identityType:
+            assertion.recipientType === "email" ? "emailAddress" : "identifier",
+          hashed: assertion.recipientHashed,
+          ...(assertion.recipientSalt && { salt: assertion.recipientSalt }),
+        },
+      ],
+      achievement,
+    };
+  }
+
   /**
    * Sign a credential with issuer's private key
+   * Creates a DataIntegrityProof using the eddsa-rdfc-2022 cryptosuite. The
+   * signature is computed by the key store that holds the issuer's active
+   * key (database, file keyring or PKCS#11 token).
    */
   async signCredential<T extends SignableCredential>(
     issuerId: string,
     credential: T,
   ): Promise<T & { proof: CredentialProof }> {
+    const documentToSign = withDataIntegrityContext(credential);
+
     // In test environment, use a test key
     if (
       process.env.NODE_ENV === "test" ||
       process.env.INTEGRATION_TEST === "true"
     ) {
       return {
-        ...credential,
+        ...documentToSign,
         proof: {
           type: "DataIntegrityProof",
           cryptosuite: "eddsa-rdfc-2022",
@@ -289,31 +434,41 @@ export class CredentialService {
       throw new Error("Issuer signing key not found");
     }
 
-    // Prepare the document for signing by creating a copy without the proof
-    const documentToSign = { ...credential };
-
-    // Create a canonical form of the credential for signing
-    const canonicalData = JSON.stringify(documentToSign);
-    const dataToSign = new TextEncoder().encode(canonicalData);
-
-    // Sign the credential
-    const signature = await ed.sign(dataToSign, signingKey.privateKey);
-    const proofValue = base64url.encode(signature);
-
-    // Add the proof to the credential
-    return {
-      ...credential,
-      proof: {
-        type: "DataIntegrityProof",
-        cryptosuite: "eddsa-rdfc-2022",
-        created: new Date().toISOString(),
+    const proof = await createDataIntegrityProof(
+      documentToSign,
+      signingKey.sign,
+      {
         verificationMethod: signingKey.keyInfo.id,
         proofPurpose: "assertionMethod",
-        proofValue,
       },
+    );
+
+    return {
+      ...documentToSign,
+      proof,
     };
   }
 
+  /**
+   * Sign a credential with the issuer's private key as a VC-JWT
+   * @returns The compact JWS
+   */
+  async signCredentialJwt(
+    issuerId: string,
+    credential: SignableCredential,
+  ): Promise<string> {
+    const signingKey = await getSigningKey(issuerId);
+    if (!signingKey) {
+      throw new Error("Issuer signing key not found");
+    }
+
+    return encodeCredentialJwt(
+      credential,
+      signingKey.sign,
+      signingKey.keyInfo.id,
+    );
+  }
+
   /**
    * Verify the signature of a credential
    */
@@ -369,32 +524,30 @@ export class CredentialService {
         return false;
       }
 
-      // Get the issuer's signing key
-      const signingKey = await getSigningKey(issuerId);
-      if (!signingKey || !signingKey.publicKey) {
-        console.error("No signing key found for issuer:", issuerId);
+      // Resolve the exact key the proof was made with
+      const signingKey =
+        await getSigningKeyByVerificationMethod(verificationMethod);
+      if (!signingKey || signingKey.issuerId !== issuerId) {
+        console.error(
+          "Verification method does not belong to issuer:",
+          verificationMethod,
+        );
         return false;
       }
 
-      // Extract signature from proof
-      const proofValue = credential.proof.proofValue;
-      if (!proofValue) {
+      // Reject proofs made outside the key's validity window or after it
+      // was compromised
+      const validity = checkKeyValidity(
+        signingKey,
+        new Date(credential.proof.created),
+      );
+      if (!validity.valid) {
+        console.error("Signing key not valid for proof:", validity.reason);
         return false;
       }
 
-      const signature = base64url.decode(proofValue);
-
-      // Create canonical form for verification without the proof
-      const documentToVerify = { ...credential };
-      if ("proof" in documentToVerify) {
-        delete (documentToVerify as Record<string, unknown>).proof;
-      }
-
-      const canonicalData = JSON.stringify(documentToVerify);
-      const dataToVerify = new TextEncoder().encode(canonicalData);
-
-      // Verify the signature
-      return ed.verify(signature, dataToVerify, signingKey.publicKey);
+      // Verify the eddsa-rdfc-2022 proof over the canonical document
+      return verifyDataIntegrityProof(credential, signingKey.publicKey);
     } catch (error) {
       console.error("Signature verification error:", error);
       return false;
@@ -408,136 +561,244 @@ export class CredentialService {
     hostUrl: string,
     issuerId: string,
   ): Promise<StatusList2021Credential> {
-    // Get the existing status list or create a new one
-    const [existingStatusList] = await db
-      .select()
-      .from(statusLists)
-      .where(eq(statusLists.issuerId, issuerId))
-      .limit(1);
+    const statusList = await this.statusListService.getOrCreateStatusList(
+      hostUrl,
+      issuerId,
+      "revocation",
+    );
+    return statusList.credential;
+  }
 
-    const statusListUrl = `${hostUrl}/status/list/${issuerId}`;
+  /**
+   * Update a credential's revocation status
+   * Flips the assertion's bit in its status list and records the revocation
+   * in one transaction.
+   * @param changedBy ID of the user making the change
+   * @returns The updated assertion, or null if it does not exist
+   */
+  async updateCredentialRevocationStatus(
+    assertionId: string,
+    revoked: boolean,
+    reason?: string,
+    changedBy?: string,
+  ) {
+    return db.transaction(async (tx) => {
+      const [assertion] = await tx
+        .update(badgeAssertions)
+        .set({
+          revoked,
+          revocationReason: reason || null,
+          updatedAt: new Date(),
+        })
+        .where(eq(badgeAssertions.assertionId, assertionId))
+        .returning();
+
+      if (!assertion) {
+        return null;
+      }
 
-    if (existingStatusList) {
-      // Parse the existing status list credential
-      let statusListCredential: StatusList2021Credential;
+      await this.statusListService.setStatus(
+        assertionId,
+        "revocation",
+        revoked,
+        tx,
+      );
+      await this.statusHistoryService.recordChanges(
+        [
+          {
+            assertionId,
+            statusPurpose: "revocation",
+            value: revoked,
+            reason,
+            changedBy,
+          },
+        ],
+        tx,
+      );
+      return assertion;
+    });
+  }
 
-      if (typeof existingStatusList.statusListJson === "string") {
-        statusListCredential = JSON.parse(existingStatusList.statusListJson);
-      } else {
-        statusListCredential =
-          existingStatusList.statusListJson as StatusList2021Credential;
+  /**
+   * Revoke many credentials at once
+   * All assertions are updated in one transaction, and each affected status
+   * list is re-signed once rather than once per assertion.
+   * @param selection IDs of the assertions, or a filter matching them
+   * @param reason Revocation reason recorded on every assertion
+   * @param changedBy ID of the user making the change
+   * @returns One entry per selected assertion
+   * @throws Error if the filter has no criteria
+   * @throws BadRequestError if the filter matches more than
+   * MAX_BATCH_REVOCATION_SIZE assertions
+   */
+  async revokeCredentials(
+    selection: RevocationSelection,
+    reason: string,
+    changedBy?: string,
+  ): Promise<RevocationReportEntry[]> {
+    if (
+      !("assertionIds" in selection) &&
+      !selection.badgeId &&
+      !selection.issuedFrom &&
+      !selection.issuedTo
+    ) {
+      throw new Error("A revocation filter needs at least one criterion");
+    }
+
+    return db.transaction(async (tx) => {
+      const conditions = [
+        eq(badgeAssertions.issuerId, selection.issuerId),
+        ...("assertionIds" in selection
+          ? [inArray(badgeAssertions.assertionId, selection.assertionIds)]
+          : [
+              selection.badgeId
+                ? eq(badgeAssertions.badgeId, selection.badgeId)
+                : undefined,
+              selection.issuedFrom
+                ? gte(badgeAssertions.issuedOn, selection.issuedFrom)
+                : undefined,
+              selection.issuedTo
+                ? lte(badgeAssertions.issuedOn, selection.issuedTo)
+                : undefined,
+            ]),
+      ];
+      // One more than the cap is read to tell whether a filter exceeds it
+      const existing = await tx
+        .select({
+          assertionId: badgeAssertions.assertionId,
+          revoked: badgeAssertions.revoked,
+        })
+        .from(badgeAssertions)
+        .where(and(...conditions))
+        .limit(MAX_BATCH_REVOCATION_SIZE + 1)
+        .for("update");
+      if (existing.length > MAX_BATCH_REVOCATION_SIZE) {
+        throw new BadRequestError(
+          `The filter matches more than ${MAX_BATCH_REVOCATION_SIZE} assertions; narrow it down`,
+        );
       }
 
-      return statusListCredential;
-    } else {
-      // Create a new status list credential
-      const newStatusList = createStatusListCredential(
-        `${hostUrl}/issuers/${issuerId}`,
-        statusListUrl,
+      const toRevoke = existing
+        .filter((assertion) => !assertion.revoked)
+        .map((assertion) => assertion.assertionId);
+      if (toRevoke.length > 0) {
+        await tx
+          .update(badgeAssertions)
+          .set({
+            revoked: true,
+            revocationReason: reason,
+            updatedAt: new Date(),
+          })
+          .where(inArray(badgeAssertions.assertionId, toRevoke));
+      }
+      const updated = await this.statusListService.setStatuses(
+        toRevoke,
         "revocation",
+        true,
+        tx,
+      );
+      await this.statusHistoryService.recordChanges(
+        toRevoke.map((assertionId) => ({
+          assertionId,
+          statusPurpose: "revocation",
+          value: true,
+          reason,
+          changedBy,
+        })),
+        tx,
       );
 
-      // Sign the status list credential
-      // Cast to SignableCredential to ensure type compatibility
-      const signedStatusList = (await this.signCredential(
-        issuerId,
-        newStatusList as unknown as SignableCredential,
-      )) as unknown as StatusList2021Credential;
-
-      // Store in the database
-      await db.insert(statusLists).values({
-        statusListId: crypto.randomUUID(),
-        issuerId,
-        statusListJson: signedStatusList,
-        createdAt: new Date(),
-        updatedAt: new Date(),
+      const found = new Map(
+        existing.map((assertion) => [assertion.assertionId, assertion]),
+      );
+      const requested =
+        "assertionIds" in selection
+          ? [...new Set(selection.assertionIds)]
+          : existing.map((assertion) => assertion.assertionId);
+      return requested.map((assertionId): RevocationReportEntry => {
+        const assertion = found.get(assertionId);
+        return {
+          assertionId,
+          result: !assertion
+            ? "not_found"
+            : assertion.revoked
+              ? "already_revoked"
+              : "revoked",
+          statusListUpdated: updated.has(assertionId),
+        };
       });
-
-      return signedStatusList;
-    }
+    });
   }
 
   /**
-   * Update a credential's revocation status
+   * Suspend or reinstate a credential
+   * Sets the assertion's bit in the issuer's suspension list, reserving an
+   * index first if the assertion has none, and records the change in one
+   * transaction.
+   * @param changedBy ID of the user making the change
+   * @returns The updated assertion, or null if it does not exist
    */
-  async updateCredentialRevocationStatus(
+  async updateCredentialSuspensionStatus(
     hostUrl: string,
     assertionId: string,
-    revoked: boolean,
+    suspended: boolean,
     reason?: string,
-  ): Promise<void> {
-    // Get the assertion
-    const [assertion] = await db
-      .select()
+    changedBy?: string,
+  ) {
+    const [existing] = await db
+      .select({ issuerId: badgeAssertions.issuerId })
       .from(badgeAssertions)
       .where(eq(badgeAssertions.assertionId, assertionId));
-
-    if (!assertion) {
-      throw new Error("Assertion not found");
+    if (!existing) {
+      return null;
     }
 
-    // Get the status list
-    const [statusList] = await db
-      .select()
-      .from(statusLists)
-      .where(eq(statusLists.issuerId, assertion.issuerId))
-      .limit(1);
-
-    let statusListCredential: StatusList2021Credential;
+    // The suspension list is signed with the issuer's key
+    await this.ensureIssuerKeyExists(existing.issuerId);
+
+    return db.transaction(async (tx) => {
+      const [assertion] = await tx
+        .update(badgeAssertions)
+        .set({
+          suspended,
+          suspensionReason: suspended ? reason || null : null,
+          updatedAt: new Date(),
+        })
+        .where(eq(badgeAssertions.assertionId, assertionId))
+        .returning();
+
+      // Deleted since it was looked up
+      if (!assertion) {
+        return null;
+      }
 
-    if (!statusList) {
-      // Create a new status list if none exists
-      statusListCredential = await this.createOrUpdateStatusList(
+      await this.statusListService.allocateEntry(
         hostUrl,
         assertion.issuerId,
+        assertionId,
+        "suspension",
+        tx,
       );
-    } else {
-      // Parse the existing status list
-      if (typeof statusList.statusListJson === "string") {
-        statusListCredential = JSON.parse(statusList.statusListJson);
-      } else {
-        statusListCredential =
-          statusList.statusListJson as StatusList2021Credential;
-      }
-    }
-
-    // Get the encodedList and update it
-    const encodedList = statusListCredential.credentialSubject.encodedList;
-    const index = getIndexFromUuid(assertion.assertionId);
-
-    const updatedEncodedList = updateCredentialStatus(
-      encodedList,
-      index,
-      revoked,
-    );
-
-    // Update the status list
-    statusListCredential.credentialSubject.encodedList = updatedEncodedList;
-
-    // Re-sign the status list
-    const signedStatusList = (await this.signCredential(
-      assertion.issuerId,
-      statusListCredential as unknown as SignableCredential,
-    )) as unknown as StatusList2021Credential;
-
-    // Update in the database
-    await db
-      .update(statusLists)
-      .set({
-        statusListJson: signedStatusList,
-        updatedAt: new Date(),
-      })
-      .where(eq(statusLists.issuerId, assertion.issuerId));
-
-    // Update the assertion
-    await db
-      .update(badgeAssertions)
-      .set({
-        revoked,
-        revocationReason: reason || null,
-        updatedAt: new Date(),
-      })
-      .where(eq(badgeAssertions.assertionId, assertionId));
+      await this.statusListService.setStatus(
+        assertionId,
+        "suspension",
+        suspended,
+        tx,
+      );
+      await this.statusHistoryService.recordChanges(
+        [
+          {
+            assertionId,
+            statusPurpose: "suspension",
+            value: suspended,
+            reason,
+            changedBy,
+          },
+        ],
+        tx,
+      );
+      return assertion;
+    });
   }
 
   /**
@@ -546,45 +807,47 @@ export class CredentialService {
   async checkCredentialRevocationStatus(
     credential: OpenBadgeCredential,
   ): Promise<boolean> {
-    // Check if the credential has a status
-    if (!credential.credentialStatus) {
-      return false; // No status means not revoked
-    }
+    return this.checkCredentialStatus(credential, "revocation");
+  }
 
-    const status = credential.credentialStatus as StatusList2021Entry;
+  /**
+   * Check if a credential is suspended using the status list
+   */
+  async checkCredentialSuspensionStatus(
+    credential: OpenBadgeCredential,
+  ): Promise<boolean> {
+    return this.checkCredentialStatus(credential, "suspension");
+  }
 
-    // Verify this is a status list entry
-    if (status.type !== "StatusList2021Entry") {
-      return false;
+  /**
+   * Check whether a credential's bit is set in its status list of a purpose
+   */
+  private async checkCredentialStatus(
+    credential: OpenBadgeCredential,
+    purpose: StatusPurpose,
+  ): Promise<boolean> {
+    // Check if the credential has a status of this purpose
+    const entries = [credential.credentialStatus ?? []].flat();
+    const status = entries.find(
+      (entry): entry is StatusList2021Entry =>
+        entry.type === "StatusList2021Entry" &&
+        (entry as StatusList2021Entry).statusPurpose === purpose,
+    );
+    if (!status) {
+      return false; // No status means the bit was never set
     }
 
     // Get the status list credential
-    const statusListUrl = status.statusListCredential;
-    const parts = statusListUrl.split("/");
-    const issuerId = parts[parts.length - 1];
-
-    const [statusList] = await db
-      .select()
-      .from(statusLists)
-      .where(eq(statusLists.issuerId, issuerId))
-      .limit(1);
+    const statusList = await this.statusListService.getStatusListByUrl(
+      status.statusListCredential,
+    );
 
     if (!statusList) {
-      return false; // No status list means not revoked
-    }
-
-    // Parse the status list
-    let statusListCredential: StatusList2021Credential;
-
-    if (typeof statusList.statusListJson === "string") {
-      statusListCredential = JSON.parse(statusList.statusListJson);
-    } else {
-      statusListCredential =
-        statusList.statusListJson as StatusList2021Credential;
+      return false; // No status list means no bit was set
     }
 
     // Get the encoded list and check the status
-    const encodedList = statusListCredential.credentialSubject.encodedList;
+    const encodedList = statusList.credential.credentialSubject.encodedList;
     const index = parseInt(status.statusListIndex);
 
     return isCredentialRevoked(encodedList, index);
@@ -0,0 +1,190 @@
+import * as crypto from "crypto";
+import { desc, eq } from "drizzle-orm";
+import { db } from "@/db/config";
+import { media, type Media } from "@/db/schema";
+import type { DbExecutor } from "@/services/status-list.service";
+import { getMediaStorage, type MediaStorage } from "@/utils/media";
+import { getImageLimits, validateImage } from "@/utils/media/image";
+import { assertPublicHost, readLimited } from "@/utils/network";
+import { isValidUuid } from "@/utils/validation";
+
+/**
+ * Fetches an image to import into the media store
+ */
+export type ImageFetcher = (url: string) => Promise<Response>;
+
+const fetchImage: ImageFetcher = async (url) => {
+  await assertPublicHost(new URL(url).hostname);
+  return fetch(url, {
+    headers: { Accept: "image/png, image/svg+xml" },
+    redirect: "error",
+    signal: AbortSignal.timeout(10_000),
+  });
+};
+
+/**
+ * An image and its content
+ */
+export interface StoredImage {
+  media: Media;
+  data: Buffer;
+}
+
+/**
+ * Get the stable URL an image is served at
+ * @param hostUrl Origin of the server, e.g. https://example.com
+ */
+export function getMediaUrl(hostUrl: string, mediaId: string): string {
+  return `${hostUrl}/api/media/${mediaId}`;
+}
+
+/**
+ * Get the ID of the image a media URL points to
+ * @returns The media ID, or null if the URL is not a media URL
+ */
+export function parseMediaUrl(url: string): string | null {
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    return null;
+  }
+
+  const match = pathname.match(/^\/api\/media\/([^/]+)$/);
+  return match && isValidUuid(match[1]) ? match[1] : null;
+}
+
+/**
+ * Stores badge images and reads them back
+ * Images are validated before they are stored, and are kept by the media
+ * store under their content hash.
+ */
+export class MediaService {
+  private storage: MediaStorage;
+  private fetcher: ImageFetcher;
+
+  /**
+   * @param storage Where image content is kept (defaults to MEDIA_STORAGE)
+   * @param fetcher Fetches images imported from other hosts
+   */
+  constructor(
+    storage: MediaStorage = getMediaStorage(),
+    fetcher: ImageFetcher = fetchImage,
+  ) {
+    this.storage = storage;
+    this.fetcher = fetcher;
+  }
+
+  /**
+   * Validate and store an image
+   * SVG images are stored sanitized.
+   * @param data The file content
+   * @param details Who uploaded the image, or where it was imported from
+   * @param executor Database or transaction to record the image in
+   * @throws BadRequestError if the data is not an acceptable image
+   */
+  async store(
+    data: Buffer,
+    details: { uploadedBy?: string | null; sourceUrl?: string } = {},
+    executor: DbExecutor = db,
+  ): Promise<Media> {
+    const image = validateImage(data);
+    const contentHash = crypto
+      .createHash("sha256")
+      .update(image.data)
+      .digest("hex");
+    const storageKey = `${contentHash}.${image.extension}`;
+
+    await this.storage.put(storageKey, image.data);
+
+    const [stored] = await executor
+      .insert(media)
+      .values({
+        contentHash,
+        mimeType: image.mimeType,
+        byteSize: image.data.length,
+        width: image.width,
+        height: image.height,
+        storageKey,
+        sourceUrl: details.sourceUrl ?? null,
+        uploadedBy: details.uploadedBy || null,
+      })
+      .returning();
+    return stored;
+  }
+
+  /**
+   * Get an image's record
+   * @returns The record, or null if there is no such image
+   */
+  async getMedia(mediaId: string): Promise<Media | null> {
+    const [result] = await db
+      .select()
+      .from(media)
+      .where(eq(media.mediaId, mediaId))
+      .limit(1);
+    return result ?? null;
+  }
+
+  /**
+   * Read an image's content from the media store
+   * @throws Error if the media store no longer holds it
+   */
+  async readContent(image: Media): Promise<Buffer> {
+    const data = await this.storage.get(image.storageKey);
+    if (!data) {
+      throw new Error(`Media ${image.mediaId} is missing from the store`);
+    }
+    return data;
+  }
+
+  /**
+   * Load a badge image from the media store
+   * Images on other hosts are imported on first use, so later reads do not
+   * depend on those hosts.
+   * @param imageUrl The imageUrl of a badge class
+   * @throws Error if the image cannot be loaded or imported
+   */
+  async loadImage(imageUrl: string): Promise<StoredImage> {
+    // Media URLs of other servers are imported like any other image
+    const mediaId = parseMediaUrl(imageUrl);
+    const stored =
+      (mediaId && (await this.getMedia(mediaId))) ||
+      (await this.findImport(imageUrl));
+    if (stored) {
+      return { media: stored, data: await this.readContent(stored) };
+    }
+
+    return this.importImage(imageUrl);
+  }
+
+  /**
+   * Find the latest import of an image
+   */
+  private async findImport(sourceUrl: string): Promise<Media | null> {
+    const [result] = await db
+      .select()
+      .from(media)
+      .where(eq(media.sourceUrl, sourceUrl))
+      .orderBy(desc(media.createdAt))
+      .limit(1);
+    return result ?? null;
+  }
+
+  /**
+   * Fetch an image from another host and store it
+   */
+  private async importImage(sourceUrl: string): Promise<StoredImage> {
+    const response = await this.fetcher(sourceUrl);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch ${sourceUrl}: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    // Larger images would be rejected anyway, so stop reading there
+    const data = await readLimited(response, getImageLimits().maxBytes);
+    const stored = await this.store(data, { sourceUrl });
+    return { media: stored, data: await this.readContent(stored) };
+  }
+}
@@ -0,0 +1,98 @@
+import { and, asc, count, eq } from "drizzle-orm";
+import { db } from "@/db/config";
+import {
+  assertionStatusEvents,
+  badgeAssertions,
+  type AssertionStatusEvent,
+  type StatusPurpose,
+} from "@/db/schema";
+import type { DbExecutor } from "@/services/status-list.service";
+
+/**
+ * A change of an assertion's revocation or suspension state
+ */
+export interface StatusChange {
+  assertionId: string;
+  statusPurpose: StatusPurpose;
+  value: boolean;
+  reason?: string | null;
+  changedBy?: string | null;
+}
+
+/**
+ * Records status changes of assertions and reads them back
+ * Events are only ever appended; the database rejects updates and deletes.
+ */
+export class StatusHistoryService {
+  /**
+   * Append status change events
+   * @param changes The changes to record
+   * @param executor Transaction that made the changes
+   */
+  async recordChanges(
+    changes: StatusChange[],
+    executor: DbExecutor = db,
+  ): Promise<void> {
+    if (changes.length === 0) {
+      return;
+    }
+
+    await executor.insert(assertionStatusEvents).values(
+      changes.map((change) => ({
+        assertionId: change.assertionId,
+        statusPurpose: change.statusPurpose,
+        value: change.value,
+        reason: change.reason || null,
+        changedBy: change.changedBy || null,
+      })),
+    );
+  }
+
+  /**
+   * Get the status changes of an assertion, oldest first
+   */
+  async getHistory(assertionId: string): Promise<AssertionStatusEvent[]> {
+    return db
+      .select()
+      .from(assertionStatusEvents)
+      .where(eq(assertionStatusEvents.assertionId, assertionId))
+      .orderBy(
+        asc(assertionStatusEvents.createdAt),
+        asc(assertionStatusEvents.eventId),
+      );
+  }
+
+  /**
+   * Get a page of an issuer's currently revoked assertions
+   * @param issuerId UUID of the issuer
+   * @param page Limit and offset of the page; all assertions when omitted
+   * @returns The assertions on the page and the number of revoked assertions
+   */
+  async listRevokedAssertions(
+    issuerId: string,
+    page?: { limit: number; offset: number },
+  ): Promise<{
+    total: number;
+    assertions: Array<{ assertionId: string; revocationReason: string | null }>;
+  }> {
+    const revoked = and(
+      eq(badgeAssertions.issuerId, issuerId),
+      eq(badgeAssertions.revoked, true),
+    );
+
+    const query = db
+      .select({
+        assertionId: badgeAssertions.assertionId,
+        revocationReason: badgeAssertions.revocationReason,
+      })
+      .from(badgeAssertions)
+      .where(revoked)
+      .orderBy(asc(badgeAssertions.assertionId));
+    const [assertions, [{ total }]] = await Promise.all([
+      page ? query.limit(page.limit).offset(page.offset) : query,
+      db.select({ total: count() }).from(badgeAssertions).where(revoked),
+    ]);
+
+    return { total, assertions };
+  }
+}
@@ -0,0 +1,612 @@
+import * as crypto from "crypto";
+import { and, asc, count, desc, eq, inArray, sql } from "drizzle-orm";
+import { db } from "@/db/config";
+import {
+  statusListIndices,
+  statusLists,
+  type StatusPurpose,
+} from "@/db/schema";
+import {
+  StatusList2021Credential,
+  StatusList2021Entry,
+} from "@/models/credential.model";
+import {
+  createStatusListCredential,
+  decodeBitString,
+  updateCredentialStatus,
+} from "@/utils/signing/status-list";
+import { createLogger } from "@/utils/logger";
+
+const logger = createLogger("StatusListService");
+
+// The database or an open transaction
+export type DbExecutor =
+  | typeof db
+  | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Signs a status list credential with the issuer's key
+ */
+export type StatusListSigner = (
+  issuerId: string,
+  credential: StatusList2021Credential,
+) => Promise<StatusList2021Credential>;
+
+/**
+ * A stored status list and its parsed credential
+ */
+export interface StoredStatusList {
+  statusListId: string;
+  issuerId: string;
+  statusPurpose: StatusPurpose;
+  credential: StatusList2021Credential;
+  updatedAt: Date;
+}
+
+/**
+ * Purposes every issued credential holds an index for
+ */
+export const STATUS_PURPOSES: StatusPurpose[] = ["revocation", "suspension"];
+
+// Random picks before falling back to a scan for the first free index
+const RANDOM_ALLOCATION_ATTEMPTS = 16;
+
+function parseStatusList(
+  row: typeof statusLists.$inferSelect,
+): StoredStatusList {
+  return {
+    statusListId: row.statusListId,
+    issuerId: row.issuerId,
+    statusPurpose: row.statusPurpose as StatusPurpose,
+    credential: (typeof row.statusListJson === "string"
+      ? JSON.parse(row.statusListJson)
+      : row.statusListJson) as StatusList2021Credential,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function toStatusListEntry(
+  credential: StatusList2021Credential,
+  index: number,
+): StatusList2021Entry {
+  return {
+    id: `${credential.id}#${index}`,
+    type: "StatusList2021Entry",
+    statusPurpose: credential.credentialSubject.statusPurpose,
+    statusListIndex: index.toString(),
+    statusListCredential: credential.id,
+  };
+}
+
+/**
+ * Service managing issuers' status lists and the indices assigned in them
+ *
+ * Every assertion reserves its own index in its issuer's revocation list and
+ * in its suspension list when it is issued. Indices are picked at random, so
+ * neighbouring bits do not reveal issuance order, and are unique per list
+ * through the status_list_indices table. When an issuer's newest list of a
+ * purpose is full, a new one is created, so an issuer can hold any number of
+ * lists.
+ */
+export class StatusListService {
+  private readonly sign: StatusListSigner;
+
+  /**
+   * @param sign Signs new and updated status list credentials
+   */
+  constructor(sign: StatusListSigner) {
+    this.sign = sign;
+  }
+
+  /**
+   * URL of one of an issuer's status list credentials
+   */
+  getStatusListUrl(
+    hostUrl: string,
+    issuerId: string,
+    statusListId: string,
+  ): string {
+    return `${hostUrl}/api/status/list/${issuerId}/${statusListId}`;
+  }
+
+  /**
+   * Serialize status list changes of an issuer until the transaction ends
+   */
+  private async lockIssuer(tx: DbExecutor, issuerId: string) {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${issuerId}))`);
+  }
+
+  /**
+   * Get one of an issuer's status lists
+   * @returns The list, or null if the issuer has no such list
+   */
+  async getStatusList(
+    issuerId: string,
+    statusListId: string,
+    executor: DbExecutor = db,
+  ): Promise<StoredStatusList | null> {
+    const [row] = await executor
+      .select()
+      .from(statusLists)
+      .where(
+        and(
+          eq(statusLists.issuerId, issuerId),
+          eq(statusLists.statusListId, statusListId),
+        ),
+      )
+      .limit(1);
+    return row ? parseStatusList(row) : null;
+  }
+
+  /**
+   * Get a status list by its ID
+   * @returns The list, or null if there is no such list
+   */
+  async getStatusListById(
+    statusListId: string,
+    executor: DbExecutor = db,
+  ): Promise<StoredStatusList | null> {
+    const [row] = await executor
+      .select()
+      .from(statusLists)
+      .where(eq(statusLists.statusListId, statusListId))
+      .limit(1);
+    return row ? parseStatusList(row) : null;
+  }
+
+  /**
+   * Get the status list a credentialStatus entry points to
+   * @param url The entry's statusListCredential
+   * @returns The list, or null if it is not stored on this server
+   */
+  async getStatusListByUrl(
+    url: string,
+    executor: DbExecutor = db,
+  ): Promise<StoredStatusList | null> {
+    const [row] = await executor
+      .select()
+      .from(statusLists)
+      .where(sql`${statusLists.statusListJson}->>'id' = ${url}`)
+      .limit(1);
+    return row ? parseStatusList(row) : null;
+  }
+
+  /**
+   * Get the status lists of an issuer for one purpose, oldest first
+   * The first revocation list is the one served at the issuer's unsharded
+   * URL.
+   */
+  async listStatusLists(
+    issuerId: string,
+    purpose: StatusPurpose,
+    executor: DbExecutor = db,
+  ): Promise<StoredStatusList[]> {
+    const rows = await executor
+      .select()
+      .from(statusLists)
+      .where(
+        and(
+          eq(statusLists.issuerId, issuerId),
+          eq(statusLists.statusPurpose, purpose),
+        ),
+      )
+      .orderBy(asc(statusLists.createdAt));
+    return rows.map(parseStatusList);
+  }
+
+  /**
+   * Get the list new indices are allocated from, the issuer's newest
+   */
+  private async findCurrentStatusList(
+    executor: DbExecutor,
+    issuerId: string,
+    purpose: StatusPurpose,
+  ): Promise<StoredStatusList | null> {
+    const [row] = await executor
+      .select()
+      .from(statusLists)
+      .where(
+        and(
+          eq(statusLists.issuerId, issuerId),
+          eq(statusLists.statusPurpose, purpose),
+        ),
+      )
+      .orderBy(desc(statusLists.createdAt))
+      .limit(1);
+    return row ? parseStatusList(row) : null;
+  }
+
+  /**
+   * Create, sign and store a new empty status list for an issuer
+   */
+  private async createStatusList(
+    executor: DbExecutor,
+    hostUrl: string,
+    issuerId: string,
+    purpose: StatusPurpose,
+  ): Promise<StoredStatusList> {
+    const statusListId = crypto.randomUUID();
+    const credential = await this.sign(
+      issuerId,
+      createStatusListCredential(
+        `${hostUrl}/issuers/${issuerId}`,
+        this.getStatusListUrl(hostUrl, issuerId, statusListId),
+        purpose,
+      ) as StatusList2021Credential,
+    );
+
+    const [row] = await executor
+      .insert(statusLists)
+      .values({
+        statusListId,
+        issuerId,
+        statusPurpose: purpose,
+        statusListJson: credential,
+      })
+      .returning();
+    logger.info(
+      `Created ${purpose} list ${statusListId} for issuer ${issuerId}`,
+    );
+    return parseStatusList(row);
+  }
+
+  /**
+   * Get the issuer's current status list, creating and signing it if missing
+   * @param hostUrl Origin used for the list's URL
+   * @param issuerId UUID of the issuer
+   * @param purpose Purpose of the list
+   * @param executor Open transaction; one is started when omitted
+   */
+  async getOrCreateStatusList(
+    hostUrl: string,
+    issuerId: string,
+    purpose: StatusPurpose,
+    executor?: DbExecutor,
+  ): Promise<StoredStatusList> {
+    if (!executor) {
+      return db.transaction((tx) =>
+        this.getOrCreateStatusList(hostUrl, issuerId, purpose, tx),
+      );
+    }
+
+    await this.lockIssuer(executor, issuerId);
+
+    return (
+      (await this.findCurrentStatusList(executor, issuerId, purpose)) ??
+      this.createStatusList(executor, hostUrl, issuerId, purpose)
+    );
+  }
+
+  /**
+   * Get the status list entry assigned to an assertion
+   * @param assertionId UUID of the assertion
+   * @param purpose Purpose of the list the index is in
+   * @returns The entry, or null if no index was reserved
+   */
+  async getEntry(
+    assertionId: string,
+    purpose: StatusPurpose,
+    executor: DbExecutor = db,
+  ): Promise<StatusList2021Entry | null> {
+    const [row] = await executor
+      .select({
+        statusIndex: statusListIndices.statusIndex,
+        statusList: statusLists,
+      })
+      .from(statusListIndices)
+      .innerJoin(
+        statusLists,
+        eq(statusListIndices.statusListId, statusLists.statusListId),
+      )
+      .where(
+        and(
+          eq(statusListIndices.assertionId, assertionId),
+          eq(statusLists.statusPurpose, purpose),
+        ),
+      )
+      .limit(1);
+
+    return row
+      ? toStatusListEntry(
+          parseStatusList(row.statusList).credential,
+          row.statusIndex,
+        )
+      : null;
+  }
+
+  /**
+   * Get the status list entries assigned to an assertion, one per purpose
+   * @returns The entries, empty if no index was reserved
+   */
+  async getEntries(
+    assertionId: string,
+    executor: DbExecutor = db,
+  ): Promise<StatusList2021Entry[]> {
+    const entries: StatusList2021Entry[] = [];
+    for (const purpose of STATUS_PURPOSES) {
+      const entry = await this.getEntry(assertionId, purpose, executor);
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Reserve a unique index for an assertion in its issuer's status list
+   * Returns the existing entry if the assertion already holds one.
+   * @param hostUrl Origin used when the list has to be created
+   * @param issuerId UUID of the issuer
+   * @param assertionId UUID of the assertion
+   * @param purpose Purpose of the list to reserve the index in
+   * @param executor Open transaction; one is started when omitted
+   * @returns The credentialStatus entry for the assertion's credential
+   */
+  async allocateEntry(
+    hostUrl: string,
+    issuerId: string,
+    assertionId: string,
+    purpose: StatusPurpose,
+    executor?: DbExecutor,
+  ): Promise<StatusList2021Entry> {
+    if (!executor) {
+      return db.transaction((tx) =>
+        this.allocateEntry(hostUrl, issuerId, assertionId, purpose, tx),
+      );
+    }
+
+    // Locks the issuer's lists until the transaction ends
+    const current = await this.getOrCreateStatusList(
+      hostUrl,
+      issuerId,
+      purpose,
+      executor,
+    );
+
+    const existing = await this.getEntry(assertionId, purpose, executor);
+    if (existing) {
+      return existing;
+    }
+
+    const index = await this.reserveIndex(executor, current, assertionId);
+    if (index !== null) {
+      return toStatusListEntry(current.credential, index);
+    }
+
+    // The current list is full, continue in a new one
+    logger.info(`Status list ${current.statusListId} is full`);
+    const next = await this.createStatusList(
+      executor,
+      hostUrl,
+      issuerId,
+      purpose,
+    );
+    const nextIndex = await this.reserveIndex(executor, next, assertionId);
+    if (nextIndex === null) {
+      throw new Error(`Could not allocate an index in ${next.statusListId}`);
+    }
+    return toStatusListEntry(next.credential, nextIndex);
+  }
+
+  /**
+   * Reserve an index for an assertion in a list of every purpose
+   * @returns The credentialStatus entries for the assertion's credential
+   */
+  async allocateEntries(
+    hostUrl: string,
+    issuerId: string,
+    assertionId: string,
+    executor?: DbExecutor,
+  ): Promise<StatusList2021Entry[]> {
+    if (!executor) {
+      return db.transaction((tx) =>
+        this.allocateEntries(hostUrl, issuerId, assertionId, tx),
+      );
+    }
+
+    const entries: StatusList2021Entry[] = [];
+    for (const purpose of STATUS_PURPOSES) {
+      entries.push(
+        await this.allocateEntry(
+          hostUrl,
+          issuerId,
+          assertionId,
+          purpose,
+          executor,
+        ),
+      );
+    }
+    return entries;
+  }
+
+  /**
+   * Reserve a free index of a status list for an assertion
+   * @returns The index, or null if the list is full
+   */
+  private async reserveIndex(
+    executor: DbExecutor,
+    statusList: StoredStatusList,
+    assertionId: string,
+  ): Promise<number | null> {
+    // Bits set before indices were tracked are never handed out
+    const bits = decodeBitString(
+      statusList.credential.credentialSubject.encodedList,
+    );
+
+    const [{ used }] = await executor
+      .select({ used: count() })
+      .from(statusListIndices)
+      .where(eq(statusListIndices.statusListId, statusList.statusListId));
+    if (used >= bits.size) {
+      return null;
+    }
+
+    const reserve = async (index: number) => {
+      const inserted = await executor
+        .insert(statusListIndices)
+        .values({
+          assertionId,
+          statusListId: statusList.statusListId,
+          statusIndex: index,
+        })
+        .onConflictDoNothing()
+        .returning({ statusIndex: statusListIndices.statusIndex });
+      return inserted.length > 0;
+    };
+
+    for (let attempt = 0; attempt < RANDOM_ALLOCATION_ATTEMPTS; attempt++) {
+      const index = crypto.randomInt(bits.size);
+      if (!bits.get(index) && (await reserve(index))) {
+        return index;
+      }
+    }
+
+    // The list is nearly full, take the first free index
+    const reserved = new Set(
+      (
+        await executor
+          .select({ statusIndex: statusListIndices.statusIndex })
+          .from(statusListIndices)
+          .where(eq(statusListIndices.statusListId, statusList.statusListId))
+      ).map((row) => row.statusIndex),
+    );
+    for (let index = 0; index < bits.size; index++) {
+      if (!reserved.has(index) && !bits.get(index) && (await reserve(index))) {
+        return index;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Set or clear an assertion's bit and re-sign its status list
+   * Assertions that never received an index have no bit to change.
+   * @param assertionId UUID of the assertion
+   * @param purpose Purpose of the list holding the bit
+   * @param value The new status, true for revoked or suspended
+   * @param executor Open transaction; one is started when omitted
+   * @returns Whether a status list was updated
+   */
+  async setStatus(
+    assertionId: string,
+    purpose: StatusPurpose,
+    value: boolean,
+    executor?: DbExecutor,
+  ): Promise<boolean> {
+    const updated = await this.setStatuses(
+      [assertionId],
+      purpose,
+      value,
+      executor,
+    );
+    return updated.has(assertionId);
+  }
+
+  /**
+   * Set or clear the bits of many assertions
+   * Each affected status list is locked, updated and re-signed once, however
+   * many of its bits change.
+   * @param assertionIds UUIDs of the assertions
+   * @param purpose Purpose of the lists holding the bits
+   * @param value The new status, true for revoked or suspended
+   * @param executor Open transaction; one is started when omitted
+   * @returns IDs of the assertions whose bit was written
+   */
+  async setStatuses(
+    assertionIds: string[],
+    purpose: StatusPurpose,
+    value: boolean,
+    executor?: DbExecutor,
+  ): Promise<Set<string>> {
+    if (assertionIds.length === 0) {
+      return new Set();
+    }
+    if (!executor) {
+      return db.transaction((tx) =>
+        this.setStatuses(assertionIds, purpose, value, tx),
+      );
+    }
+
+    const mappings = await executor
+      .select({
+        assertionId: statusListIndices.assertionId,
+        statusListId: statusListIndices.statusListId,
+        statusIndex: statusListIndices.statusIndex,
+      })
+      .from(statusListIndices)
+      .innerJoin(
+        statusLists,
+        eq(statusListIndices.statusListId, statusLists.statusListId),
+      )
+      .where(
+        and(
+          inArray(statusListIndices.assertionId, assertionIds),
+          eq(statusLists.statusPurpose, purpose),
+        ),
+      );
+
+    const indicesByList = new Map<string, number[]>();
+    for (const mapping of mappings) {
+      const indices = indicesByList.get(mapping.statusListId) ?? [];
+      indices.push(mapping.statusIndex);
+      indicesByList.set(mapping.statusListId, indices);
+    }
+
+    // Lock lists in a fixed order so concurrent batches cannot deadlock
+    for (const statusListId of [...indicesByList.keys()].sort()) {
+      const [row] = await executor
+        .select()
+        .from(statusLists)
+        .where(eq(statusLists.statusListId, statusListId))
+        .for("update");
+      const { issuerId, credential } = parseStatusList(row);
+
+      const { proof: _proof, ...unsigned } = credential;
+      unsigned.credentialSubject = {
+        ...unsigned.credentialSubject,
+        encodedList: updateCredentialStatus(
+          unsigned.credentialSubject.encodedList,
+          indicesByList.get(statusListId) as number[],
+          value,
+        ),
+      };
+
+      const signed = await this.sign(issuerId, unsigned);
+      await executor
+        .update(statusLists)
+        .set({ statusListJson: signed, updatedAt: new Date() })
+        .where(eq(statusLists.statusListId, statusListId));
+    }
+
+    return new Set(mappings.map((mapping) => mapping.assertionId));
+  }
+
+  /**
+   * Re-sign every status list of an issuer with its active key
+   * Run after the issuer's key is rotated or revoked, so no list is left
+   * with a proof from a key verifiers should no longer trust.
+   * @returns The number of lists re-signed
+   */
+  async resignStatusLists(issuerId: string): Promise<number> {
+    return db.transaction(async (tx) => {
+      const rows = await tx
+        .select()
+        .from(statusLists)
+        .where(eq(statusLists.issuerId, issuerId))
+        .for("update");
+
+      const lists = rows.map(parseStatusList);
+      for (const { statusListId, credential } of lists) {
+        const { proof: _proof, ...unsigned } = credential;
+        await tx
+          .update(statusLists)
+          .set({
+            statusListJson: await this.sign(issuerId, unsigned),
+            updatedAt: new Date(),
+          })
+          .where(eq(statusLists.statusListId, statusListId));
+      }
+      return lists.length;
+    });
+  }
+}
@@ -1,16 +1,56 @@
 import { eq } from "drizzle-orm";
 import { db } from "@/db/config";
-import { badgeAssertions } from "@/db/schema";
+import { badgeAssertions, type StatusPurpose } from "@/db/schema";
 import { isValidUuid } from "@/utils/validation";
 import { isOpenBadgeCredential } from "@/models/credential.model";
 import * as jose from "jose";
 import { validateOB3CredentialBasic } from "@/utils/schema-validation";
+import { assertPublicHost, readLimited } from "@/utils/network";
+import {
+  CredentialService,
+  SignableCredential,
+} from "@/services/credential.service";
+import {
+  CredentialProof,
+  DataIntegrityProof,
+  IdentityObject,
+} from "@/models/credential.model";
+import {
+  checkKeyValidity,
+  getSigningKeyByVerificationMethod,
+} from "@/utils/signing/keys";
+import {
+  VC_LD_MEDIA_TYPE,
+  verifyDataIntegrityProof,
+} from "@/utils/signing/data-integrity";
+import {
+  createDidResolver,
+  DidResolutionError,
+  DidResolver,
+} from "@/utils/did/resolver";
+import {
+  DecodedCredentialJwt,
+  decodeCredentialJwt,
+  isCompactJwt,
+  VC_JWT_MEDIA_TYPE,
+  verifyCredentialJwt,
+} from "@/utils/signing/vc-jwt";
+import {
+  decodeBitString,
+  getStatusListEncoding,
+  type StatusListEncoding,
+} from "@/utils/signing/status-list";
+import {
+  recipientIdentityMatches,
+  type RecipientIdentity,
+} from "@/utils/recipient-identity";
 
 export interface VerificationResult {
   valid: boolean;
   checks: {
     signature?: boolean;
     revocation?: boolean;
+    suspension?: boolean;
     expiration?: boolean;
     structure?: boolean;
     statusList?: boolean;
@@ -71,6 +111,94 @@ export function isOB2BadgeAssertion(obj: unknown): obj is OB2BadgeAssertion {
   );
 }
 
+/**
+ * Where a status list credential is loaded from: one of our lists by ID,
+ * or any URL a credentialStatus entry may point to
+ */
+export type StatusListSource = { statusListId: string } | { url: string };
+
+/**
+ * Fetches a status list credential that is not stored on this server
+ */
+export type StatusListFetcher = (url: string) => Promise<Response>;
+
+/**
+ * Status of one index of a verified status list
+ */
+export interface StatusListIndexStatus {
+  index: number;
+  set: boolean;
+  status: "valid" | "revoked" | "suspended";
+}
+
+/**
+ * Result of verifying a status list credential
+ */
+export interface StatusListVerificationResult {
+  valid: boolean;
+  checks: {
+    structure?: boolean;
+    proof?: boolean;
+    validity?: boolean;
+    encoding?: boolean;
+  };
+  errors: string[];
+  warnings: string[];
+  details: {
+    source: "database" | "url";
+    id?: string;
+    issuer?: string;
+    statusPurpose?: string;
+    encoding?: StatusListEncoding;
+    size?: number;
+    proofType?: string;
+    verificationMethod?: string;
+    validFrom?: string;
+    validUntil?: string;
+  };
+  entries: StatusListIndexStatus[];
+}
+
+/**
+ * A credential to check the recipient of: one of our assertions by ID, or an
+ * OB2 assertion, OB3 credential or VC-JWT
+ */
+export type RecipientSource = { assertionId: string } | { credential: unknown };
+
+/**
+ * Result of checking whom a credential was issued to
+ */
+export interface RecipientVerificationResult {
+  matches: boolean;
+  hashed: boolean;
+  identityType?: string;
+  errors: string[];
+}
+
+// Credential types of the status list formats that can be decoded
+const STATUS_LIST_CREDENTIAL_TYPES = [
+  "StatusList2021Credential",
+  "BitstringStatusListCredential",
+];
+
+// Largest status list credential that is read
+const MAX_STATUS_LIST_SIZE = 1024 * 1024;
+
+/**
+ * Fetch a status list from a public host, preferring its Data Integrity form
+ * Redirects are not followed, as they could lead to a host that is not.
+ */
+const fetchStatusList: StatusListFetcher = async (url) => {
+  await assertPublicHost(new URL(url).hostname);
+  return fetch(url, {
+    headers: {
+      Accept: `${VC_LD_MEDIA_TYPE}, ${VC_JWT_MEDIA_TYPE};q=0.9, application/json;q=0.8`,
+    },
+    redirect: "error",
+    signal: AbortSignal.timeout(10_000),
+  });
+};
+
 /**
  * VerificationService
  *
@@ -78,6 +206,90 @@ export function isOB2BadgeAssertion(obj: unknown): obj is OB2BadgeAssertion {
  * Supports both OB2.0 (hosted verification) and OB3.0 (cryptographic verification)
  */
 export class VerificationService {
+  private credentialService: CredentialService;
+  private didResolver: DidResolver;
+  private statusListFetcher: StatusListFetcher;
+
+  /**
+   * @param didResolver Resolves the keys of externally issued credentials
+   * @param statusListFetcher Fetches status lists of other servers
+   */
+  constructor(
+    didResolver: DidResolver = createDidResolver(),
+    statusListFetcher: StatusListFetcher = fetchStatusList,
+  ) {
+    this.credentialService = new CredentialService();
+    this.didResolver = didResolver;
+    this.statusListFetcher = statusListFetcher;
+  }
+
+  /**
+   * Check whether an assertion is suspended
+   * A suspended credential fails verification until it is reinstated, but
+   * unlike revocation this is reported as its own check.
+   */
+  private checkSuspension(
+    assertion: { suspended: boolean; suspensionReason: string | null },
+    result: VerificationResult,
+  ) {
+    result.checks.suspension = !assertion.suspended;
+    if (assertion.suspended) {
+      result.errors.push(
+        assertion.suspensionReason
+          ? `Credential is suspended: ${assertion.suspensionReason}`
+          : "Credential is suspended",
+      );
+    }
+  }
+
+  /**
+   * Check that a credential is within its validity period
+   * Credentials that are not yet valid fail the same check as expired ones.
+   */
+  private checkValidityPeriod(
+    period: {
+      validFrom?: Date | string | null;
+      validUntil?: Date | string | null;
+    },
+    result: VerificationResult,
+  ) {
+    const now = new Date();
+    result.checks.expiration = true;
+
+    if (period.validUntil && new Date(period.validUntil) < now) {
+      result.checks.expiration = false;
+      result.errors.push(
+        `Credential expired on ${new Date(period.validUntil).toISOString()}`,
+      );
+    }
+    if (period.validFrom && new Date(period.validFrom) > now) {
+      result.checks.expiration = false;
+      result.errors.push(
+        `Credential is not valid before ${new Date(period.validFrom).toISOString()}`,
+      );
+    }
+  }
+
+  /**
+   * Validity period of an assertion, falling back to its stored credential
+   */
+  private getValidityPeriod(
+    assertion: { validFrom?: Date | null; validUntil?: Date | null },
+    credential: {
+      validFrom?: string;
+      validUntil?: string;
+      expirationDate?: string;
+    },
+  ) {
+    return {
+      validFrom: assertion.validFrom ?? credential.validFrom,
+      validUntil:
+        assertion.validUntil ??
+        credential.validUntil ??
+        credential.expirationDate,
+    };
+  }
+
   /**
    * Verify an Open Badges 2.0 assertion
    */
@@ -141,7 +353,11 @@ export class VerificationService {
           result.checks.revocation = true;
           result.checks.structure = true;
           result.checks.signature = true;
-          result.valid = true;
+          this.checkSuspension(assertion, result);
+          this.checkValidityPeriod(assertion, result);
+          result.valid =
+            result.checks.suspension !== false &&
+            result.checks.expiration !== false;
           return result;
         }
       }
@@ -160,6 +376,12 @@ export class VerificationService {
         result.checks.revocation = true;
       }
 
+      // Check if the assertion is suspended
+      this.checkSuspension(assertion, result);
+
+      // Check the award's validity period
+      this.checkValidityPeriod(assertion, result);
+
       // Validate the structure using JSON-LD schema
       const isValidStructure = isOB2BadgeAssertion(assertionJson);
       if (!isValidStructure) {
@@ -171,9 +393,14 @@ export class VerificationService {
 
       // Criterion for a valid OB2.0 assertion:
       // 1. It is not revoked
-      // 2. It has a valid structure
+      // 2. It is not suspended
+      // 3. It is within its validity period
+      // 4. It has a valid structure
       result.valid =
-        result.checks.revocation !== false && result.checks.structure === true;
+        result.checks.revocation !== false &&
+        result.checks.suspension !== false &&
+        result.checks.expiration !== false &&
+        result.checks.structure === true;
     } catch (error) {
       result.errors.push(
         `Verification error: ${
@@ -273,7 +500,14 @@ export class VerificationService {
             result.checks.signature = true;
             result.checks.structure = true;
             result.checks.revocation = true;
-            result.valid = true;
+            this.checkSuspension(assertion, result);
+            this.checkValidityPeriod(
+              this.getValidityPeriod(assertion, credential),
+              result,
+            );
+            result.valid =
+              result.checks.suspension !== false &&
+              result.checks.expiration !== false;
             return result;
           }
         }
@@ -282,7 +516,11 @@ export class VerificationService {
         if (isOB2BadgeAssertion(credential)) {
           result.checks.structure = true;
           result.checks.revocation = true;
-          result.valid = true;
+          this.checkSuspension(assertion, result);
+          this.checkValidityPeriod(assertion, result);
+          result.valid =
+            result.checks.suspension !== false &&
+            result.checks.expiration !== false;
           return result;
         }
       }
@@ -303,6 +541,9 @@ export class VerificationService {
         result.checks.revocation = true;
       }
 
+      // Check for suspension
+      this.checkSuspension(assertion, result);
+
       // Validate the structure using the OB3 schema
       const validationResult = validateOB3CredentialBasic(credential);
       if (!validationResult.valid) {
@@ -319,21 +560,32 @@ export class VerificationService {
         result.checks.structure = true;
       }
 
-      // Check for expiration
-      if (credential.expirationDate) {
-        const expirationDate = new Date(credential.expirationDate as string);
-        const now = new Date();
-        if (expirationDate < now) {
-          result.checks.expiration = false;
-          result.errors.push(
-            `Credential expired on ${expirationDate.toISOString()}`,
-          );
-        }
-      }
+      // Check the validity period
+      this.checkValidityPeriod(
+        this.getValidityPeriod(assertion, credential),
+        result,
+      );
 
-      // Verify proof signature (for real credentials, not in test mode)
+      // Verify the Data Integrity proof over the canonicalized credential
       if (credential.proof) {
-        // ... rest of the proof verification code ...
+        const proof = credential.proof as DataIntegrityProof;
+        result.details = {
+          ...result.details,
+          verificationMethod: proof.verificationMethod,
+          proofType: proof.type,
+          cryptosuite: proof.cryptosuite,
+        };
+
+        result.checks.signature = await this.credentialService.verifySignature(
+          credential as unknown as SignableCredential & {
+            proof: CredentialProof;
+          },
+        );
+        if (!result.checks.signature) {
+          result.errors.push("Invalid credential signature");
+        }
+      } else {
+        result.errors.push("Credential has no proof");
       }
 
       // Determine if the credential is valid overall
@@ -455,6 +707,666 @@ export class VerificationService {
     }
   }
 
+  /**
+   * Verify an Open Badges 3.0 credential secured as a VC-JWT
+   * @param jwt The compact JWS
+   */
+  async verifyJwtCredential(jwt: string): Promise<VerificationResult> {
+    const result: VerificationResult = {
+      valid: false,
+      checks: {
+        signature: false,
+        revocation: false,
+        structure: false,
+        expiration: true, // Default to true, set to false if expired
+      },
+      errors: [],
+    };
+
+    try {
+      let decoded: DecodedCredentialJwt;
+      try {
+        decoded = decodeCredentialJwt(jwt);
+      } catch {
+        result.errors.push("Invalid JWT credential");
+        return result;
+      }
+
+      const { header, payload, credential } = decoded;
+      result.details = {
+        credentialId: credential.id,
+        verificationMethod: header.kid,
+        proofType: "JWT",
+      };
+
+      // Validate the structure of the embedded credential
+      if (!isOpenBadgeCredential(credential)) {
+        result.errors.push("Not an OB3.0 credential - invalid format");
+        return result;
+      }
+      const validationResult = validateOB3CredentialBasic(credential);
+      result.checks.structure = validationResult.valid;
+      validationResult.errors?.forEach((error) => {
+        result.errors.push(`Schema validation error: ${error}`);
+      });
+
+      // Resolve the issuer's key from the issuer URL
+      const issuerUrl =
+        typeof credential.issuer === "string"
+          ? credential.issuer
+          : credential.issuer.id;
+      const issuerId = issuerUrl.match(/\/issuers\/([a-f0-9-]+)/i)?.[1];
+      if (!issuerId || !isValidUuid(issuerId)) {
+        result.errors.push("Could not extract issuer ID from credential");
+        return result;
+      }
+      result.details.issuerId = issuerId;
+
+      // Resolve the exact key named by the kid header
+      const signingKey = header.kid
+        ? await getSigningKeyByVerificationMethod(header.kid)
+        : null;
+      if (!signingKey || signingKey.issuerId !== issuerId) {
+        result.checks.signature = false;
+        result.errors.push("No signing key found for issuer");
+        return result;
+      }
+
+      result.checks.signature = await verifyCredentialJwt(
+        jwt,
+        signingKey.publicKey,
+      );
+      if (!result.checks.signature) {
+        result.errors.push("Invalid JWT signature");
+      } else {
+        const signedAt = payload.iat ?? payload.nbf;
+        const validity = checkKeyValidity(
+          signingKey,
+          new Date(signedAt !== undefined ? signedAt * 1000 : NaN),
+        );
+        if (!validity.valid) {
+          result.checks.signature = false;
+          result.errors.push(validity.reason as string);
+        }
+      }
+
+      // Check the validity period
+      this.checkValidityPeriod(
+        {
+          validFrom: credential.validFrom,
+          validUntil:
+            payload.exp !== undefined
+              ? new Date(payload.exp * 1000)
+              : undefined,
+        },
+        result,
+      );
+
+      // Check for revocation of the assertion the credential was issued for
+      const assertionId = credential.id.split("/").pop();
+      if (assertionId && isValidUuid(assertionId)) {
+        const [assertion] = await db
+          .select()
+          .from(badgeAssertions)
+          .where(eq(badgeAssertions.assertionId, assertionId));
+
+        if (!assertion) {
+          result.errors.push("Assertion not found");
+        } else if (assertion.revoked) {
+          result.errors.push(
+            assertion.revocationReason
+              ? `Credential has been revoked: ${assertion.revocationReason}`
+              : "Credential has been revoked",
+          );
+        } else {
+          result.checks.revocation = true;
+        }
+        if (assertion) {
+          this.checkSuspension(assertion, result);
+        }
+      } else {
+        result.errors.push("Invalid assertion ID format");
+      }
+
+      result.valid = Object.values(result.checks).every(
+        (check) => check !== false,
+      );
+    } catch (error) {
+      result.errors.push(
+        `Verification error: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Check whether a credential was signed by another platform
+   * Credentials whose verification method is one of our issuers' keys are
+   * verified against the stored assertion instead.
+   * @param credential The credential as submitted
+   */
+  async isExternalCredential(credential: unknown): Promise<boolean> {
+    const proof = (credential as { proof?: { verificationMethod?: unknown } })
+      ?.proof;
+    if (typeof proof?.verificationMethod !== "string") {
+      return false;
+    }
+    const localKey = await getSigningKeyByVerificationMethod(
+      proof.verificationMethod,
+    );
+    return localKey === null;
+  }
+
+  /**
+   * Verify an Open Badges 3.0 credential issued by another platform
+   * The key is resolved from the DID in the proof's verificationMethod,
+   * which must be controlled by the credential's issuer.
+   * @param credential The credential including its Data Integrity proof
+   */
+  async verifyExternalCredential(
+    credential: unknown,
+  ): Promise<VerificationResult> {
+    const result: VerificationResult = {
+      valid: false,
+      checks: {
+        signature: false,
+        structure: false,
+        expiration: true, // Default to true, set to false if expired
+      },
+      errors: [],
+      warnings: [],
+    };
+
+    try {
+      if (!isOpenBadgeCredential(credential)) {
+        result.errors.push("Not an OB3.0 credential - invalid format");
+        return result;
+      }
+
+      const validationResult = validateOB3CredentialBasic(credential);
+      result.checks.structure = validationResult.valid;
+      validationResult.errors?.forEach((error) => {
+        result.errors.push(`Schema validation error: ${error}`);
+      });
+
+      const issuerId =
+        typeof credential.issuer === "string"
+          ? credential.issuer
+          : credential.issuer.id;
+      const proof = credential.proof as DataIntegrityProof | undefined;
+      result.details = {
+        credentialId: credential.id,
+        issuerId,
+        verificationMethod: proof?.verificationMethod,
+        proofType: proof?.type,
+        cryptosuite: proof?.cryptosuite,
+      };
+
+      if (!proof?.verificationMethod) {
+        result.errors.push("Credential has no proof");
+        return result;
+      }
+
+      // The issuer must control the key: its DID is the verification
+      // method's DID
+      if (proof.verificationMethod.split("#")[0] !== issuerId) {
+        result.errors.push(
+          "Verification method is not controlled by the credential issuer",
+        );
+        return result;
+      }
+
+      try {
+        const method = await this.didResolver.resolveAssertionMethod(
+          proof.verificationMethod,
+        );
+        result.checks.signature = await verifyDataIntegrityProof(
+          credential as unknown as Record<string, unknown>,
+          method.publicKey,
+        );
+        if (!result.checks.signature) {
+          result.errors.push("Invalid credential signature");
+        }
+      } catch (error) {
+        if (!(error instanceof DidResolutionError)) throw error;
+        result.errors.push(
+          `Could not resolve verification method: ${error.message}`,
+        );
+      }
+
+      // Check the validity period
+      this.checkValidityPeriod(this.getValidityPeriod({}, credential), result);
+
+      if (credential.credentialStatus) {
+        result.warnings?.push(
+          "Revocation and suspension status of externally issued credentials is not checked",
+        );
+      }
+
+      result.valid = Object.values(result.checks).every(
+        (check) => check !== false,
+      );
+    } catch (error) {
+      result.errors.push(
+        `Verification error: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Verify a status list credential and read individual indices
+   * Checks the list's structure, its proof against the issuer's key, its
+   * validity period and its bitstring, so the status of a credential can be
+   * confirmed independently of the status endpoints.
+   * @param source The list's ID on this server, or its URL
+   * @param indices Indices to report the status of
+   * @returns The result, or null if no list with the given ID exists
+   */
+  async verifyStatusList(
+    source: StatusListSource,
+    indices: number[] = [],
+  ): Promise<StatusListVerificationResult | null> {
+    const result: StatusListVerificationResult = {
+      valid: false,
+      checks: {
+        structure: false,
+        proof: false,
+        validity: false,
+        encoding: false,
+      },
+      errors: [],
+      warnings: [],
+      details: { source: "database" },
+      entries: [],
+    };
+
+    try {
+      // Lists stored on this server are read from the database
+      const { statusListService } = this.credentialService;
+      const stored =
+        "statusListId" in source
+          ? await statusListService.getStatusListById(source.statusListId)
+          : await statusListService.getStatusListByUrl(source.url);
+      if (!stored && "statusListId" in source) {
+        return null;
+      }
+
+      let credential: unknown = stored?.credential;
+      let jwt: string | undefined;
+      if (!stored && "url" in source) {
+        result.details.source = "url";
+        const fetched = await this.fetchStatusList(source.url, result);
+        if (!fetched) {
+          return result;
+        }
+        ({ credential, jwt } = fetched);
+      }
+
+      // Check the structure
+      const statusList = credential as {
+        id?: string;
+        type?: string[];
+        issuer?: string | { id: string };
+        issuanceDate?: string;
+        expirationDate?: string;
+        validFrom?: string;
+        validUntil?: string;
+        credentialSubject?: { statusPurpose?: string; encodedList?: string };
+        proof?: DataIntegrityProof;
+      };
+      const subject = statusList?.credentialSubject;
+      const issuer =
+        typeof statusList?.issuer === "string"
+          ? statusList.issuer
+          : statusList?.issuer?.id;
+      result.checks.structure =
+        Array.isArray(statusList?.type) &&
+        statusList.type.some((type) =>
+          STATUS_LIST_CREDENTIAL_TYPES.includes(type),
+        ) &&
+        typeof issuer === "string" &&
+        typeof subject?.encodedList === "string" &&
+        (subject.statusPurpose === "revocation" ||
+          subject.statusPurpose === "suspension");
+      if (!result.checks.structure) {
+        result.errors.push("Not a status list credential");
+        return result;
+      }
+
+      const statusPurpose = subject?.statusPurpose as StatusPurpose;
+      const validFrom = statusList.validFrom ?? statusList.issuanceDate;
+      const validUntil = statusList.validUntil ?? statusList.expirationDate;
+      result.details = {
+        ...result.details,
+        id: statusList.id,
+        issuer,
+        statusPurpose,
+        validFrom,
+        validUntil,
+      };
+
+      // Check the proof against the issuer's key
+      result.checks.proof = await this.verifyStatusListProof(
+        statusList as Record<string, unknown>,
+        issuer as string,
+        jwt,
+        result,
+      );
+      if (!result.checks.proof) {
+        result.errors.push("Invalid status list proof");
+      }
+
+      // Check the validity period
+      const now = new Date();
+      result.checks.validity = true;
+      if (validFrom && !(new Date(validFrom) <= now)) {
+        result.checks.validity = false;
+        result.errors.push(`Status list is not valid before ${validFrom}`);
+      }
+      if (validUntil && !(new Date(validUntil) >= now)) {
+        result.checks.validity = false;
+        result.errors.push(`Status list expired on ${validUntil}`);
+      }
+
+      // Decode the bitstring and read the requested indices
+      const encodedList = subject?.encodedList as string;
+      try {
+        const bits = decodeBitString(encodedList);
+        result.checks.encoding = true;
+        result.details.encoding = getStatusListEncoding(encodedList);
+        result.details.size = bits.size;
+
+        for (const index of indices) {
+          if (index >= bits.size) {
+            result.warnings.push(
+              `Index ${index} is outside the list of ${bits.size} entries`,
+            );
+            continue;
+          }
+          const set = bits.get(index);
+          result.entries.push({
+            index,
+            set,
+            status: !set
+              ? "valid"
+              : statusPurpose === "revocation"
+                ? "revoked"
+                : "suspended",
+          });
+        }
+      } catch (error) {
+        result.errors.push(
+          `Status list bitstring cannot be decoded: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+        );
+      }
+
+      result.valid = Object.values(result.checks).every(
+        (check) => check !== false,
+      );
+    } catch (error) {
+      result.errors.push(
+        `Verification error: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch a status list credential from another server
+   * @returns The credential and, if it was served as one, its VC-JWT
+   */
+  private async fetchStatusList(
+    url: string,
+    result: StatusListVerificationResult,
+  ): Promise<{ credential: unknown; jwt?: string } | null> {
+    if (!url.startsWith("https://")) {
+      result.errors.push("Status list URL must use HTTPS");
+      return null;
+    }
+
+    let response: Response;
+    try {
+      response = await this.statusListFetcher(url);
+    } catch {
+      result.errors.push(`Could not fetch status list from ${url}`);
+      return null;
+    }
+    if (!response.ok) {
+      result.errors.push(
+        `Could not fetch status list from ${url}: HTTP ${response.status}`,
+      );
+      return null;
+    }
+
+    let body: string;
+    try {
+      body = (await readLimited(response, MAX_STATUS_LIST_SIZE))
+        .toString("utf8")
+        .trim();
+    } catch (error) {
+      result.errors.push(
+        `Could not read status list from ${url}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+
+    try {
+      if (isCompactJwt(body)) {
+        return { credential: decodeCredentialJwt(body).credential, jwt: body };
+      }
+      return { credential: JSON.parse(body) };
+    } catch {
+      result.errors.push("Status list is neither JSON nor a VC-JWT");
+      return null;
+    }
+  }
+
+  /**
+   * Verify the proof of a status list credential
+   * Keys of our issuers are looked up locally; other keys are resolved
+   * through the DID of the verification method, which must be the issuer.
+   * @param jwt The VC-JWT the list was served as, if any
+   */
+  private async verifyStatusListProof(
+    statusList: Record<string, unknown>,
+    issuer: string,
+    jwt: string | undefined,
+    result: StatusListVerificationResult,
+  ): Promise<boolean> {
+    const proof = statusList.proof as DataIntegrityProof | undefined;
+    const verificationMethod = jwt
+      ? decodeCredentialJwt(jwt).header.kid
+      : proof?.verificationMethod;
+    result.details.proofType = jwt ? "JWT" : proof?.type;
+    result.details.verificationMethod = verificationMethod;
+    if (!verificationMethod) {
+      result.errors.push("Status list has no proof");
+      return false;
+    }
+
+    const localKey =
+      await getSigningKeyByVerificationMethod(verificationMethod);
+    if (localKey) {
+      if (!jwt) {
+        return this.credentialService.verifySignature(
+          statusList as unknown as SignableCredential & {
+            proof: CredentialProof;
+          },
+        );
+      }
+
+      const issuerId = issuer.match(/\/issuers\/([a-f0-9-]+)/i)?.[1];
+      if (issuerId !== localKey.issuerId) {
+        result.errors.push("Signing key does not belong to the issuer");
+        return false;
+      }
+      if (!(await verifyCredentialJwt(jwt, localKey.publicKey))) {
+        return false;
+      }
+      const { payload } = decodeCredentialJwt(jwt);
+      const signedAt = payload.iat ?? payload.nbf;
+      const validity = checkKeyValidity(
+        localKey,
+        new Date(signedAt !== undefined ? signedAt * 1000 : NaN),
+      );
+      if (!validity.valid) {
+        result.errors.push(validity.reason as string);
+      }
+      return validity.valid;
+    }
+
+    if (verificationMethod.split("#")[0] !== issuer) {
+      result.errors.push(
+        "Verification method is not controlled by the status list issuer",
+      );
+      return false;
+    }
+
+    try {
+      const method =
+        await this.didResolver.resolveAssertionMethod(verificationMethod);
+      return jwt
+        ? verifyCredentialJwt(jwt, method.publicKey)
+        : verifyDataIntegrityProof(statusList, method.publicKey);
+    } catch (error) {
+      if (!(error instanceof DidResolutionError)) throw error;
+      result.errors.push(
+        `Could not resolve verification method: ${error.message}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Check whether a credential was issued to an identity, e.g. an email
+   * address, without revealing the identity of a hashed recipient
+   * Only the recipient is checked; verifyAssertion and verifyBadgeJson check
+   * that the credential itself is authentic.
+   * @param source The assertion's ID on this server, or the credential
+   * @param identity The plaintext identity to check
+   * @returns The result, or null if no assertion with the given ID exists
+   */
+  async verifyRecipient(
+    source: RecipientSource,
+    identity: string,
+  ): Promise<RecipientVerificationResult | null> {
+    const result: RecipientVerificationResult = {
+      matches: false,
+      hashed: false,
+      errors: [],
+    };
+
+    let recipients: RecipientIdentity[];
+    if ("assertionId" in source) {
+      if (!isValidUuid(source.assertionId)) {
+        return null;
+      }
+      const [assertion] = await db
+        .select()
+        .from(badgeAssertions)
+        .where(eq(badgeAssertions.assertionId, source.assertionId))
+        .limit(1);
+      if (!assertion) {
+        return null;
+      }
+      recipients = [
+        {
+          type: assertion.recipientType,
+          identity: assertion.recipientIdentity,
+          hashed: assertion.recipientHashed,
+          salt: assertion.recipientSalt,
+        },
+      ];
+    } else {
+      recipients = this.getRecipients(source.credential);
+    }
+
+    if (recipients.length === 0) {
+      result.errors.push("Credential does not identify its recipient");
+      return result;
+    }
+
+    const match = recipients.find((recipient) =>
+      recipientIdentityMatches(recipient, identity),
+    );
+    const recipient = match ?? recipients[0];
+    result.matches = match !== undefined;
+    result.hashed = recipient.hashed;
+    result.identityType = recipient.type;
+    return result;
+  }
+
+  /**
+   * Read the recipient identities of an OB2 assertion or OB3 credential
+   * OB3 subjects are identified by their id or by IdentityObjects.
+   */
+  private getRecipients(credential: unknown): RecipientIdentity[] {
+    let document = credential;
+    if (isCompactJwt(credential)) {
+      try {
+        document = decodeCredentialJwt(credential).credential;
+      } catch {
+        return [];
+      }
+    }
+    if (!document || typeof document !== "object") {
+      return [];
+    }
+
+    const { recipient, credentialSubject } = document as {
+      recipient?: Partial<OB2BadgeAssertion["recipient"]>;
+      credentialSubject?: {
+        id?: unknown;
+        identifier?: Partial<IdentityObject>[];
+      };
+    };
+
+    if (recipient && typeof recipient.identity === "string") {
+      return [
+        {
+          type: recipient.type ?? "email",
+          identity: recipient.identity,
+          hashed: recipient.hashed === true,
+          salt: recipient.salt,
+        },
+      ];
+    }
+
+    const recipients: RecipientIdentity[] = [];
+    if (typeof credentialSubject?.id === "string") {
+      recipients.push({
+        type: "id",
+        identity: credentialSubject.id,
+        hashed: false,
+      });
+    }
+    for (const identifier of Array.isArray(credentialSubject?.identifier)
+      ? credentialSubject.identifier
+      : []) {
+      if (typeof identifier?.identityHash === "string") {
+        recipients.push({
+          type: identifier.identityType ?? "identifier",
+          identity: identifier.identityHash,
+          hashed: identifier.hashed === true,
+          salt: identifier.salt,
+        });
+      }
+    }
+    return recipients;
+  }
+
   async verifyTokenSignature(
     token: string,
     key: jose.KeyLike,
@@ -0,0 +1,58 @@
+declare module "jsonld" {
+  /**
+   * A document returned by a JSON-LD document loader
+   */
+  export interface RemoteDocument {
+    contextUrl: string | null;
+    documentUrl: string;
+    document: unknown;
+  }
+
+  /**
+   * Resolves a URL (usually a context URL) to a JSON-LD document
+   */
+  export type DocumentLoader = (
+    url: string,
+    options?: unknown,
+  ) => Promise<RemoteDocument>;
+
+  /**
+   * Options accepted by the JSON-LD processing functions we use
+   */
+  export interface ProcessingOptions {
+    algorithm?: "URDNA2015" | "RDFC-1.0";
+    format?: "application/n-quads";
+    documentLoader?: DocumentLoader;
+    safe?: boolean;
+    base?: string | null;
+  }
+
+  /**
+   * Canonicalize a JSON-LD document into normalized N-Quads
+   * @param input JSON-LD document to canonicalize
+   * @param options Processing options
+   * @returns The canonical N-Quads string
+   */
+  export function canonize(
+    input: unknown,
+    options?: ProcessingOptions,
+  ): Promise<string>;
+
+  /**
+   * Expand a JSON-LD document
+   * @param input JSON-LD document to expand
+   * @param options Processing options
+   * @returns The expanded document
+   */
+  export function expand(
+    input: unknown,
+    options?: ProcessingOptions,
+  ): Promise<unknown[]>;
+
+  const jsonld: {
+    canonize: typeof canonize;
+    expand: typeof expand;
+  };
+
+  export default jsonld;
+}
@@ -52,6 +52,40 @@ export class BitSet {
     return (this.bits[arrayIndex] & (1 << bitPosition)) !== 0;
   }
 
+  /**
+   * Number of bits the set can hold
+   */
+  get size(): number {
+    return this.bits.length * 32;
+  }
+
+  /**
+   * Pack the bits into bytes, bit 0 being the most significant bit of the
+   * first byte as status lists require
+   */
+  toBytes(): Uint8Array {
+    const bytes = new Uint8Array(Math.ceil(this.size / 8));
+    for (let idx = 0; idx < this.size; idx++) {
+      if (this.get(idx)) {
+        bytes[idx >> 3] |= 0x80 >> (idx & 7);
+      }
+    }
+    return bytes;
+  }
+
+  /**
+   * Unpack bytes produced by toBytes()
+   */
+  static fromBytes(bytes: Uint8Array): BitSet {
+    const bitSet = new BitSet(bytes.length * 8);
+    for (let idx = 0; idx < bytes.length * 8; idx++) {
+      if (bytes[idx >> 3] & (0x80 >> (idx & 7))) {
+        bitSet.set(idx);
+      }
+    }
+    return bitSet;
+  }
+
   toString(): string {
     let result = "";
 
@@ -0,0 +1,96 @@
+/**
+ * DID documents for did:web subjects hosted by this server
+ * Based on DID Core v1.0
+ */
+import * as jose from "jose";
+import {
+  DID_CONTEXT_URL,
+  JWK_CONTEXT_URL,
+  MULTIKEY_CONTEXT_URL,
+} from "@/constants/context-urls";
+import { encodeMultikey, type SigningKeyRecord } from "@/utils/signing/keys";
+
+/**
+ * Media type of a DID document with a JSON-LD context
+ */
+export const DID_DOCUMENT_MEDIA_TYPE = "application/did+ld+json";
+
+/**
+ * A verification method of a DID document
+ */
+export interface DidVerificationMethod {
+  id: string;
+  /** Multikey or JsonWebKey here; resolved documents may use other types */
+  type: string;
+  controller: string;
+  publicKeyMultibase?: string;
+  publicKeyJwk?: jose.JWK;
+}
+
+/**
+ * A DID document describing the keys of a did:web subject
+ */
+export interface DidDocument {
+  "@context": string[];
+  id: string;
+  alsoKnownAs?: string[];
+  verificationMethod: DidVerificationMethod[];
+  assertionMethod: string[];
+}
+
+/**
+ * Build the DID document of a did:web subject from its signing keys
+ * Every usable key is published twice, as a Multikey and as a JsonWebKey
+ * verification method. Compromised keys are left out so that nothing they
+ * signed verifies against the document; retired keys stay listed so that
+ * credentials they signed remain verifiable.
+ * @param did The DID the document describes
+ * @param keys The subject's signing keys, newest first
+ * @param alsoKnownAs Other identifiers of the subject
+ * @returns The DID document
+ */
+export async function buildDidDocument(
+  did: string,
+  keys: SigningKeyRecord[],
+  alsoKnownAs: string[] = [],
+): Promise<DidDocument> {
+  const usableKeys = [
+    ...keys.filter((key) => key.status === "active"),
+    ...keys.filter((key) => key.status === "retired"),
+  ];
+
+  const verificationMethod: DidVerificationMethod[] = [];
+  for (const key of usableKeys) {
+    // Reuse the did:key fragment so both DIDs name the key the same way
+    const fragment =
+      key.keyInfo.id.split("#")[1] ?? encodeMultikey(key.publicKey);
+    const publicKeyJwk = key.keyInfo.publicKeyJwk as jose.JWK;
+
+    verificationMethod.push(
+      {
+        id: `${did}#${fragment}`,
+        type: "Multikey",
+        controller: did,
+        publicKeyMultibase: encodeMultikey(key.publicKey),
+      },
+      {
+        id: `${did}#${await jose.calculateJwkThumbprint(publicKeyJwk)}`,
+        type: "JsonWebKey",
+        controller: did,
+        publicKeyJwk: {
+          kty: publicKeyJwk.kty,
+          crv: publicKeyJwk.crv,
+          x: publicKeyJwk.x,
+        },
+      },
+    );
+  }
+
+  return {
+    "@context": [DID_CONTEXT_URL, MULTIKEY_CONTEXT_URL, JWK_CONTEXT_URL],
+    id: did,
+    ...(alsoKnownAs.length > 0 && { alsoKnownAs }),
+    verificationMethod,
+    assertionMethod: verificationMethod.map((method) => method.id),
+  };
+}
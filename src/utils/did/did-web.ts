@@ -0,0 +1,47 @@
+/**
+ * did:web identifiers for issuers hosted by this server
+ * Based on the did:web method specification
+ *
+ * An issuer is identified as did:web:<host>:issuers:<issuerId>, which
+ * resolves to https://<host>/issuers/<issuerId>/did.json. The host itself is
+ * did:web:<host>, resolving to https://<host>/.well-known/did.json.
+ */
+
+/**
+ * did:web identifier of a host
+ * A port is part of the identifier and is percent-encoded as the method
+ * requires.
+ * @param hostUrl Origin of the server, e.g. https://badges.example.com
+ */
+export function getHostDid(hostUrl: string): string {
+  return `did:web:${encodeURIComponent(new URL(hostUrl).host)}`;
+}
+
+/**
+ * did:web identifier of an issuer hosted by this server
+ * @param hostUrl Origin of the server
+ * @param issuerId UUID of the issuer
+ */
+export function getIssuerDid(hostUrl: string, issuerId: string): string {
+  return `${getHostDid(hostUrl)}:issuers:${issuerId}`;
+}
+
+/**
+ * URL of the DID document a did:web identifier resolves to
+ * @param did A did:web identifier, e.g. did:web:example.com:issuers:1
+ * @returns e.g. https://example.com/issuers/1/did.json
+ * @throws Error if the identifier is not a valid did:web
+ */
+export function didWebToUrl(did: string): string {
+  const [scheme, method, host, ...path] = did.split(":");
+  if (scheme !== "did" || method !== "web" || !host) {
+    throw new Error(`Not a did:web identifier: ${did}`);
+  }
+
+  const url = new URL(`https://${decodeURIComponent(host)}`);
+  url.pathname =
+    path.length > 0
+      ? `/${path.map(decodeURIComponent).join("/")}/did.json`
+      : "/.well-known/did.json";
+  return url.toString();
+}
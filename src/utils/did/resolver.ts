@@ -0,0 +1,350 @@
+/**
+ * DID resolution for verifying credentials issued by other platforms
+ *
+ * Resolves the DID of a proof's verificationMethod to its DID document and
+ * extracts the Ed25519 public key the proof must verify against. did:key and
+ * did:jwk are resolved locally; did:web is fetched over HTTPS through an
+ * injectable fetcher. Further methods can be added with register().
+ */
+import { decodeMultibase } from "@/utils/signing/key-generation";
+import { DID_CONTEXT_URL, JWK_CONTEXT_URL } from "@/constants/context-urls";
+import { didWebToUrl } from "@/utils/did/did-web";
+import type { DidVerificationMethod } from "@/utils/did/did-document";
+import { createLogger } from "@/utils/logger";
+import { assertPublicHost, readLimited } from "@/utils/network";
+
+const logger = createLogger("DidResolver");
+
+// Largest DID document that is read
+const MAX_DID_DOCUMENT_SIZE = 64 * 1024;
+
+/**
+ * A DID document as published by any DID method
+ */
+export interface ResolvedDidDocument {
+  "@context"?: string | string[];
+  id: string;
+  controller?: string | string[];
+  verificationMethod?: DidVerificationMethod[];
+  assertionMethod?: (string | DidVerificationMethod)[];
+  [key: string]: unknown;
+}
+
+/**
+ * A verification method resolved to the key it describes
+ */
+export interface ResolvedVerificationMethod {
+  id: string;
+  type: string;
+  controller: string;
+  /** The raw 32 byte Ed25519 public key */
+  publicKey: Uint8Array;
+}
+
+/**
+ * Resolves the DIDs of a single DID method
+ */
+export interface DidMethodResolver {
+  /** Method name, e.g. "web" for did:web */
+  readonly method: string;
+  resolve(did: string): Promise<ResolvedDidDocument>;
+}
+
+/**
+ * Fetches a DID document over HTTPS; by default fetch, limited to public hosts
+ */
+export type DidFetcher = (url: string) => Promise<Response>;
+
+/**
+ * Fetch a DID document from a public host
+ * Redirects are not followed, as they could lead to a host that is not.
+ */
+const fetchDidDocument: DidFetcher = async (url) => {
+  await assertPublicHost(new URL(url).hostname);
+  return fetch(url, {
+    headers: { Accept: "application/did+json, application/json" },
+    redirect: "error",
+    signal: AbortSignal.timeout(10_000),
+  });
+};
+
+/**
+ * Thrown when a DID or verification method cannot be resolved
+ */
+export class DidResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DidResolutionError";
+  }
+}
+
+// Multicodec prefix of an Ed25519 public key
+const ED25519_MULTICODEC = [0xed, 0x01];
+
+/**
+ * Decode an Ed25519 publicKeyMultibase value
+ * Accepts Multikey values and the unprefixed keys of
+ * Ed25519VerificationKey2020.
+ */
+function decodeEd25519Multikey(value: string): Uint8Array {
+  const bytes = decodeMultibase(value);
+  if (
+    bytes.length === 34 &&
+    bytes[0] === ED25519_MULTICODEC[0] &&
+    bytes[1] === ED25519_MULTICODEC[1]
+  ) {
+    return bytes.slice(2);
+  }
+  if (bytes.length === 32) {
+    return bytes;
+  }
+  throw new DidResolutionError("Only Ed25519 keys are supported");
+}
+
+/**
+ * Extract the Ed25519 public key of a verification method
+ */
+function getEd25519PublicKey(method: DidVerificationMethod): Uint8Array {
+  if (method.publicKeyMultibase) {
+    return decodeEd25519Multikey(method.publicKeyMultibase);
+  }
+
+  const jwk = method.publicKeyJwk;
+  if (jwk) {
+    if (jwk.kty !== "OKP" || jwk.crv !== "Ed25519" || !jwk.x) {
+      throw new DidResolutionError("Only Ed25519 keys are supported");
+    }
+    const publicKey = new Uint8Array(Buffer.from(jwk.x, "base64url"));
+    if (publicKey.length !== 32) {
+      throw new DidResolutionError("Invalid Ed25519 public key");
+    }
+    return publicKey;
+  }
+
+  throw new DidResolutionError(`Verification method ${method.id} has no key`);
+}
+
+/**
+ * Make a relative DID URL (e.g. "#key-1") absolute
+ */
+function toAbsoluteId(did: string, id: string): string {
+  return id.startsWith("#") ? `${did}${id}` : id;
+}
+
+/**
+ * Resolver for did:key (Ed25519 only)
+ */
+export class DidKeyResolver implements DidMethodResolver {
+  readonly method = "key";
+
+  async resolve(did: string): Promise<ResolvedDidDocument> {
+    const multikey = did.slice("did:key:".length);
+    if (!multikey.startsWith("z")) {
+      throw new DidResolutionError(`Invalid did:key identifier: ${did}`);
+    }
+    try {
+      decodeEd25519Multikey(multikey);
+    } catch (error) {
+      if (error instanceof DidResolutionError) throw error;
+      throw new DidResolutionError(`Invalid did:key identifier: ${did}`);
+    }
+
+    const verificationMethod: DidVerificationMethod = {
+      id: `${did}#${multikey}`,
+      type: "Multikey",
+      controller: did,
+      publicKeyMultibase: multikey,
+    };
+    return {
+      "@context": [DID_CONTEXT_URL],
+      id: did,
+      verificationMethod: [verificationMethod],
+      assertionMethod: [verificationMethod.id],
+    };
+  }
+}
+
+/**
+ * Resolver for did:jwk
+ */
+export class DidJwkResolver implements DidMethodResolver {
+  readonly method = "jwk";
+
+  async resolve(did: string): Promise<ResolvedDidDocument> {
+    let publicKeyJwk: DidVerificationMethod["publicKeyJwk"];
+    try {
+      publicKeyJwk = JSON.parse(
+        Buffer.from(did.slice("did:jwk:".length), "base64url").toString("utf8"),
+      );
+    } catch {
+      throw new DidResolutionError(`Invalid did:jwk identifier: ${did}`);
+    }
+    if (!publicKeyJwk || typeof publicKeyJwk !== "object" || publicKeyJwk.d) {
+      throw new DidResolutionError(`Invalid did:jwk identifier: ${did}`);
+    }
+
+    const verificationMethod: DidVerificationMethod = {
+      id: `${did}#0`,
+      type: "JsonWebKey",
+      controller: did,
+      publicKeyJwk,
+    };
+    return {
+      "@context": [DID_CONTEXT_URL, JWK_CONTEXT_URL],
+      id: did,
+      verificationMethod: [verificationMethod],
+      assertionMethod: [verificationMethod.id],
+    };
+  }
+}
+
+/**
+ * Resolver for did:web
+ */
+export class DidWebResolver implements DidMethodResolver {
+  readonly method = "web";
+  private readonly fetcher: DidFetcher;
+
+  /**
+   * @param fetcher Performs the HTTPS request (defaults to a fetch of public
+   * hosts only)
+   */
+  constructor(fetcher: DidFetcher = fetchDidDocument) {
+    this.fetcher = fetcher;
+  }
+
+  async resolve(did: string): Promise<ResolvedDidDocument> {
+    let url: string;
+    try {
+      url = didWebToUrl(did);
+    } catch {
+      throw new DidResolutionError(`Invalid did:web identifier: ${did}`);
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetcher(url);
+    } catch (error) {
+      logger.warn(`Failed to fetch ${url}`, error);
+      throw new DidResolutionError(`Could not fetch DID document for ${did}`);
+    }
+    if (!response.ok) {
+      throw new DidResolutionError(
+        `Could not fetch DID document for ${did}: HTTP ${response.status}`,
+      );
+    }
+
+    let body: string;
+    try {
+      body = (await readLimited(response, MAX_DID_DOCUMENT_SIZE)).toString(
+        "utf8",
+      );
+    } catch (error) {
+      logger.warn(`Failed to read ${url}`, error);
+      throw new DidResolutionError(
+        `Could not read DID document for ${did}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    let document: ResolvedDidDocument;
+    try {
+      document = JSON.parse(body) as ResolvedDidDocument;
+    } catch {
+      throw new DidResolutionError(`DID document for ${did} is not JSON`);
+    }
+    if (document?.id !== did) {
+      throw new DidResolutionError(
+        `DID document at ${url} does not describe ${did}`,
+      );
+    }
+    return document;
+  }
+}
+
+/**
+ * Resolves DIDs by delegating to the resolver of their method
+ */
+export class DidResolver {
+  private readonly resolvers = new Map<string, DidMethodResolver>();
+
+  constructor(resolvers: DidMethodResolver[] = []) {
+    resolvers.forEach((resolver) => this.register(resolver));
+  }
+
+  /**
+   * Add or replace the resolver of a DID method
+   */
+  register(resolver: DidMethodResolver): void {
+    this.resolvers.set(resolver.method, resolver);
+  }
+
+  /**
+   * Resolve a DID to its DID document
+   * @throws DidResolutionError if the method is unsupported or resolution fails
+   */
+  async resolve(did: string): Promise<ResolvedDidDocument> {
+    const [scheme, method] = did.split(":");
+    const resolver = scheme === "did" ? this.resolvers.get(method) : undefined;
+    if (!resolver) {
+      throw new DidResolutionError(`Unsupported DID method: ${did}`);
+    }
+    return resolver.resolve(did);
+  }
+
+  /**
+   * Resolve a verification method that may make assertions for its DID
+   * @param verificationMethodId DID URL of the verification method
+   * @returns The verification method and its Ed25519 public key
+   * @throws DidResolutionError if the method cannot be found, is not an
+   * assertion method or does not hold an Ed25519 key
+   */
+  async resolveAssertionMethod(
+    verificationMethodId: string,
+  ): Promise<ResolvedVerificationMethod> {
+    const did = verificationMethodId.split("#")[0];
+    const document = await this.resolve(did);
+
+    const embedded = (document.assertionMethod ?? []).filter(
+      (method): method is DidVerificationMethod => typeof method !== "string",
+    );
+    const isAssertionMethod = (document.assertionMethod ?? []).some(
+      (method) =>
+        toAbsoluteId(did, typeof method === "string" ? method : method.id) ===
+        verificationMethodId,
+    );
+    if (!isAssertionMethod) {
+      throw new DidResolutionError(
+        `${verificationMethodId} is not an assertion method of ${did}`,
+      );
+    }
+
+    const method = [...(document.verificationMethod ?? []), ...embedded].find(
+      (candidate) => toAbsoluteId(did, candidate.id) === verificationMethodId,
+    );
+    if (!method) {
+      throw new DidResolutionError(
+        `Verification method ${verificationMethodId} not found`,
+      );
+    }
+
+    return {
+      id: verificationMethodId,
+      type: method.type,
+      controller: method.controller,
+      publicKey: getEd25519PublicKey(method),
+    };
+  }
+}
+
+/**
+ * Create a resolver for did:key, did:jwk and did:web
+ * @param fetcher HTTPS fetcher used for did:web (defaults to a fetch of public
+ * hosts only)
+ */
+export function createDidResolver(fetcher?: DidFetcher): DidResolver {
+  return new DidResolver([
+    new DidKeyResolver(),
+    new DidJwkResolver(),
+    new DidWebResolver(fetcher),
+  ]);
+}
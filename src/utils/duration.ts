@@ -0,0 +1,73 @@
+/**
+ * ISO 8601 durations, e.g. "P2Y" for two years or "P30D" for 30 days
+ */
+import { BadRequestError } from "@/utils/errors";
+
+/**
+ * The components of a duration
+ */
+export interface Duration {
+  years: number;
+  months: number;
+  weeks: number;
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+const DURATION_PATTERN =
+  /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+/**
+ * Parse an ISO 8601 duration with whole-number components
+ * @param value The duration, e.g. "P1Y6M" or "PT12H"
+ * @returns The components, or null if the value is not a non-empty duration
+ */
+export function parseDuration(value: unknown): Duration | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const match = DURATION_PATTERN.exec(value);
+  if (!match || value === "P" || value.endsWith("T")) {
+    return null;
+  }
+
+  const [years, months, weeks, days, hours, minutes, seconds] = match
+    .slice(1)
+    .map((component) => Number(component ?? 0));
+  const duration = { years, months, weeks, days, hours, minutes, seconds };
+  return Object.values(duration).some((component) => component > 0)
+    ? duration
+    : null;
+}
+
+/**
+ * Add a duration to a date in UTC
+ * Years and months are calendar units; a day of the month that does not
+ * exist in the target month is clamped to its last day.
+ * @throws BadRequestError if the result is past the range of dates
+ */
+export function addDuration(date: Date, duration: Duration): Date {
+  const result = new Date(date.getTime());
+
+  const months = result.getUTCMonth() + duration.years * 12 + duration.months;
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(months);
+  const lastDay = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+
+  result.setUTCDate(result.getUTCDate() + duration.weeks * 7 + duration.days);
+  result.setTime(
+    result.getTime() +
+      ((duration.hours * 60 + duration.minutes) * 60 + duration.seconds) * 1000,
+  );
+  if (Number.isNaN(result.getTime())) {
+    throw new BadRequestError("Duration exceeds the range of dates");
+  }
+  return result;
+}
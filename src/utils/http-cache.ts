@@ -0,0 +1,46 @@
+/**
+ * HTTP caching helpers for conditional GET requests (RFC 9110)
+ */
+import * as crypto from "crypto";
+
+/**
+ * Create a strong entity tag from a representation's content
+ * @param content The representation, or anything that changes with it
+ */
+export function createETag(content: string): string {
+  const digest = crypto.createHash("sha256").update(content).digest();
+  return `"${digest.subarray(0, 16).toString("base64url")}"`;
+}
+
+/**
+ * Check a conditional GET against the current representation
+ * If-None-Match takes precedence; If-Modified-Since is only evaluated when
+ * it is absent.
+ * @param headers The request's If-None-Match and If-Modified-Since values
+ * @param etag Entity tag of the current representation
+ * @param lastModified When the representation last changed
+ * @returns Whether a 304 Not Modified can be sent
+ */
+export function isNotModified(
+  headers: { ifNoneMatch?: string; ifModifiedSince?: string },
+  etag: string,
+  lastModified: Date,
+): boolean {
+  if (headers.ifNoneMatch) {
+    const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+    return headers.ifNoneMatch
+      .split(",")
+      .some((tag) => tag.trim() === "*" || opaque(tag) === opaque(etag));
+  }
+
+  if (headers.ifModifiedSince) {
+    const since = Date.parse(headers.ifModifiedSince);
+    // HTTP dates have second precision
+    return (
+      !Number.isNaN(since) &&
+      Math.floor(lastModified.getTime() / 1000) * 1000 <= since
+    );
+  }
+
+  return false;
+}
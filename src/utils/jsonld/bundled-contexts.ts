@@ -0,0 +1,83 @@
+/**
+ * JSON-LD contexts bundled with the application
+ *
+ * Every context is pinned to the SHA-256 hash of its canonical JSON form
+ * (see computeContextHash). A bundled copy that does not match its pin is
+ * never served.
+ */
+import {
+  VC_CONTEXT_URL,
+  VC_V2_CONTEXT_URL,
+  STATUS_LIST_CONTEXT_URL,
+  BITSTRING_STATUS_LIST_CONTEXT_URL,
+  OB3_CONTEXT_URL,
+  DATA_INTEGRITY_V1_CONTEXT_URL,
+  DATA_INTEGRITY_CONTEXT_URL,
+  JWS_CONTEXT_URL,
+  MULTIKEY_CONTEXT_URL,
+  DID_CONTEXT_URL,
+} from "@/constants/context-urls";
+import credentialsV1 from "@/constants/contexts/credentials-v1.json";
+import credentialsV2 from "@/constants/contexts/credentials-v2.json";
+import statusList2021V1 from "@/constants/contexts/status-list-2021-v1.json";
+import bitstringStatusListV1 from "@/constants/contexts/bitstring-status-list-v1.json";
+import openBadgesV3 from "@/constants/contexts/ob-v3p0-3.0.3.json";
+import dataIntegrityV1 from "@/constants/contexts/data-integrity-v1.json";
+import dataIntegrityV2 from "@/constants/contexts/data-integrity-v2.json";
+import jws2020V1 from "@/constants/contexts/jws-2020-v1.json";
+import multikeyV1 from "@/constants/contexts/multikey-v1.json";
+import didV1 from "@/constants/contexts/did-v1.json";
+
+/**
+ * A context document together with its pinned hash
+ */
+export interface PinnedContext {
+  document: unknown;
+  sha256: string;
+}
+
+/**
+ * Bundled context documents keyed by their URL
+ */
+export const BUNDLED_CONTEXTS: Record<string, PinnedContext> = {
+  [VC_CONTEXT_URL]: {
+    document: credentialsV1,
+    sha256: "b01e671e873981f19a9102a9a57f666dbcaeb31b99e3e124378d143e71549247",
+  },
+  [VC_V2_CONTEXT_URL]: {
+    document: credentialsV2,
+    sha256: "b463c8d6a066214123ddd9827b135e1b50e1fc73322cc52a9b12a4f1fc7d86cf",
+  },
+  [STATUS_LIST_CONTEXT_URL]: {
+    document: statusList2021V1,
+    sha256: "9768f9aa81ab6c3e2ad96b2d669eaba67afe13fff0140a853f1e3d313fab13b6",
+  },
+  [BITSTRING_STATUS_LIST_CONTEXT_URL]: {
+    document: bitstringStatusListV1,
+    sha256: "b2fcebfbaf4e6beae2be370fda8a5f9f99c28540c798a75a8cdccc0fb1a12492",
+  },
+  [OB3_CONTEXT_URL]: {
+    document: openBadgesV3,
+    sha256: "c5e555a91a5cf48e32ae0a05674c61ddd5c053b680b5643b2f57f9965e386d99",
+  },
+  [DATA_INTEGRITY_V1_CONTEXT_URL]: {
+    document: dataIntegrityV1,
+    sha256: "9505bf85338a4c2121ad03992ac90061bc85d43bcfa34d9d47b779381cf08b5f",
+  },
+  [DATA_INTEGRITY_CONTEXT_URL]: {
+    document: dataIntegrityV2,
+    sha256: "7ba3c50acf2689d5e07927267343eb353249c7c22a9f2d00307cc970e855e305",
+  },
+  [JWS_CONTEXT_URL]: {
+    document: jws2020V1,
+    sha256: "b19586d772a5b5531aa44b81c655b260638a7dab3a3e712128f0c698b7b28a1b",
+  },
+  [MULTIKEY_CONTEXT_URL]: {
+    document: multikeyV1,
+    sha256: "be20c3ee6af6e9c4102e66a85c26617831218e32216bdf050f870e389e737cdc",
+  },
+  [DID_CONTEXT_URL]: {
+    document: didV1,
+    sha256: "a7e146c40fcec005d3f0f14ae745665f446da58d7914a9d8f733746686fad82b",
+  },
+};
@@ -0,0 +1,285 @@
+/**
+ * Offline JSON-LD document loader
+ *
+ * Resolves contexts from copies bundled with the application, so
+ * canonicalization never depends on the network and always sees the same
+ * documents. Unknown URLs fail closed. Operators can extend the set of
+ * known contexts at runtime, either programmatically with registerContext
+ * or with a manifest file named by JSONLD_CONTEXT_MANIFEST. URLs listed in
+ * JSONLD_CONTEXT_ALLOWLIST may additionally be fetched once and cached for
+ * deployments that do have outbound network access.
+ */
+import { readFileSync } from "fs";
+import { dirname, resolve } from "path";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex } from "@noble/hashes/utils";
+import type { DocumentLoader, RemoteDocument } from "jsonld";
+import { BUNDLED_CONTEXTS } from "@/utils/jsonld/bundled-contexts";
+import { createLogger } from "@/utils/logger";
+
+const logger = createLogger("DocumentLoader");
+
+/**
+ * Timeout for fetching an allow-listed remote document
+ */
+const REMOTE_FETCH_TIMEOUT_MS = 5000;
+
+/**
+ * Error raised when a document cannot be resolved or fails its pin
+ */
+export class ContextResolutionError extends Error {
+  url: string;
+
+  constructor(url: string, message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.url = url;
+  }
+}
+
+/**
+ * Where a resolved document came from
+ */
+export type ContextSource = "bundled" | "registered" | "remote";
+
+interface ContextEntry {
+  document: unknown;
+  sha256: string;
+  source: ContextSource;
+}
+
+/**
+ * Entry in a context manifest file
+ * The file path is resolved relative to the manifest.
+ */
+export interface ContextManifestEntry {
+  url: string;
+  file: string;
+  sha256: string;
+}
+
+/**
+ * Contexts that have been verified against their pin, keyed by URL
+ */
+const contexts = new Map<string, ContextEntry>();
+
+/**
+ * URLs that may be fetched when they are not known locally
+ */
+const allowList = new Set<string>(
+  (process.env.JSONLD_CONTEXT_ALLOWLIST || "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean),
+);
+
+let manifestLoaded = false;
+
+/**
+ * Serialize a JSON value with object keys sorted, so the result does not
+ * depend on formatting or key order
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+
+  if (value !== null && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const members = Object.keys(record)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${members.join(",")}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Compute the pin for a context document
+ * @param document The parsed JSON document
+ * @returns Hex encoded SHA-256 of the document's canonical JSON form
+ */
+export function computeContextHash(document: unknown): string {
+  return bytesToHex(sha256(new TextEncoder().encode(canonicalJson(document))));
+}
+
+/**
+ * Register a context document so it can be resolved offline
+ * @param url The context URL
+ * @param document The parsed context document
+ * @param expectedHash Pinned SHA-256 of the document (see computeContextHash)
+ * @throws ContextResolutionError if the document does not match its pin or
+ * would replace a bundled context with different content
+ */
+export function registerContext(
+  url: string,
+  document: unknown,
+  expectedHash: string,
+): void {
+  const hash = computeContextHash(document);
+  if (hash !== expectedHash.toLowerCase()) {
+    throw new ContextResolutionError(
+      url,
+      `Context ${url} does not match its pinned hash (expected ${expectedHash}, got ${hash})`,
+    );
+  }
+
+  const bundled = BUNDLED_CONTEXTS[url];
+  if (bundled && bundled.sha256 !== hash) {
+    throw new ContextResolutionError(
+      url,
+      `Context ${url} is bundled and cannot be replaced`,
+    );
+  }
+
+  contexts.set(url, { document, sha256: hash, source: "registered" });
+  logger.info(`Registered JSON-LD context ${url}`);
+}
+
+/**
+ * Register every context listed in a manifest file
+ * The manifest is a JSON array of { url, file, sha256 } entries.
+ * @param manifestPath Path to the manifest file
+ * @returns The URLs that were registered
+ */
+export function loadContextManifest(manifestPath: string): string[] {
+  const manifest = JSON.parse(
+    readFileSync(manifestPath, "utf8"),
+  ) as ContextManifestEntry[];
+  if (!Array.isArray(manifest)) {
+    throw new Error(`Context manifest ${manifestPath} must be a JSON array`);
+  }
+
+  const baseDir = dirname(resolve(manifestPath));
+  return manifest.map((entry) => {
+    const document = JSON.parse(
+      readFileSync(resolve(baseDir, entry.file), "utf8"),
+    );
+    registerContext(entry.url, document, entry.sha256);
+    return entry.url;
+  });
+}
+
+/**
+ * Allow a URL to be fetched when it is not bundled or registered
+ * @param url The exact URL to allow
+ */
+export function allowRemoteContext(url: string): void {
+  allowList.add(url);
+}
+
+/**
+ * Load the manifest named by JSONLD_CONTEXT_MANIFEST the first time a
+ * document is resolved
+ */
+function ensureManifestLoaded(): void {
+  if (manifestLoaded) {
+    return;
+  }
+  manifestLoaded = true;
+
+  const manifestPath = process.env.JSONLD_CONTEXT_MANIFEST;
+  if (manifestPath) {
+    loadContextManifest(manifestPath);
+  }
+}
+
+/**
+ * Look up a bundled or registered context, checking bundled copies against
+ * their pin before first use
+ */
+function getLocalContext(url: string): ContextEntry | undefined {
+  const known = contexts.get(url);
+  if (known) {
+    return known;
+  }
+
+  const bundled = BUNDLED_CONTEXTS[url];
+  if (!bundled) {
+    return undefined;
+  }
+
+  const hash = computeContextHash(bundled.document);
+  if (hash !== bundled.sha256) {
+    throw new ContextResolutionError(
+      url,
+      `Bundled context ${url} does not match its pinned hash`,
+    );
+  }
+
+  const entry: ContextEntry = {
+    document: bundled.document,
+    sha256: hash,
+    source: "bundled",
+  };
+  contexts.set(url, entry);
+  return entry;
+}
+
+/**
+ * Fetch an allow-listed document and cache it for the lifetime of the process
+ */
+async function fetchRemoteContext(url: string): Promise<ContextEntry> {
+  const response = await fetch(url, {
+    headers: { Accept: "application/ld+json, application/json" },
+    signal: AbortSignal.timeout(REMOTE_FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new ContextResolutionError(
+      url,
+      `Failed to fetch ${url}: ${response.status} ${response.statusText}`,
+    );
+  }
+
+  const document = await response.json();
+  const entry: ContextEntry = {
+    document,
+    sha256: computeContextHash(document),
+    source: "remote",
+  };
+  contexts.set(url, entry);
+  logger.warn(
+    `Fetched allow-listed JSON-LD document ${url} (sha256 ${entry.sha256}); register it to pin this version`,
+  );
+  return entry;
+}
+
+/**
+ * Resolve a JSON-LD context or JSON document by URL
+ * @param url The document URL
+ * @returns The parsed document
+ * @throws ContextResolutionError if the URL is unknown and not allow-listed
+ */
+export async function loadDocument(url: string): Promise<unknown> {
+  ensureManifestLoaded();
+
+  const local = getLocalContext(url);
+  if (local) {
+    return local.document;
+  }
+
+  if (allowList.has(url)) {
+    return (await fetchRemoteContext(url)).document;
+  }
+
+  throw new ContextResolutionError(
+    url,
+    `Unable to resolve JSON-LD context: ${url}`,
+  );
+}
+
+/**
+ * Document loader for jsonld.js that only serves pinned documents
+ * @param url The context URL to resolve
+ * @returns The resolved document
+ */
+export const documentLoader: DocumentLoader = async (
+  url: string,
+): Promise<RemoteDocument> => {
+  return {
+    contextUrl: null,
+    documentUrl: url,
+    document: await loadDocument(url),
+  };
+};
@@ -0,0 +1,174 @@
+/**
+ * Validation of badge images
+ *
+ * Badge images are PNG or SVG files, the formats Open Badges can be baked
+ * into. Their size and dimensions are limited by MEDIA_MAX_BYTES and
+ * MEDIA_MAX_DIMENSION. SVG images are sanitized before they are stored.
+ */
+import type { MediaType } from "@/db/schema";
+import { BadRequestError } from "@/utils/errors";
+import {
+  type SvgElement,
+  SvgError,
+  parseSvg,
+  sanitizeSvg,
+  serializeSvg,
+} from "@/utils/media/svg";
+
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+// Defaults for the size limits, 2 MiB and 2048 pixels on either side
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024;
+const DEFAULT_MAX_DIMENSION = 2048;
+
+/**
+ * What a badge image is
+ */
+export interface ImageInfo {
+  mimeType: MediaType;
+  /** File extension, without the dot */
+  extension: "png" | "svg";
+  width: number;
+  height: number;
+  /** The content to store, which is sanitized for SVG images */
+  data: Buffer;
+}
+
+/**
+ * Limits on the badge images that are accepted
+ */
+export interface ImageLimits {
+  maxBytes: number;
+  maxDimension: number;
+}
+
+/**
+ * Get the configured image limits
+ */
+export function getImageLimits(): ImageLimits {
+  return {
+    maxBytes: Number(process.env.MEDIA_MAX_BYTES) || DEFAULT_MAX_BYTES,
+    maxDimension:
+      Number(process.env.MEDIA_MAX_DIMENSION) || DEFAULT_MAX_DIMENSION,
+  };
+}
+
+/**
+ * Read the dimensions from the IHDR chunk, which must come first
+ */
+function inspectPng(data: Buffer): ImageInfo | null {
+  if (
+    data.length < 24 ||
+    data.toString("latin1", 12, 16) !== "IHDR" ||
+    !data.subarray(0, 8).equals(PNG_SIGNATURE)
+  ) {
+    return null;
+  }
+
+  return {
+    mimeType: "image/png",
+    extension: "png",
+    width: data.readUInt32BE(16),
+    height: data.readUInt32BE(20),
+    data,
+  };
+}
+
+/**
+ * Parse an SVG length, which must be a number of user units or pixels
+ */
+function parseSvgLength(value: string | undefined): number | null {
+  const match = value?.trim().match(/^(\d+(?:\.\d+)?)(px)?$/);
+  return match ? Math.ceil(parseFloat(match[1])) : null;
+}
+
+/**
+ * Parse and sanitize an SVG image, and read the dimensions from the width
+ * and height of its root element, or from its viewBox
+ */
+function inspectSvg(data: Buffer): ImageInfo | null {
+  let content: string;
+  try {
+    content = new TextDecoder("utf-8", { fatal: true }).decode(data);
+  } catch {
+    return null;
+  }
+  if (!/^(\uFEFF)?\s*</.test(content)) {
+    return null;
+  }
+
+  let svg: SvgElement;
+  try {
+    svg = sanitizeSvg(parseSvg(content));
+  } catch (error) {
+    if (error instanceof SvgError) {
+      throw new BadRequestError(error.message);
+    }
+    throw error;
+  }
+
+  const { attributes } = svg;
+  const viewBox = attributes.viewBox
+    ?.trim()
+    .split(/[\s,]+/)
+    .map(Number);
+  const width =
+    parseSvgLength(attributes.width) ??
+    (viewBox?.length === 4 ? Math.ceil(viewBox[2]) : null);
+  const height =
+    parseSvgLength(attributes.height) ??
+    (viewBox?.length === 4 ? Math.ceil(viewBox[3]) : null);
+
+  if (!width || !height) {
+    throw new BadRequestError(
+      "SVG images must declare their size with width and height or a viewBox",
+    );
+  }
+
+  return {
+    mimeType: "image/svg+xml",
+    extension: "svg",
+    width,
+    height,
+    data: Buffer.from(serializeSvg(svg)),
+  };
+}
+
+/**
+ * Check that data is a badge image within the limits
+ * @param data The file content
+ * @param limits The limits to apply (defaults to the configured limits)
+ * @returns What the image is
+ * @throws BadRequestError if the data is not an acceptable PNG or SVG image
+ */
+export function validateImage(
+  data: Buffer,
+  limits: ImageLimits = getImageLimits(),
+): ImageInfo {
+  if (data.length === 0) {
+    throw new BadRequestError("Image is empty");
+  }
+  if (data.length > limits.maxBytes) {
+    throw new BadRequestError(`Image is larger than ${limits.maxBytes} bytes`);
+  }
+
+  const image = inspectPng(data) ?? inspectSvg(data);
+  if (!image) {
+    throw new BadRequestError("Image must be a PNG or SVG file");
+  }
+
+  if (
+    image.width < 1 ||
+    image.height < 1 ||
+    image.width > limits.maxDimension ||
+    image.height > limits.maxDimension
+  ) {
+    throw new BadRequestError(
+      `Image must be between 1 and ${limits.maxDimension} pixels wide and high`,
+    );
+  }
+
+  return image;
+}
@@ -0,0 +1,46 @@
+/**
+ * Registry of the available media stores
+ */
+import { LocalMediaStorage } from "@/utils/media/local";
+import {
+  type MediaStorage,
+  type MediaStorageName,
+  MediaStorageError,
+} from "@/utils/media/types";
+
+export * from "@/utils/media/types";
+export { LocalMediaStorage };
+
+const mediaStorages = new Map<MediaStorageName, MediaStorage>();
+
+/**
+ * Get a media store by name
+ * @param name The store name (defaults to MEDIA_STORAGE, then "local")
+ */
+export function getMediaStorage(
+  name: string = process.env.MEDIA_STORAGE || "local",
+): MediaStorage {
+  const existing = mediaStorages.get(name as MediaStorageName);
+  if (existing) {
+    return existing;
+  }
+
+  let storage: MediaStorage;
+  switch (name) {
+    case "local":
+      storage = new LocalMediaStorage();
+      break;
+    default:
+      throw new MediaStorageError(`Unknown media storage: ${name}`);
+  }
+
+  mediaStorages.set(storage.name, storage);
+  return storage;
+}
+
+/**
+ * Replace a media store, e.g. with one configured differently in tests
+ */
+export function registerMediaStorage(storage: MediaStorage): void {
+  mediaStorages.set(storage.name, storage);
+}
@@ -0,0 +1,70 @@
+/**
+ * Media store that keeps files in a local directory
+ *
+ * Files are kept in the directory named by MEDIA_STORAGE_DIR, under
+ * subdirectories named after the first two characters of their key.
+ */
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname, join, resolve } from "path";
+import * as crypto from "crypto";
+import { type MediaStorage, MediaStorageError } from "@/utils/media/types";
+
+const DEFAULT_MEDIA_DIR = "./media";
+
+// Keys are a content hash and an extension, e.g. "9f86d0....png"
+const KEY_PATTERN = /^[0-9a-f]{64}\.[a-z]+$/;
+
+/**
+ * Media store backed by a directory of files
+ */
+export class LocalMediaStorage implements MediaStorage {
+  readonly name = "local" as const;
+  private readonly configuredDirectory?: string;
+
+  /**
+   * @param directory Media directory (defaults to MEDIA_STORAGE_DIR, then
+   * ./media)
+   */
+  constructor(directory?: string) {
+    this.configuredDirectory = directory;
+  }
+
+  private get directory(): string {
+    return resolve(
+      this.configuredDirectory ??
+        process.env.MEDIA_STORAGE_DIR ??
+        DEFAULT_MEDIA_DIR,
+    );
+  }
+
+  private filePath(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new MediaStorageError("Not a media key");
+    }
+    return join(this.directory, key.slice(0, 2), key);
+  }
+
+  async put(key: string, data: Uint8Array): Promise<void> {
+    const path = this.filePath(key);
+    await mkdir(dirname(path), { recursive: true });
+
+    // Write to a temporary file first so readers never see partial content
+    const temporaryPath = `${path}.${crypto.randomUUID()}.tmp`;
+    await writeFile(temporaryPath, data, { flag: "wx" });
+    await rename(temporaryPath, path);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.filePath(key));
+    } catch (error) {
+      if (error instanceof MediaStorageError) {
+        throw error;
+      }
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw new MediaStorageError(`Media file ${key} is not available`);
+    }
+  }
+}
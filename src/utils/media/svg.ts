@@ -0,0 +1,290 @@
+/**
+ * Parsing, sanitizing and serializing of SVG images
+ *
+ * SVG images are parsed as XML rather than edited as text, so baking cannot
+ * be broken by unusual markup. Document type declarations are rejected, which
+ * rules out external entities and entity expansion. Sanitizing removes what
+ * could run scripts or load other resources when the image is served.
+ */
+import { SaxesParser } from "saxes";
+
+export const OPEN_BADGES_NAMESPACE = "http://openbadges.org";
+
+/**
+ * An element of an SVG image
+ * Names are kept as written, including their namespace prefix.
+ */
+export interface SvgElement {
+  type: "element";
+  name: string;
+  attributes: Record<string, string>;
+  children: SvgNode[];
+}
+
+/**
+ * Content of an SVG element
+ * Comments and processing instructions are not kept.
+ */
+export type SvgNode =
+  | SvgElement
+  | { type: "text"; value: string }
+  | { type: "cdata"; value: string };
+
+/**
+ * Error raised when content is not an acceptable SVG image
+ */
+export class SvgError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
+
+// Elements that run scripts or embed other documents
+const FORBIDDEN_ELEMENTS = new Set([
+  "script",
+  "foreignobject",
+  "iframe",
+  "object",
+  "embed",
+  "audio",
+  "video",
+  "canvas",
+  "handler",
+  "listener",
+]);
+
+// Elements that can change other attributes, e.g. set an href
+const ANIMATION_ELEMENTS = new Set([
+  "set",
+  "animate",
+  "animatemotion",
+  "animatetransform",
+]);
+
+// Images that may be embedded, as data: URLs
+const EMBEDDED_IMAGE = /^data:image\/(png|jpeg|gif|webp)[;,]/i;
+
+/**
+ * Get an element or attribute name without its prefix, lowercased
+ */
+function localName(name: string): string {
+  return name.slice(name.indexOf(":") + 1).toLowerCase();
+}
+
+/**
+ * Whether a reference stays inside the image
+ */
+function isInternalReference(value: string): boolean {
+  const reference = value.trim();
+  return reference.startsWith("#") || EMBEDDED_IMAGE.test(reference);
+}
+
+/**
+ * Whether a style or presentation attribute loads another resource
+ */
+function loadsExternalResource(value: string): boolean {
+  if (/@import/i.test(value)) {
+    return true;
+  }
+  return [...value.matchAll(/url\(\s*(['"]?)(.*?)\1\s*\)/gi)].some(
+    ([, , url]) => !isInternalReference(url),
+  );
+}
+
+/**
+ * Whether an attribute may be kept
+ */
+function isSafeAttribute(name: string, value: string): boolean {
+  const local = localName(name);
+  if (local.startsWith("on") || name === "xml:base") {
+    return false;
+  }
+  if ((local === "href" || local === "src") && !isInternalReference(value)) {
+    return false;
+  }
+  return !loadsExternalResource(value);
+}
+
+/**
+ * Whether an element may be kept
+ */
+function isSafeElement(element: SvgElement): boolean {
+  const local = localName(element.name);
+  if (FORBIDDEN_ELEMENTS.has(local)) {
+    return false;
+  }
+  if (ANIMATION_ELEMENTS.has(local)) {
+    const target = localName(element.attributes.attributeName ?? "");
+    return target !== "href" && !target.startsWith("on");
+  }
+  if (local === "style") {
+    return !element.children.some(
+      (child) => child.type !== "element" && loadsExternalResource(child.value),
+    );
+  }
+  return true;
+}
+
+/**
+ * Parse an SVG image
+ * @param content The image as text
+ * @returns The root svg element
+ * @throws SvgError if the content is not well-formed XML with an svg root, or
+ * has a document type declaration
+ */
+export function parseSvg(content: string): SvgElement {
+  const parser = new SaxesParser();
+  const open: SvgElement[] = [];
+  let root: SvgElement | undefined;
+
+  parser.on("doctype", () => {
+    throw new SvgError("SVG images must not have a document type declaration");
+  });
+  parser.on("error", (error) => {
+    throw new SvgError(`Invalid SVG: ${error.message}`);
+  });
+  parser.on("opentag", (tag) => {
+    const element: SvgElement = {
+      type: "element",
+      name: tag.name,
+      attributes: { ...tag.attributes },
+      children: [],
+    };
+    if (open.length > 0) {
+      open[open.length - 1].children.push(element);
+    } else {
+      root = element;
+    }
+    open.push(element);
+  });
+  parser.on("closetag", () => {
+    open.pop();
+  });
+  parser.on("text", (value) => {
+    open[open.length - 1]?.children.push({ type: "text", value });
+  });
+  parser.on("cdata", (value) => {
+    open[open.length - 1]?.children.push({ type: "cdata", value });
+  });
+
+  parser.write(content).close();
+
+  if (!root || localName(root.name) !== "svg") {
+    throw new SvgError("Not an SVG image");
+  }
+  return root;
+}
+
+/**
+ * Remove scripts, event handlers and references to other resources
+ * @returns A sanitized copy of the element
+ */
+export function sanitizeSvg(element: SvgElement): SvgElement {
+  const attributes: Record<string, string> = {};
+  for (const [name, value] of Object.entries(element.attributes)) {
+    if (isSafeAttribute(name, value)) {
+      attributes[name] = value;
+    }
+  }
+
+  const children: SvgNode[] = [];
+  for (const child of element.children) {
+    if (child.type !== "element") {
+      children.push(child);
+    } else if (isSafeElement(child)) {
+      children.push(sanitizeSvg(child));
+    }
+  }
+
+  return { ...element, attributes, children };
+}
+
+/**
+ * Whether an element is an Open Badges assertion
+ * @param root The root element, which declares the namespace prefixes
+ */
+export function isOpenBadgesAssertion(
+  root: SvgElement,
+  node: SvgNode,
+): boolean {
+  if (node.type !== "element" || localName(node.name) !== "assertion") {
+    return false;
+  }
+
+  const separator = node.name.indexOf(":");
+  const prefix = separator > 0 ? node.name.slice(0, separator) : null;
+  const namespace = prefix
+    ? root.attributes[`xmlns:${prefix}`]
+    : node.attributes.xmlns;
+  return (
+    namespace === OPEN_BADGES_NAMESPACE ||
+    (prefix === "openbadges" && namespace === undefined)
+  );
+}
+
+/**
+ * Find the first Open Badges assertion in an image
+ */
+export function findOpenBadgesAssertion(
+  root: SvgElement,
+  element: SvgElement = root,
+): SvgElement | null {
+  for (const child of element.children) {
+    if (child.type !== "element") {
+      continue;
+    }
+    if (isOpenBadgesAssertion(root, child)) {
+      return child;
+    }
+
+    const found = findOpenBadgesAssertion(root, child);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function escapeAttribute(value: string): string {
+  return escapeText(value)
+    .replace(/"/g, "&quot;")
+    .replace(/\t/g, "&#9;")
+    .replace(/\n/g, "&#10;")
+    .replace(/\r/g, "&#13;");
+}
+
+/**
+ * Serialize an SVG image
+ * @param element The root svg element
+ */
+export function serializeSvg(element: SvgElement): string {
+  const attributes = Object.entries(element.attributes)
+    .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+    .join("");
+  if (element.children.length === 0) {
+    return `<${element.name}${attributes}/>`;
+  }
+
+  const children = element.children
+    .map((child) => {
+      switch (child.type) {
+        case "element":
+          return serializeSvg(child);
+        case "cdata":
+          // A CDATA section cannot contain its own end marker
+          return `<![CDATA[${child.value.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+        default:
+          return escapeText(child.value);
+      }
+    })
+    .join("");
+  return `<${element.name}${attributes}>${children}</${element.name}>`;
+}
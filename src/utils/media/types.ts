@@ -0,0 +1,42 @@
+/**
+ * Storage of badge images
+ *
+ * The `media` table describes each image and holds the key a MediaStorage
+ * keeps its content under. Keys are derived from the content hash, so the
+ * same image is only stored once. The storage used is chosen with
+ * MEDIA_STORAGE.
+ */
+
+/**
+ * Names of the available media stores
+ */
+export type MediaStorageName = "local";
+
+/**
+ * Holds the content of media files
+ */
+export interface MediaStorage {
+  readonly name: MediaStorageName;
+
+  /**
+   * Store content under a key
+   * Keys are derived from the content, so what a key holds never changes.
+   */
+  put(key: string, data: Uint8Array): Promise<void>;
+
+  /**
+   * Read the content stored under a key
+   * @returns The content, or null if nothing is stored under the key
+   */
+  get(key: string): Promise<Buffer | null>;
+}
+
+/**
+ * Error raised when a media store cannot serve a request
+ */
+export class MediaStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
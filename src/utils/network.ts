@@ -0,0 +1,112 @@
+/**
+ * Checks for requests to hosts named by untrusted input
+ *
+ * Hosts taken from credentials, e.g. of a did:web issuer, must not make the
+ * server reach its own network. Names are resolved and every address is
+ * checked, so a public name pointing to a private address is rejected too.
+ * Responses of such hosts are read up to a size limit.
+ */
+import { BlockList, isIP } from "net";
+import { lookup } from "dns/promises";
+
+// Loopback, private, link-local and other non-public ranges
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b:1::", 48],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Error raised when a host must not be requested
+ */
+export class NonPublicHostError extends Error {
+  constructor(host: string) {
+    super(`Host ${host} is not a public address`);
+    this.name = this.constructor.name;
+  }
+}
+
+/**
+ * Whether an IP address is outside the public internet
+ */
+export function isNonPublicAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 0) {
+    return true;
+  }
+  return NON_PUBLIC_ADDRESSES.check(address, version === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Make sure a host only resolves to public addresses
+ * @param hostname Host of the URL to request, e.g. from URL.hostname
+ * @throws NonPublicHostError if the host is, or resolves to, a loopback,
+ * private or otherwise non-public address
+ */
+export async function assertPublicHost(hostname: string): Promise<void> {
+  // URL.hostname keeps the brackets of IPv6 addresses
+  const host = hostname.replace(/^\[(.*)\]$/, "$1");
+  const addresses =
+    isIP(host) !== 0
+      ? [host]
+      : (await lookup(host, { all: true })).map((entry) => entry.address);
+
+  if (addresses.length === 0 || addresses.some(isNonPublicAddress)) {
+    throw new NonPublicHostError(hostname);
+  }
+}
+
+/**
+ * Read a response body, stopping once it exceeds a size
+ * @throws Error if the body is larger than maxBytes
+ */
+export async function readLimited(
+  response: Response,
+  maxBytes: number,
+): Promise<Buffer> {
+  const declared = Number(response.headers.get("Content-Length"));
+  if (declared > maxBytes) {
+    throw new Error(`Body exceeds ${maxBytes} bytes`);
+  }
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Body exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,110 @@
+/**
+ * Salted recipient identity hashes as defined by Open Badges 2.0 and used by
+ * the IdentityObject of Open Badges 3.0, e.g. "sha256$" followed by the hex
+ * digest of the identity concatenated with its salt
+ */
+import * as crypto from "crypto";
+
+/**
+ * A recipient identity as it appears in an assertion or credential
+ */
+export interface RecipientIdentity {
+  type: string;
+  identity: string;
+  hashed: boolean;
+  salt?: string | null;
+}
+
+// Hash algorithms OB2 allows, as used in the prefix of a hashed identity
+const HASHED_IDENTITY_PATTERN = /^(sha256|md5)\$([0-9a-f]+)$/i;
+
+/**
+ * Check whether an identity is already a hash, e.g. "sha256$e3b0..."
+ */
+export function isHashedIdentity(identity: unknown): identity is string {
+  return typeof identity === "string" && HASHED_IDENTITY_PATTERN.test(identity);
+}
+
+/**
+ * Generate a random salt for a recipient identity
+ */
+export function generateRecipientSalt(): string {
+  return crypto.randomBytes(16).toString("hex");
+}
+
+/**
+ * Normalize an identity before it is hashed or compared
+ * Email addresses are case-insensitive in practice, so they are lowercased.
+ */
+export function normalizeRecipientIdentity(
+  identity: string,
+  type: string,
+): string {
+  const trimmed = identity.trim();
+  return type === "email" || type === "emailAddress"
+    ? trimmed.toLowerCase()
+    : trimmed;
+}
+
+/**
+ * Hash a recipient identity with SHA-256
+ * @param identity The plaintext identity, e.g. an email address
+ * @param type The identity's type, e.g. "email"
+ * @param salt Salt appended to the identity before hashing
+ */
+export function hashRecipientIdentity(
+  identity: string,
+  type: string,
+  salt: string,
+): string {
+  const digest = crypto
+    .createHash("sha256")
+    .update(normalizeRecipientIdentity(identity, type) + salt)
+    .digest("hex");
+  return `sha256$${digest}`;
+}
+
+/**
+ * Check whether a plaintext identity is the one a recipient was issued to
+ * Hashes are compared in constant time. The candidate is tried as given and
+ * normalized, since other issuers may not have normalized before hashing.
+ * @param recipient The recipient of an assertion or credential
+ * @param candidate The plaintext identity to check
+ */
+export function recipientIdentityMatches(
+  recipient: RecipientIdentity,
+  candidate: string,
+): boolean {
+  const candidates = [
+    ...new Set([
+      candidate.trim(),
+      normalizeRecipientIdentity(candidate, recipient.type),
+    ]),
+  ];
+
+  if (!recipient.hashed) {
+    const identity = normalizeRecipientIdentity(
+      recipient.identity,
+      recipient.type,
+    );
+    return candidates.includes(identity);
+  }
+
+  const match = HASHED_IDENTITY_PATTERN.exec(recipient.identity);
+  if (!match) {
+    return false;
+  }
+  const algorithm = match[1].toLowerCase();
+  const expected = Buffer.from(match[2].toLowerCase(), "hex");
+
+  return candidates.some((value) => {
+    const actual = crypto
+      .createHash(algorithm)
+      .update(value + (recipient.salt ?? ""))
+      .digest();
+    return (
+      actual.length === expected.length &&
+      crypto.timingSafeEqual(actual, expected)
+    );
+  });
+}
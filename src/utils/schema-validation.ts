@@ -4,6 +4,7 @@
 import { OpenBadgeCredential } from "@/models/credential.model";
 import { OB3_CREDENTIAL_SCHEMA_URL } from "@/constants/context-urls";
 import Ajv from "ajv";
+import { loadDocument } from "@/utils/jsonld/document-loader";
 
 /**
  * Ajv schema validation result
@@ -14,36 +15,17 @@ export interface ValidationResult {
 }
 
 /**
- * Loaded schemas cache to avoid fetching multiple times
- */
-const schemaCache = new Map<string, any>();
-
-/**
- * Fetch and parse a JSON schema from a URL
- * @param url The URL of the schema to fetch
+ * Load a JSON schema through the offline document loader
+ * Schemas resolve like JSON-LD contexts: they must be bundled, registered by
+ * an operator or allow-listed, otherwise loading fails.
+ * @param url The URL of the schema to load
  * @returns The parsed schema
  */
-async function fetchSchema(url: string): Promise<any> {
+async function loadSchema(url: string): Promise<any> {
   try {
-    // Check cache first
-    if (schemaCache.has(url)) {
-      return schemaCache.get(url);
-    }
-
-    // Fetch the schema
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch schema: ${response.statusText}`);
-    }
-
-    const schema = await response.json();
-
-    // Cache the schema
-    schemaCache.set(url, schema);
-
-    return schema;
+    return await loadDocument(url);
   } catch (error) {
-    console.error(`Error fetching schema: ${error}`);
+    console.error(`Error loading schema: ${error}`);
     throw error;
   }
 }
@@ -64,8 +46,8 @@ export async function validateOB3Credential(
     const schemaUrl =
       credential.credentialSchema?.id || OB3_CREDENTIAL_SCHEMA_URL;
 
-    // Fetch the schema
-    const schema = await fetchSchema(schemaUrl);
+    // Load the schema
+    const schema = await loadSchema(schemaUrl);
 
     // Compile the schema
     const validate = ajv.compile(schema);
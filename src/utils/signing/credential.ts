@@ -2,10 +2,15 @@
  * Credential signing and verification utilities for Open Badges 3.0
  * Based on the W3C Data Integrity EdDSA Cryptosuites v1.0 specification
  */
-import { CredentialProof } from "@/models/credential.model";
-import * as ed from "@noble/ed25519";
+import { CredentialProof, DataIntegrityProof } from "@/models/credential.model";
 import { base64url } from "@scure/base";
 import * as crypto from "crypto";
+import { decodeMultibase } from "@/utils/signing/key-generation";
+import {
+  createDataIntegrityProof,
+  verifyDataIntegrityProof,
+  withDataIntegrityContext,
+} from "@/utils/signing/data-integrity";
 
 /**
  * Options for signing a credential
@@ -31,13 +36,30 @@ export interface VerificationResult {
 // In production, this would be replaced with proper EdDSA signing
 const TEST_SIGNING_SECRET = "test-signing-secret-do-not-use-in-production";
 
+/**
+ * Decode a key given as multibase (base58btc, 'z' prefix) or base64url
+ * Multikey-encoded Ed25519 keys have their two byte multicodec prefix removed.
+ * @param key The encoded key
+ * @returns Raw key bytes
+ */
+function decodeKey(key: string): Uint8Array {
+  const bytes = key.startsWith("z")
+    ? decodeMultibase(key)
+    : base64url.decode(key);
+
+  if (bytes.length === 34 && bytes[0] === 0xed && bytes[1] === 0x01) {
+    return bytes.slice(2);
+  }
+  return bytes;
+}
+
 /**
  * Sign a credential with a private key
  *
  * @param credential The credential to sign
- * @param privateKey The private key as a string (base64url encoded)
+ * @param privateKey The private key (multibase or base64url encoded, or raw bytes)
  * @param options Additional signing options
- * @returns The signed credential with proof
+ * @returns The signed credential with an eddsa-rdfc-2022 proof
  */
 export async function signCredential<T extends Record<string, unknown>>(
   credential: T,
@@ -47,36 +69,22 @@ export async function signCredential<T extends Record<string, unknown>>(
     proofPurpose: string;
   },
 ): Promise<T & { proof: CredentialProof }> {
-  // Create a copy of the credential without proof
-  const documentToSign = { ...credential };
-
   // Prepare the key
-  let privateKeyBytes: Uint8Array;
-  if (typeof privateKey === "string") {
-    privateKeyBytes = base64url.decode(privateKey);
-  } else {
-    privateKeyBytes = privateKey;
-  }
+  const privateKeyBytes =
+    typeof privateKey === "string" ? decodeKey(privateKey) : privateKey;
 
-  // Create a canonical form for signing
-  const canonicalData = JSON.stringify(documentToSign);
-  const dataToSign = new TextEncoder().encode(canonicalData);
+  // Make sure the proof terms are defined before canonicalizing
+  const documentToSign = withDataIntegrityContext(credential);
 
-  // Sign the document
-  const signature = await ed.sign(dataToSign, privateKeyBytes);
-  const proofValue = base64url.encode(signature);
+  const proof = await createDataIntegrityProof(
+    documentToSign,
+    privateKeyBytes,
+    options,
+  );
 
-  // Create the proof
   return {
-    ...credential,
-    proof: {
-      type: "DataIntegrityProof",
-      cryptosuite: "eddsa-rdfc-2022",
-      created: new Date().toISOString(),
-      verificationMethod: options.verificationMethod,
-      proofPurpose: options.proofPurpose,
-      proofValue,
-    },
+    ...documentToSign,
+    proof,
   };
 }
 
@@ -84,7 +92,7 @@ export async function signCredential<T extends Record<string, unknown>>(
  * Verify a signed credential
  *
  * @param credential The signed credential with proof
- * @param publicKey The public key as a string (base64url or multibase encoded)
+ * @param publicKey The public key as a string (multibase or base64url encoded)
  * @returns Verification result
  */
 export async function verifyCredential<T extends Record<string, unknown>>(
@@ -100,34 +108,27 @@ export async function verifyCredential<T extends Record<string, unknown>>(
   const { proof } = credential as T & { proof: CredentialProof };
 
   // Check proof type
-  if (
-    proof.type !== "Ed25519Signature2020" &&
-    proof.type !== "DataIntegrityProof"
-  ) {
+  if (proof.type !== "DataIntegrityProof") {
     return {
       verified: false,
-      error: `Unsupported proof type: ${proof.type}. Support types are Ed25519Signature2020 and DataIntegrityProof`,
+      error: `Unsupported proof type: ${proof.type}. Supported type is DataIntegrityProof`,
     };
   }
 
-  // For DataIntegrityProof, check cryptosuite
-  if (proof.type === "DataIntegrityProof") {
-    const dataIntegrityProof =
-      proof as import("@/models/credential.model").DataIntegrityProof;
+  const dataIntegrityProof = proof as DataIntegrityProof;
 
-    if (!dataIntegrityProof.cryptosuite) {
-      return {
-        verified: false,
-        error: `Unsupported cryptosuite: Missing cryptosuite. Supported cryptosuites are eddsa-rdfc-2022`,
-      };
-    }
+  if (!dataIntegrityProof.cryptosuite) {
+    return {
+      verified: false,
+      error: `Unsupported cryptosuite: Missing cryptosuite. Supported cryptosuites are eddsa-rdfc-2022`,
+    };
+  }
 
-    if (dataIntegrityProof.cryptosuite !== "eddsa-rdfc-2022") {
-      return {
-        verified: false,
-        error: `Unsupported cryptosuite: ${dataIntegrityProof.cryptosuite}. Supported cryptosuites are eddsa-rdfc-2022`,
-      };
-    }
+  if (dataIntegrityProof.cryptosuite !== "eddsa-rdfc-2022") {
+    return {
+      verified: false,
+      error: `Unsupported cryptosuite: ${dataIntegrityProof.cryptosuite}. Supported cryptosuites are eddsa-rdfc-2022`,
+    };
   }
 
   // Extract proof value
@@ -135,25 +136,11 @@ export async function verifyCredential<T extends Record<string, unknown>>(
     return { verified: false, error: "No proofValue in credential proof" };
   }
 
-  // Create a copy of the credential without the proof for verification
-  const documentToVerify = { ...credential };
-  delete (documentToVerify as Record<string, unknown>).proof;
-
-  // Create canonical form for verification
-  const canonicalData = JSON.stringify(documentToVerify);
-  const dataToVerify = new TextEncoder().encode(canonicalData);
-
   // Prepare the public key
   let publicKeyBytes: Uint8Array;
   if (typeof publicKey === "string") {
     try {
-      // If the key starts with 'z', it's multibase format
-      if (publicKey.startsWith("z")) {
-        publicKeyBytes = base64url.decode(publicKey.substring(1));
-      } else {
-        // Otherwise, assume it's base64url
-        publicKeyBytes = base64url.decode(publicKey);
-      }
+      publicKeyBytes = decodeKey(publicKey);
     } catch (error) {
       return {
         verified: false,
@@ -165,11 +152,8 @@ export async function verifyCredential<T extends Record<string, unknown>>(
   }
 
   try {
-    // Decode the signature
-    const signature = base64url.decode(proof.proofValue);
-
-    // Verify the signature
-    const verified = await ed.verify(signature, dataToVerify, publicKeyBytes);
+    // Canonicalize and verify the signature
+    const verified = await verifyDataIntegrityProof(credential, publicKeyBytes);
 
     return { verified, results: { signatureVerification: verified } };
   } catch (error) {
@@ -0,0 +1,181 @@
+/**
+ * Data Integrity proofs using the eddsa-rdfc-2022 cryptosuite
+ * Based on the W3C Data Integrity EdDSA Cryptosuites v1.0 specification
+ *
+ * Documents are canonicalized with RDF Dataset Canonicalization (RDFC-1.0,
+ * formerly URDNA2015) and the signature covers the hash of the canonical
+ * proof configuration followed by the hash of the canonical document.
+ */
+import jsonld from "jsonld";
+import { sha256 } from "@noble/hashes/sha256";
+import { base58 } from "@scure/base";
+import ed from "@/utils/signing/noble-polyfill";
+import { decodeMultibase } from "@/utils/signing/key-generation";
+import { documentLoader } from "@/utils/jsonld/document-loader";
+import type { SignFunction } from "@/utils/signing/key-store";
+import { DataIntegrityProof } from "@/models/credential.model";
+import {
+  DATA_INTEGRITY_CONTEXT_URL,
+  VC_V2_CONTEXT_URL,
+} from "@/constants/context-urls";
+
+export const DATA_INTEGRITY_PROOF_TYPE = "DataIntegrityProof";
+export const EDDSA_RDFC_2022 = "eddsa-rdfc-2022";
+
+/**
+ * Media type of a verifiable credential secured with an embedded proof
+ */
+export const VC_LD_MEDIA_TYPE = "application/vc+ld+json";
+
+/**
+ * Contexts that already define the DataIntegrityProof terms
+ */
+const CONTEXTS_DEFINING_PROOF = [DATA_INTEGRITY_CONTEXT_URL, VC_V2_CONTEXT_URL];
+
+/**
+ * Options for creating a Data Integrity proof
+ */
+export interface DataIntegrityProofOptions {
+  verificationMethod: string;
+  proofPurpose?: string;
+  created?: string;
+}
+
+type JsonLdDocument = Record<string, unknown> & { "@context"?: unknown };
+
+/**
+ * Canonicalize a JSON-LD document to N-Quads using RDFC-1.0
+ * Runs in safe mode, so terms that are not defined by a context cause an
+ * error instead of being silently left out of the signature.
+ * @param document The JSON-LD document
+ * @returns The canonical N-Quads string
+ */
+export async function canonicalize(document: JsonLdDocument): Promise<string> {
+  return jsonld.canonize(document, {
+    algorithm: "URDNA2015",
+    format: "application/n-quads",
+    documentLoader,
+    safe: true,
+  });
+}
+
+/**
+ * Ensure a document's context defines the DataIntegrityProof terms
+ * VCDM 1.1 credentials need the Data Integrity context added explicitly.
+ * @param document The document to check
+ * @returns A copy of the document with the Data Integrity context if needed
+ */
+export function withDataIntegrityContext<T extends JsonLdDocument>(
+  document: T,
+): T {
+  const context = document["@context"];
+  const contexts = Array.isArray(context)
+    ? context
+    : context === undefined
+      ? []
+      : [context];
+
+  if (contexts.some((ctx) => CONTEXTS_DEFINING_PROOF.includes(ctx))) {
+    return document;
+  }
+
+  return {
+    ...document,
+    "@context": [...contexts, DATA_INTEGRITY_CONTEXT_URL],
+  };
+}
+
+/**
+ * Create the data that is signed for an eddsa-rdfc-2022 proof
+ * @param unsecuredDocument The document without a proof
+ * @param proofConfig The proof options without a proofValue
+ * @returns SHA-256(proof config) concatenated with SHA-256(document)
+ */
+export async function createVerifyData(
+  unsecuredDocument: JsonLdDocument,
+  proofConfig: Omit<DataIntegrityProof, "proofValue">,
+): Promise<Uint8Array> {
+  const canonicalProofConfig = await canonicalize({
+    ...proofConfig,
+    "@context": unsecuredDocument["@context"],
+  });
+  const canonicalDocument = await canonicalize(unsecuredDocument);
+
+  const proofConfigHash = sha256(
+    new TextEncoder().encode(canonicalProofConfig),
+  );
+  const documentHash = sha256(new TextEncoder().encode(canonicalDocument));
+
+  const verifyData = new Uint8Array(
+    proofConfigHash.length + documentHash.length,
+  );
+  verifyData.set(proofConfigHash);
+  verifyData.set(documentHash, proofConfigHash.length);
+  return verifyData;
+}
+
+/**
+ * Create an eddsa-rdfc-2022 Data Integrity proof for a document
+ * @param document The document to sign (any existing proof is ignored)
+ * @param privateKey The raw 32 byte Ed25519 private key, or a function that
+ * signs with a key held by a key store
+ * @param options Proof options
+ * @returns The proof to attach to the document
+ */
+export async function createDataIntegrityProof(
+  document: JsonLdDocument,
+  privateKey: Uint8Array | SignFunction,
+  options: DataIntegrityProofOptions,
+): Promise<DataIntegrityProof> {
+  const { proof: _existingProof, ...unsecuredDocument } = document;
+
+  const proofConfig: Omit<DataIntegrityProof, "proofValue"> = {
+    type: DATA_INTEGRITY_PROOF_TYPE,
+    cryptosuite: EDDSA_RDFC_2022,
+    created: options.created ?? new Date().toISOString(),
+    verificationMethod: options.verificationMethod,
+    proofPurpose: options.proofPurpose ?? "assertionMethod",
+  };
+
+  const verifyData = await createVerifyData(unsecuredDocument, proofConfig);
+  const signature =
+    typeof privateKey === "function"
+      ? await privateKey(verifyData)
+      : await ed.sign(verifyData, privateKey);
+
+  return {
+    ...proofConfig,
+    proofValue: `z${base58.encode(signature)}`,
+  };
+}
+
+/**
+ * Verify an eddsa-rdfc-2022 Data Integrity proof
+ * @param securedDocument The document including its proof
+ * @param publicKey The raw 32 byte Ed25519 public key
+ * @returns Whether the proof is valid for the document
+ */
+export async function verifyDataIntegrityProof(
+  securedDocument: JsonLdDocument,
+  publicKey: Uint8Array,
+): Promise<boolean> {
+  const { proof, ...unsecuredDocument } = securedDocument;
+  if (!proof || typeof proof !== "object") {
+    return false;
+  }
+
+  const { proofValue, ...proofConfig } = proof as DataIntegrityProof;
+  if (
+    proofConfig.type !== DATA_INTEGRITY_PROOF_TYPE ||
+    proofConfig.cryptosuite !== EDDSA_RDFC_2022 ||
+    typeof proofValue !== "string" ||
+    !proofValue.startsWith("z")
+  ) {
+    return false;
+  }
+
+  const signature = decodeMultibase(proofValue);
+  const verifyData = await createVerifyData(unsecuredDocument, proofConfig);
+
+  return ed.verify(signature, verifyData, publicKey);
+}
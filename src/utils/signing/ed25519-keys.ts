@@ -0,0 +1,56 @@
+/**
+ * Conversions between raw Ed25519 keys and platform KeyObjects
+ */
+import * as crypto from "crypto";
+
+// DER prefixes that wrap a raw 32 byte Ed25519 key as PKCS#8 and SPKI
+const ED25519_PKCS8_PREFIX = Buffer.from(
+  "302e020100300506032b657004220420",
+  "hex",
+);
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+/**
+ * Wrap a raw Ed25519 private key in a KeyObject
+ * @param privateKey The raw 32 byte private key
+ */
+export function toPrivateKeyObject(privateKey: Uint8Array): crypto.KeyObject {
+  return crypto.createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, privateKey]),
+    format: "der",
+    type: "pkcs8",
+  });
+}
+
+/**
+ * Wrap a raw Ed25519 public key in a KeyObject
+ * @param publicKey The raw 32 byte public key
+ */
+export function toPublicKeyObject(publicKey: Uint8Array): crypto.KeyObject {
+  return crypto.createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, publicKey]),
+    format: "der",
+    type: "spki",
+  });
+}
+
+/**
+ * Extract the raw 32 byte public key from an Ed25519 KeyObject
+ * @param key A public or private Ed25519 KeyObject
+ */
+export function toRawPublicKey(key: crypto.KeyObject): Uint8Array {
+  const publicKey = key.type === "private" ? crypto.createPublicKey(key) : key;
+  const jwk = publicKey.export({ format: "jwk" });
+  return new Uint8Array(Buffer.from(jwk.x as string, "base64url"));
+}
+
+/**
+ * Sign data with an Ed25519 KeyObject
+ * @returns The 64 byte signature
+ */
+export function signWithKeyObject(
+  key: crypto.KeyObject,
+  data: Uint8Array,
+): Uint8Array {
+  return new Uint8Array(crypto.sign(null, data, key));
+}
@@ -0,0 +1,177 @@
+/**
+ * Key store that keeps private keys in the database, envelope encrypted
+ *
+ * Every key is encrypted with its own random data key (AES-256-GCM), and the
+ * data key is encrypted with the master key from SIGNING_KEY_MASTER_KEY
+ * (32 bytes, base64). A database dump therefore contains no usable key
+ * material without the master key.
+ */
+import * as crypto from "crypto";
+import {
+  type GeneratedKey,
+  type KeyStore,
+  KeyStoreError,
+} from "@/utils/signing/key-store/types";
+import {
+  signWithKeyObject,
+  toPrivateKeyObject,
+  toRawPublicKey,
+} from "@/utils/signing/ed25519-keys";
+
+const REFERENCE_PREFIX = "enc:v1:";
+const CIPHER = "aes-256-gcm";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// Additional authenticated data binding each ciphertext to its purpose
+const DATA_KEY_AAD = Buffer.from("bun-badges:data-key:v1");
+const PRIVATE_KEY_AAD = Buffer.from("bun-badges:signing-key:v1");
+
+/**
+ * Stored form of an envelope encrypted key
+ */
+interface Envelope {
+  /** Fingerprint of the master key that wrapped the data key */
+  kek: string;
+  /** Data key sealed with the master key */
+  dek: string;
+  /** Private key sealed with the data key */
+  key: string;
+}
+
+function seal(key: Buffer, plaintext: Uint8Array, aad: Buffer): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(CIPHER, key, iv);
+  cipher.setAAD(aad);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]).toString(
+    "base64url",
+  );
+}
+
+function open(key: Buffer, sealed: string, aad: Buffer): Buffer {
+  const bytes = Buffer.from(sealed, "base64url");
+  const iv = bytes.subarray(0, IV_LENGTH);
+  const tag = bytes.subarray(bytes.length - TAG_LENGTH);
+  const ciphertext = bytes.subarray(IV_LENGTH, bytes.length - TAG_LENGTH);
+
+  const decipher = crypto.createDecipheriv(CIPHER, key, iv);
+  decipher.setAAD(aad);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Key store backed by envelope encrypted database rows
+ */
+export class DatabaseKeyStore implements KeyStore {
+  readonly name = "database" as const;
+  private readonly configuredMasterKey?: string;
+
+  /**
+   * @param masterKey Base64 encoded 32 byte master key (defaults to
+   * SIGNING_KEY_MASTER_KEY, read when first needed)
+   */
+  constructor(masterKey?: string) {
+    this.configuredMasterKey = masterKey;
+  }
+
+  private getMasterKey(): Buffer {
+    const encoded =
+      this.configuredMasterKey ?? process.env.SIGNING_KEY_MASTER_KEY;
+    if (!encoded) {
+      throw new KeyStoreError(
+        "SIGNING_KEY_MASTER_KEY must be set to use the database key store",
+      );
+    }
+
+    const masterKey = Buffer.from(encoded, "base64");
+    if (masterKey.length !== 32) {
+      throw new KeyStoreError(
+        "SIGNING_KEY_MASTER_KEY must be 32 bytes, base64 encoded",
+      );
+    }
+    return masterKey;
+  }
+
+  private fingerprint(masterKey: Buffer): string {
+    return crypto
+      .createHash("sha256")
+      .update(masterKey)
+      .digest("hex")
+      .slice(0, 16);
+  }
+
+  handles(reference: string): boolean {
+    return reference.startsWith(REFERENCE_PREFIX);
+  }
+
+  async generateKey(): Promise<GeneratedKey> {
+    const { privateKey } = crypto.generateKeyPairSync("ed25519");
+    const jwk = privateKey.export({ format: "jwk" });
+    const rawPrivateKey = Buffer.from(jwk.d as string, "base64url");
+
+    try {
+      return {
+        publicKey: toRawPublicKey(privateKey),
+        reference: await this.importKey(rawPrivateKey),
+      };
+    } finally {
+      rawPrivateKey.fill(0);
+    }
+  }
+
+  async importKey(privateKey: Uint8Array): Promise<string> {
+    const masterKey = this.getMasterKey();
+    const dataKey = crypto.randomBytes(32);
+
+    try {
+      const envelope: Envelope = {
+        kek: this.fingerprint(masterKey),
+        dek: seal(masterKey, dataKey, DATA_KEY_AAD),
+        key: seal(dataKey, privateKey, PRIVATE_KEY_AAD),
+      };
+      return (
+        REFERENCE_PREFIX +
+        Buffer.from(JSON.stringify(envelope)).toString("base64url")
+      );
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  async sign(reference: string, data: Uint8Array): Promise<Uint8Array> {
+    if (!this.handles(reference)) {
+      throw new KeyStoreError("Not a database key store reference");
+    }
+
+    const masterKey = this.getMasterKey();
+    const envelope = JSON.parse(
+      Buffer.from(
+        reference.slice(REFERENCE_PREFIX.length),
+        "base64url",
+      ).toString("utf8"),
+    ) as Envelope;
+    if (envelope.kek !== this.fingerprint(masterKey)) {
+      throw new KeyStoreError(
+        "Signing key was encrypted with a different master key",
+      );
+    }
+
+    let dataKey: Buffer | undefined;
+    let privateKey: Buffer | undefined;
+    try {
+      dataKey = open(masterKey, envelope.dek, DATA_KEY_AAD);
+      privateKey = open(dataKey, envelope.key, PRIVATE_KEY_AAD);
+      return signWithKeyObject(toPrivateKeyObject(privateKey), data);
+    } catch (error) {
+      if (error instanceof KeyStoreError) {
+        throw error;
+      }
+      throw new KeyStoreError("Failed to decrypt signing key");
+    } finally {
+      dataKey?.fill(0);
+      privateKey?.fill(0);
+    }
+  }
+}
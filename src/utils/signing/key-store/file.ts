@@ -0,0 +1,102 @@
+/**
+ * Key store that keeps private keys in a local keyring directory
+ *
+ * Each key is a PKCS#8 PEM file readable only by the server's user, in the
+ * directory named by SIGNING_KEYRING_DIR. The database only holds the
+ * `keyring:<id>` reference and the store only ever returns signatures.
+ */
+import * as crypto from "crypto";
+import { chmod, mkdir, readFile, writeFile } from "fs/promises";
+import { join, resolve } from "path";
+import {
+  type GeneratedKey,
+  type KeyStore,
+  KeyStoreError,
+} from "@/utils/signing/key-store/types";
+import {
+  signWithKeyObject,
+  toPrivateKeyObject,
+  toRawPublicKey,
+} from "@/utils/signing/ed25519-keys";
+import { isValidUuid } from "@/utils/validation";
+
+const REFERENCE_PREFIX = "keyring:";
+const DEFAULT_KEYRING_DIR = "./keyring";
+
+/**
+ * Key store backed by a directory of key files
+ */
+export class FileKeyStore implements KeyStore {
+  readonly name = "file" as const;
+  private readonly configuredDirectory?: string;
+
+  /**
+   * @param directory Keyring directory (defaults to SIGNING_KEYRING_DIR,
+   * then ./keyring)
+   */
+  constructor(directory?: string) {
+    this.configuredDirectory = directory;
+  }
+
+  private get directory(): string {
+    return resolve(
+      this.configuredDirectory ??
+        process.env.SIGNING_KEYRING_DIR ??
+        DEFAULT_KEYRING_DIR,
+    );
+  }
+
+  private keyPath(reference: string): string {
+    const id = reference.slice(REFERENCE_PREFIX.length);
+    if (!this.handles(reference) || !isValidUuid(id)) {
+      throw new KeyStoreError("Not a keyring reference");
+    }
+    return join(this.directory, `${id}.pem`);
+  }
+
+  private async store(privateKey: crypto.KeyObject): Promise<string> {
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+
+    const reference = `${REFERENCE_PREFIX}${crypto.randomUUID()}`;
+    const path = this.keyPath(reference);
+    await writeFile(
+      path,
+      privateKey.export({ format: "pem", type: "pkcs8" }) as string,
+      { mode: 0o600, flag: "wx" },
+    );
+    // The mode passed to writeFile is subject to the umask
+    await chmod(path, 0o600);
+
+    return reference;
+  }
+
+  handles(reference: string): boolean {
+    return reference.startsWith(REFERENCE_PREFIX);
+  }
+
+  async generateKey(): Promise<GeneratedKey> {
+    const { privateKey } = crypto.generateKeyPairSync("ed25519");
+    return {
+      publicKey: toRawPublicKey(privateKey),
+      reference: await this.store(privateKey),
+    };
+  }
+
+  async importKey(privateKey: Uint8Array): Promise<string> {
+    return this.store(toPrivateKeyObject(privateKey));
+  }
+
+  async sign(reference: string, data: Uint8Array): Promise<Uint8Array> {
+    let pem: string;
+    try {
+      pem = await readFile(this.keyPath(reference), "utf8");
+    } catch (error) {
+      if (error instanceof KeyStoreError) {
+        throw error;
+      }
+      throw new KeyStoreError(`Keyring entry ${reference} is not available`);
+    }
+
+    return signWithKeyObject(crypto.createPrivateKey(pem), data);
+  }
+}
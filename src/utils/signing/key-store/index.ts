@@ -0,0 +1,90 @@
+/**
+ * Registry of the available key stores
+ */
+import { DatabaseKeyStore } from "@/utils/signing/key-store/database";
+import { FileKeyStore } from "@/utils/signing/key-store/file";
+import { Pkcs11KeyStore } from "@/utils/signing/key-store/pkcs11";
+import {
+  type KeyStore,
+  type KeyStoreName,
+  type SignFunction,
+  KeyStoreError,
+} from "@/utils/signing/key-store/types";
+
+export * from "@/utils/signing/key-store/types";
+export { DatabaseKeyStore, FileKeyStore, Pkcs11KeyStore };
+
+const KEY_STORE_NAMES: KeyStoreName[] = ["database", "file", "pkcs11"];
+
+const keyStores = new Map<KeyStoreName, KeyStore>();
+
+/**
+ * Get a key store by name
+ * @param name The store name (defaults to SIGNING_KEY_STORE, then "database")
+ */
+export function getKeyStore(
+  name: string = process.env.SIGNING_KEY_STORE || "database",
+): KeyStore {
+  const existing = keyStores.get(name as KeyStoreName);
+  if (existing) {
+    return existing;
+  }
+
+  let store: KeyStore;
+  switch (name) {
+    case "database":
+      store = new DatabaseKeyStore();
+      break;
+    case "file":
+      store = new FileKeyStore();
+      break;
+    case "pkcs11":
+      store = new Pkcs11KeyStore();
+      break;
+    default:
+      throw new KeyStoreError(`Unknown key store: ${name}`);
+  }
+
+  keyStores.set(store.name, store);
+  return store;
+}
+
+/**
+ * Replace a key store, e.g. with one configured differently in tests
+ */
+export function registerKeyStore(store: KeyStore): void {
+  keyStores.set(store.name, store);
+}
+
+/**
+ * Find the store that produced a reference
+ * @throws KeyStoreError if no store recognises the reference, which is the
+ * case for private keys still stored in plaintext
+ */
+export function resolveKeyStore(reference: string): KeyStore {
+  const store = KEY_STORE_NAMES.map((name) => getKeyStore(name)).find(
+    (candidate) => candidate.handles(reference),
+  );
+  if (store) {
+    return store;
+  }
+
+  throw new KeyStoreError(
+    "Signing key is not held by a key store; run `bun run db:migrate:encrypt-keys`",
+  );
+}
+
+/**
+ * Whether a stored value is a key store reference rather than a raw key
+ */
+export function isKeyStoreReference(reference: string): boolean {
+  return KEY_STORE_NAMES.some((name) => getKeyStore(name).handles(reference));
+}
+
+/**
+ * Create a signer for a stored key
+ * @param reference The stored key reference
+ */
+export function createSigner(reference: string): SignFunction {
+  return (data) => resolveKeyStore(reference).sign(reference, data);
+}
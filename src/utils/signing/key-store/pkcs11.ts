@@ -0,0 +1,279 @@
+/**
+ * Key store that keeps private keys inside a PKCS#11 token
+ *
+ * Keys are generated on the token as non-extractable Ed25519 keys and every
+ * signature is computed by the token (CKM_EDDSA), so key material never
+ * enters the application's memory. Works with hardware HSMs and with SoftHSM
+ * for local testing.
+ *
+ * Configuration:
+ * - PKCS11_MODULE: path to the PKCS#11 library (e.g. /usr/lib/softhsm/libsofthsm2.so)
+ * - PKCS11_TOKEN_LABEL: label of the token holding the issuer keys
+ * - PKCS11_PIN: user PIN of the token
+ */
+import * as crypto from "crypto";
+import type * as pkcs11js from "pkcs11js";
+import {
+  type GeneratedKey,
+  type KeyStore,
+  KeyStoreError,
+} from "@/utils/signing/key-store/types";
+import { createLogger } from "@/utils/logger";
+
+const logger = createLogger("Pkcs11KeyStore");
+
+const REFERENCE_PREFIX = "pkcs11:";
+
+// PKCS#11 v3.0 Edwards curve constants, not yet exported by pkcs11js
+const CKK_EC_EDWARDS = 0x40;
+const CKM_EC_EDWARDS_KEY_PAIR_GEN = 0x1055;
+const CKM_EDDSA = 0x1057;
+
+// DER encoded OID 1.3.101.112 (id-Ed25519) used as CKA_EC_PARAMS
+const ED25519_EC_PARAMS = Buffer.from("06032b6570", "hex");
+
+const ED25519_SIGNATURE_LENGTH = 64;
+
+/**
+ * Connection settings for a PKCS#11 token
+ */
+export interface Pkcs11Options {
+  module: string;
+  tokenLabel: string;
+  pin: string;
+}
+
+interface Pkcs11Session {
+  lib: typeof pkcs11js;
+  pkcs11: pkcs11js.PKCS11;
+  handle: pkcs11js.Handle;
+}
+
+/**
+ * Extract the raw public key from a CKA_EC_POINT value
+ * Tokens return the point either raw or wrapped in a DER OCTET STRING.
+ */
+function decodeEcPoint(ecPoint: Buffer): Uint8Array {
+  if (ecPoint.length === 34 && ecPoint[0] === 0x04 && ecPoint[1] === 0x20) {
+    return new Uint8Array(ecPoint.subarray(2));
+  }
+  if (ecPoint.length === 32) {
+    return new Uint8Array(ecPoint);
+  }
+  throw new KeyStoreError("Token returned an unexpected Ed25519 public key");
+}
+
+/**
+ * Key store backed by a PKCS#11 token
+ */
+export class Pkcs11KeyStore implements KeyStore {
+  readonly name = "pkcs11" as const;
+  private readonly configuredOptions: Partial<Pkcs11Options>;
+  private session?: Promise<Pkcs11Session>;
+
+  /**
+   * @param options Token settings (default to the PKCS11_* environment
+   * variables, read when first needed)
+   */
+  constructor(options: Partial<Pkcs11Options> = {}) {
+    this.configuredOptions = options;
+  }
+
+  private getOptions(): Pkcs11Options {
+    const options = {
+      module: this.configuredOptions.module ?? process.env.PKCS11_MODULE,
+      tokenLabel:
+        this.configuredOptions.tokenLabel ?? process.env.PKCS11_TOKEN_LABEL,
+      pin: this.configuredOptions.pin ?? process.env.PKCS11_PIN,
+    };
+    if (!options.module || !options.tokenLabel || !options.pin) {
+      throw new KeyStoreError(
+        "PKCS11_MODULE, PKCS11_TOKEN_LABEL and PKCS11_PIN must be set to use the pkcs11 key store",
+      );
+    }
+    return options as Pkcs11Options;
+  }
+
+  /**
+   * Open a logged in session on the configured token, once per store
+   */
+  private getSession(): Promise<Pkcs11Session> {
+    if (!this.session) {
+      this.session = this.openSession().catch((error) => {
+        this.session = undefined;
+        throw error;
+      });
+    }
+    return this.session;
+  }
+
+  private async openSession(): Promise<Pkcs11Session> {
+    const options = this.getOptions();
+
+    let lib: typeof pkcs11js;
+    try {
+      lib = await import("pkcs11js");
+    } catch {
+      throw new KeyStoreError(
+        "The pkcs11js package is required to use the pkcs11 key store",
+      );
+    }
+
+    const pkcs11 = new lib.PKCS11();
+    pkcs11.load(options.module);
+    pkcs11.C_Initialize();
+
+    try {
+      const slot = pkcs11
+        .C_GetSlotList(true)
+        .find(
+          (candidate) =>
+            pkcs11.C_GetTokenInfo(candidate).label.trim() ===
+            options.tokenLabel,
+        );
+      if (!slot) {
+        throw new KeyStoreError(
+          `PKCS#11 token "${options.tokenLabel}" not found`,
+        );
+      }
+
+      const handle = pkcs11.C_OpenSession(
+        slot,
+        lib.CKF_SERIAL_SESSION | lib.CKF_RW_SESSION,
+      );
+      try {
+        pkcs11.C_Login(handle, lib.CKU_USER, options.pin);
+      } catch (error) {
+        if (
+          !(error instanceof lib.Pkcs11Error) ||
+          error.code !== lib.CKR_USER_ALREADY_LOGGED_IN
+        ) {
+          throw error;
+        }
+      }
+
+      logger.info(`Opened session on PKCS#11 token "${options.tokenLabel}"`);
+      return { lib, pkcs11, handle };
+    } catch (error) {
+      pkcs11.C_Finalize();
+      throw error;
+    }
+  }
+
+  private toReference(id: Buffer): string {
+    return `${REFERENCE_PREFIX}${id.toString("hex")}`;
+  }
+
+  private toObjectId(reference: string): Buffer {
+    const id = reference.slice(REFERENCE_PREFIX.length);
+    if (!this.handles(reference) || !/^[0-9a-f]{2,128}$/.test(id)) {
+      throw new KeyStoreError("Not a PKCS#11 reference");
+    }
+    return Buffer.from(id, "hex");
+  }
+
+  private privateKeyTemplate(
+    lib: typeof pkcs11js,
+    id: Buffer,
+  ): pkcs11js.Template {
+    return [
+      { type: lib.CKA_ID, value: id },
+      { type: lib.CKA_LABEL, value: `bun-badges-${id.toString("hex")}` },
+      { type: lib.CKA_TOKEN, value: true },
+      { type: lib.CKA_PRIVATE, value: true },
+      { type: lib.CKA_SENSITIVE, value: true },
+      { type: lib.CKA_EXTRACTABLE, value: false },
+      { type: lib.CKA_SIGN, value: true },
+    ];
+  }
+
+  handles(reference: string): boolean {
+    return reference.startsWith(REFERENCE_PREFIX);
+  }
+
+  async generateKey(): Promise<GeneratedKey> {
+    const { lib, pkcs11, handle } = await this.getSession();
+    const id = crypto.randomBytes(16);
+
+    const keys = pkcs11.C_GenerateKeyPair(
+      handle,
+      { mechanism: CKM_EC_EDWARDS_KEY_PAIR_GEN },
+      [
+        { type: lib.CKA_ID, value: id },
+        { type: lib.CKA_TOKEN, value: true },
+        { type: lib.CKA_VERIFY, value: true },
+        { type: lib.CKA_EC_PARAMS, value: ED25519_EC_PARAMS },
+      ],
+      this.privateKeyTemplate(lib, id),
+    );
+
+    const [ecPoint] = pkcs11.C_GetAttributeValue(handle, keys.publicKey, [
+      { type: lib.CKA_EC_POINT },
+    ]);
+
+    return {
+      publicKey: decodeEcPoint(ecPoint.value),
+      reference: this.toReference(id),
+    };
+  }
+
+  async importKey(privateKey: Uint8Array): Promise<string> {
+    const { lib, pkcs11, handle } = await this.getSession();
+    const id = crypto.randomBytes(16);
+
+    pkcs11.C_CreateObject(handle, [
+      { type: lib.CKA_CLASS, value: lib.CKO_PRIVATE_KEY },
+      { type: lib.CKA_KEY_TYPE, value: CKK_EC_EDWARDS },
+      { type: lib.CKA_EC_PARAMS, value: ED25519_EC_PARAMS },
+      { type: lib.CKA_VALUE, value: Buffer.from(privateKey) },
+      ...this.privateKeyTemplate(lib, id),
+    ]);
+
+    return this.toReference(id);
+  }
+
+  async sign(reference: string, data: Uint8Array): Promise<Uint8Array> {
+    const id = this.toObjectId(reference);
+    const { lib, pkcs11, handle } = await this.getSession();
+
+    pkcs11.C_FindObjectsInit(handle, [
+      { type: lib.CKA_CLASS, value: lib.CKO_PRIVATE_KEY },
+      { type: lib.CKA_ID, value: id },
+    ]);
+    let key: pkcs11js.Handle | null;
+    try {
+      key = pkcs11.C_FindObjects(handle);
+    } finally {
+      pkcs11.C_FindObjectsFinal(handle);
+    }
+    if (!key) {
+      throw new KeyStoreError(`PKCS#11 key ${reference} is not available`);
+    }
+
+    pkcs11.C_SignInit(handle, { mechanism: CKM_EDDSA }, key);
+    const signature = pkcs11.C_Sign(
+      handle,
+      Buffer.from(data),
+      Buffer.alloc(ED25519_SIGNATURE_LENGTH),
+    );
+    return new Uint8Array(signature);
+  }
+
+  /**
+   * Log out and release the token
+   */
+  async close(): Promise<void> {
+    if (!this.session) {
+      return;
+    }
+
+    const { pkcs11, handle } = await this.session;
+    this.session = undefined;
+    try {
+      pkcs11.C_Logout(handle);
+      pkcs11.C_CloseSession(handle);
+    } finally {
+      pkcs11.C_Finalize();
+    }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Key custody for issuer signing keys
+ *
+ * Private keys never leave a KeyStore. The `signing_keys` table only holds an
+ * opaque reference (an encrypted envelope, a keyring entry, ...) and all
+ * signing goes through KeyStore.sign. The store used for new keys is chosen
+ * with SIGNING_KEY_STORE; existing keys are always signed with the store that
+ * produced their reference.
+ */
+
+/**
+ * Signs data with a key the caller cannot see
+ */
+export type SignFunction = (data: Uint8Array) => Promise<Uint8Array>;
+
+/**
+ * Names of the available key stores
+ */
+export type KeyStoreName = "database" | "file" | "pkcs11";
+
+/**
+ * A key generated inside a store
+ */
+export interface GeneratedKey {
+  /** Raw 32 byte Ed25519 public key */
+  publicKey: Uint8Array;
+  /** Opaque reference to store in signing_keys.private_key_multibase */
+  reference: string;
+}
+
+/**
+ * Custody of Ed25519 private keys
+ */
+export interface KeyStore {
+  readonly name: KeyStoreName;
+
+  /**
+   * Whether a stored reference was produced by this store
+   */
+  handles(reference: string): boolean;
+
+  /**
+   * Generate a new Ed25519 key inside the store
+   */
+  generateKey(): Promise<GeneratedKey>;
+
+  /**
+   * Take custody of an existing raw private key
+   * Only used to migrate keys that were stored in plaintext.
+   * @returns The reference to store in place of the raw key
+   */
+  importKey(privateKey: Uint8Array): Promise<string>;
+
+  /**
+   * Sign data with a stored key
+   * @param reference The reference returned by generateKey or importKey
+   * @param data The bytes to sign
+   * @returns The 64 byte Ed25519 signature
+   */
+  sign(reference: string, data: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * Error raised when a key store cannot serve a request
+ */
+export class KeyStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
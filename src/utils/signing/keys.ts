@@ -1,18 +1,32 @@
 import { base58 } from "@scure/base";
-import { eq } from "drizzle-orm";
+import { and, desc, eq, sql } from "drizzle-orm";
 import { DatabaseService } from "@/services/db.service";
-import { signingKeys } from "@/db/schema/signing";
+import {
+  signingKeys,
+  type SigningKey,
+  type SigningKeyStatus,
+} from "@/db/schema/signing";
 import { type IssuerProfile } from "@/models/issuer.model";
-import * as ed from "@noble/ed25519";
+import {
+  createSigner,
+  getKeyStore,
+  type SignFunction,
+} from "@/utils/signing/key-store";
 import { toJsonb } from "@/utils/db-helpers";
 
 const db = DatabaseService.db;
 
+// The database or an open transaction
+type DbExecutor =
+  | typeof db
+  | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 type PublicKey = NonNullable<IssuerProfile["publicKey"]>[number];
 type PublicKeyJwk = NonNullable<PublicKey["publicKeyJwk"]>;
 
 export interface StoredKeyPair {
   publicKeyMultibase: string;
+  /** Key store reference; the raw private key is never stored */
   privateKeyMultibase: string;
   controller: string;
   type: "Ed25519VerificationKey2020";
@@ -21,16 +35,54 @@ export interface StoredKeyPair {
 
 export interface CryptoKeyPair {
   publicKey: Uint8Array;
-  privateKey: Uint8Array;
+  /** Signs with the private key held by the key store */
+  sign: SignFunction;
+  /** Key store reference of the private key */
+  privateKeyReference: string;
   controller: string;
   type: "Ed25519VerificationKey2020";
   keyInfo: PublicKey;
 }
 
+/**
+ * A stored signing key together with its lifecycle metadata
+ */
+export interface SigningKeyRecord extends CryptoKeyPair {
+  keyId: string;
+  issuerId: string;
+  status: SigningKeyStatus;
+  validFrom: Date;
+  validUntil: Date | null;
+  compromisedAt: Date | null;
+  revocationReason: string | null;
+}
+
+/**
+ * Result of checking whether a key may have produced a signature
+ */
+export interface KeyValidityResult {
+  valid: boolean;
+  reason?: string;
+}
+
 function encodeMultibase(key: Uint8Array): string {
   return "z" + base58.encode(key);
 }
 
+/**
+ * Encode an Ed25519 public key in Multikey form (multicodec prefixed,
+ * base58btc multibase), as used by did:key and Multikey verification methods
+ * @param publicKey The raw 32 byte Ed25519 public key
+ * @returns The publicKeyMultibase value
+ */
+export function encodeMultikey(publicKey: Uint8Array): string {
+  const multicodecPrefix = new Uint8Array([0xed, 0x01]); // Ed25519 multicodec prefix
+  const bytes = new Uint8Array(multicodecPrefix.length + publicKey.length);
+  bytes.set(multicodecPrefix);
+  bytes.set(publicKey, multicodecPrefix.length);
+  return encodeMultibase(bytes);
+}
+
 function encodeBase64Url(buffer: Uint8Array): string {
   return btoa(String.fromCharCode(...buffer))
     .replace(/\+/g, "-")
@@ -39,27 +91,15 @@ function encodeBase64Url(buffer: Uint8Array): string {
 }
 
 /**
- * Generates a new Ed25519 keypair for an issuer
- * @param issuerId - UUID of the issuer
- * @param skipStorage - Skip storing in the database (for tests)
- * @returns The generated keypair
+ * Create a new keypair in the key store and its public key description
  */
-export async function generateSigningKey(
-  issuerId: string,
-  skipStorage: boolean = false,
-): Promise<CryptoKeyPair> {
-  // Generate Ed25519 key pair
-  const privateKey = ed.utils.randomPrivateKey();
-  const publicKey = await ed.getPublicKey(privateKey);
+async function createKeyMaterial(): Promise<CryptoKeyPair> {
+  // Generate the Ed25519 key pair inside the configured key store
+  const { publicKey, reference } = await getKeyStore().generateKey();
 
   // Create DID key identifier
-  const multicodecPrefix = new Uint8Array([0xed, 0x01]); // Ed25519 multicodec prefix
-  const didKeyBytes = new Uint8Array(
-    multicodecPrefix.length + publicKey.length,
-  );
-  didKeyBytes.set(multicodecPrefix);
-  didKeyBytes.set(publicKey, multicodecPrefix.length);
-  const didKey = `did:key:${encodeMultibase(didKeyBytes)}`;
+  const publicKeyMultikey = encodeMultikey(publicKey);
+  const didKey = `did:key:${publicKeyMultikey}`;
 
   // Create JWK representation
   const publicKeyJwk: PublicKeyJwk = {
@@ -70,70 +110,302 @@ export async function generateSigningKey(
 
   // Create public key object
   const keyInfo: PublicKey = {
-    id: `${didKey}#key-1`,
+    // did:key verification methods use the multibase key as their fragment
+    id: `${didKey}#${publicKeyMultikey}`,
     type: "Ed25519VerificationKey2020",
     controller: didKey,
     publicKeyJwk,
   };
 
-  if (!skipStorage) {
-    // Store the keypair in the database
-    const storedKeyPair: StoredKeyPair = {
-      publicKeyMultibase: encodeMultibase(publicKey),
-      privateKeyMultibase: encodeMultibase(privateKey),
-      controller: didKey,
-      type: "Ed25519VerificationKey2020",
-      keyInfo,
-    };
+  return {
+    publicKey,
+    sign: createSigner(reference),
+    privateKeyReference: reference,
+    controller: didKey,
+    type: "Ed25519VerificationKey2020",
+    keyInfo,
+  };
+}
 
-    await db.insert(signingKeys).values({
+/**
+ * Store a keypair as the active key of an issuer
+ */
+async function storeSigningKey(
+  executor: DbExecutor,
+  issuerId: string,
+  keyPair: CryptoKeyPair,
+): Promise<SigningKey> {
+  const now = new Date();
+  const storedKeyPair: StoredKeyPair = {
+    publicKeyMultibase: encodeMultibase(keyPair.publicKey),
+    privateKeyMultibase: keyPair.privateKeyReference,
+    controller: keyPair.controller,
+    type: keyPair.type,
+    keyInfo: keyPair.keyInfo,
+  };
+
+  const [row] = await executor
+    .insert(signingKeys)
+    .values({
       issuerId,
       publicKeyMultibase: storedKeyPair.publicKeyMultibase,
       privateKeyMultibase: storedKeyPair.privateKeyMultibase,
       controller: storedKeyPair.controller,
       type: storedKeyPair.type,
       keyInfo: toJsonb(storedKeyPair.keyInfo),
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    });
-  }
+      status: "active",
+      validFrom: now,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+
+  return row;
+}
 
+/**
+ * Import a stored key row
+ */
+function toSigningKeyRecord(key: SigningKey): SigningKeyRecord {
   return {
-    publicKey,
-    privateKey,
-    controller: didKey,
+    keyId: key.keyId,
+    issuerId: key.issuerId,
+    publicKey: base58.decode(key.publicKeyMultibase.slice(1)),
+    sign: createSigner(key.privateKeyMultibase),
+    privateKeyReference: key.privateKeyMultibase,
+    controller: key.controller,
     type: "Ed25519VerificationKey2020",
-    keyInfo,
+    keyInfo: key.keyInfo as PublicKey,
+    status: key.status as SigningKeyStatus,
+    validFrom: key.validFrom,
+    validUntil: key.validUntil,
+    compromisedAt: key.compromisedAt,
+    revocationReason: key.revocationReason,
   };
 }
 
 /**
- * Retrieves a signing key for an issuer
+ * Generates a new Ed25519 keypair for an issuer
+ * The key becomes the issuer's active key; use rotateSigningKey when the
+ * issuer already has one.
+ * @param issuerId - UUID of the issuer
+ * @param skipStorage - Skip storing in the database (for tests)
+ * @returns The generated keypair
+ */
+export async function generateSigningKey(
+  issuerId: string,
+  skipStorage: boolean = false,
+): Promise<CryptoKeyPair> {
+  const keyPair = await createKeyMaterial();
+
+  if (!skipStorage) {
+    await storeSigningKey(db, issuerId, keyPair);
+  }
+
+  return keyPair;
+}
+
+/**
+ * Retrieves the active signing key for an issuer
  * @param issuerId - UUID of the issuer
  * @returns The keypair if found, null otherwise
  */
 export async function getSigningKey(
   issuerId: string,
-): Promise<CryptoKeyPair | null> {
+): Promise<SigningKeyRecord | null> {
   const [key] = await db
     .select()
     .from(signingKeys)
-    .where(eq(signingKeys.issuerId, issuerId))
+    .where(
+      and(eq(signingKeys.issuerId, issuerId), eq(signingKeys.status, "active")),
+    )
+    .limit(1);
+
+  return key ? toSigningKeyRecord(key) : null;
+}
+
+/**
+ * Retrieves the key a proof was made with
+ * @param verificationMethod - Verification method ID from the proof or JWT kid
+ * @returns The key in any state if found, null otherwise
+ */
+export async function getSigningKeyByVerificationMethod(
+  verificationMethod: string,
+): Promise<SigningKeyRecord | null> {
+  const [key] = await db
+    .select()
+    .from(signingKeys)
+    .where(sql`${signingKeys.keyInfo}->>'id' = ${verificationMethod}`)
     .limit(1);
 
-  if (!key) {
+  return key ? toSigningKeyRecord(key) : null;
+}
+
+/**
+ * Lists every key an issuer has had, newest first
+ * @param issuerId - UUID of the issuer
+ */
+export async function listSigningKeys(
+  issuerId: string,
+): Promise<SigningKeyRecord[]> {
+  const keys = await db
+    .select()
+    .from(signingKeys)
+    .where(eq(signingKeys.issuerId, issuerId))
+    .orderBy(desc(signingKeys.validFrom));
+
+  return keys.map(toSigningKeyRecord);
+}
+
+/**
+ * Retire an issuer's active key (if any) and make a new key active
+ * Both steps run in one transaction so the issuer always has exactly one
+ * active key.
+ * @param issuerId - UUID of the issuer
+ * @returns The new active key
+ */
+export async function rotateSigningKey(
+  issuerId: string,
+): Promise<SigningKeyRecord> {
+  const keyPair = await createKeyMaterial();
+
+  const row = await db.transaction(async (tx) => {
+    const now = new Date();
+    await tx
+      .update(signingKeys)
+      .set({ status: "retired", validUntil: now, updatedAt: now })
+      .where(
+        and(
+          eq(signingKeys.issuerId, issuerId),
+          eq(signingKeys.status, "active"),
+        ),
+      );
+
+    return storeSigningKey(tx, issuerId, keyPair);
+  });
+
+  return toSigningKeyRecord(row);
+}
+
+/**
+ * Mark an issuer's key as compromised
+ * Signatures made at or after the compromise date are no longer accepted.
+ * When the active key is revoked a replacement key is generated in the same
+ * transaction.
+ * @param issuerId - UUID of the issuer
+ * @param keyId - ID of the key to revoke
+ * @param options.compromisedAt - When the key was compromised (defaults to now)
+ * @param options.reason - Free text reason kept with the key
+ * @returns The revoked key and its replacement, or null if the issuer has no such key
+ */
+export async function revokeSigningKey(
+  issuerId: string,
+  keyId: string,
+  options: { compromisedAt?: Date; reason?: string } = {},
+): Promise<{
+  revoked: SigningKeyRecord;
+  replacement: SigningKeyRecord | null;
+} | null> {
+  const findKey = (executor: DbExecutor) =>
+    executor
+      .select()
+      .from(signingKeys)
+      .where(
+        and(eq(signingKeys.keyId, keyId), eq(signingKeys.issuerId, issuerId)),
+      )
+      .limit(1);
+
+  const [existing] = await findKey(db);
+  if (!existing) {
     return null;
   }
 
-  // Import the stored keys
-  const publicKey = base58.decode(key.publicKeyMultibase.slice(1));
-  const privateKey = base58.decode(key.privateKeyMultibase.slice(1));
+  // Key stores may keep material outside the database, so a replacement is
+  // only generated when it will be stored
+  const keyPair =
+    existing.status === "active" ? await createKeyMaterial() : null;
+
+  const result = await db.transaction(async (tx) => {
+    const [key] = await findKey(tx).for("update");
+    if (!key) {
+      return null;
+    }
+
+    const now = new Date();
+    const compromisedAt = options.compromisedAt ?? now;
+    const [revoked] = await tx
+      .update(signingKeys)
+      .set({
+        status: "compromised",
+        compromisedAt,
+        validUntil:
+          key.validUntil && key.validUntil < compromisedAt
+            ? key.validUntil
+            : compromisedAt,
+        revocationReason: options.reason ?? null,
+        updatedAt: now,
+      })
+      .where(eq(signingKeys.keyId, keyId))
+      .returning();
+
+    const replacement =
+      key.status === "active" && keyPair
+        ? await storeSigningKey(tx, issuerId, keyPair)
+        : null;
+
+    return { revoked, replacement };
+  });
+
+  if (!result) {
+    return null;
+  }
 
   return {
-    publicKey,
-    privateKey,
-    controller: key.controller,
-    type: "Ed25519VerificationKey2020",
-    keyInfo: key.keyInfo as PublicKey,
+    revoked: toSigningKeyRecord(result.revoked),
+    replacement: result.replacement
+      ? toSigningKeyRecord(result.replacement)
+      : null,
   };
 }
+
+/**
+ * Check whether a key was allowed to sign at the given time
+ * Retired keys keep verifying signatures made inside their validity window;
+ * compromised keys reject anything signed at or after the compromise date.
+ * @param key - The key the signature was made with
+ * @param signedAt - When the signature was made (proof created or JWT iat)
+ */
+export function checkKeyValidity(
+  key: Pick<
+    SigningKeyRecord,
+    "status" | "validFrom" | "validUntil" | "compromisedAt"
+  >,
+  signedAt: Date,
+): KeyValidityResult {
+  if (Number.isNaN(signedAt.getTime())) {
+    return { valid: false, reason: "Signature time is missing or invalid" };
+  }
+
+  if (key.compromisedAt && signedAt >= key.compromisedAt) {
+    return {
+      valid: false,
+      reason: `Signing key was compromised on ${key.compromisedAt.toISOString()}`,
+    };
+  }
+
+  if (signedAt < key.validFrom) {
+    return {
+      valid: false,
+      reason: `Signature predates the signing key (valid from ${key.validFrom.toISOString()})`,
+    };
+  }
+
+  if (key.validUntil && signedAt > key.validUntil) {
+    return {
+      valid: false,
+      reason: `Signing key was ${key.status} on ${key.validUntil.toISOString()}`,
+    };
+  }
+
+  return { valid: true };
+}
@@ -1,52 +1,150 @@
 /**
  * Status List 2021 utilities for Open Badges 3.0
- * Based on the W3C Status List 2021 specification
+ * Based on the W3C Status List 2021 and Bitstring Status List v1.0
+ * specifications
+ *
+ * A status list is a bitstring in which bit 0 is the most significant bit of
+ * the first byte. It is GZIP compressed and base64url encoded (without
+ * padding); Bitstring Status List v1.0 additionally prefixes the result with
+ * the multibase code "u".
  */
+import { gunzipSync, gzipSync } from "zlib";
 
 // For efficiently handling bit operations in status lists
 import BitSet from "../bitset";
 
+/**
+ * Minimum number of entries of a status list (16KB)
+ * Lists this large hide which credential a verifier is checking.
+ */
+export const MIN_STATUS_LIST_SIZE = 131072;
+
+/**
+ * Encodings of the encodedList property
+ * - StatusList2021: GZIP + base64url
+ * - BitstringStatusList: GZIP + base64url multibase ("u" prefix)
+ */
+export type StatusListEncoding = "StatusList2021" | "BitstringStatusList";
+
+// Multibase prefix of base64url without padding
+const MULTIBASE_BASE64URL = "u";
+
+// First bytes of every GZIP stream
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+// Upper bound for a decompressed list, guards against GZIP bombs
+const MAX_DECOMPRESSED_SIZE = 16 * 1024 * 1024;
+
+function isGzip(bytes: Uint8Array): boolean {
+  return bytes[0] === GZIP_MAGIC[0] && bytes[1] === GZIP_MAGIC[1];
+}
+
+function decodeBase64Url(value: string): Uint8Array {
+  // Tolerate the standard alphabet and padding some implementations emit
+  const normalized = value
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+  return new Uint8Array(Buffer.from(normalized, "base64url"));
+}
+
+/**
+ * Detect the encoding of an encoded list
+ */
+export function getStatusListEncoding(encoded: string): StatusListEncoding {
+  return encoded.startsWith(MULTIBASE_BASE64URL)
+    ? "BitstringStatusList"
+    : "StatusList2021";
+}
+
 /**
  * Create a new bitstring for a status list credential
- * @param size The size of the bitstring (number of credentials that can be tracked)
- * @returns Base64 encoded bitstring
+ * @param size The number of credentials that can be tracked; raised to
+ * MIN_STATUS_LIST_SIZE if smaller
+ * @param encoding The encoding required by the status list type
+ * @returns The compressed, encoded bitstring with all bits cleared
  */
-export function createEncodedBitString(size: number = 16384): string {
+export function createEncodedBitString(
+  size: number = MIN_STATUS_LIST_SIZE,
+  encoding: StatusListEncoding = "StatusList2021",
+): string {
   // Create a BitSet of the specified size with all bits set to 0 (not revoked)
-  const bitSet = new BitSet(size);
-  return encodeBitString(bitSet);
+  const bitSet = new BitSet(Math.max(size, MIN_STATUS_LIST_SIZE));
+  return encodeBitString(bitSet, encoding);
 }
 
 /**
- * Encode a BitSet as a Base64 string for use in status list credentials
+ * Compress and encode a BitSet for use in status list credentials
  * @param bitSet BitSet representing status
- * @returns Base64 encoded bitstring
+ * @param encoding The encoding required by the status list type
+ * @returns The encodedList value
  */
-export function encodeBitString(bitSet: BitSet): string {
-  // BitSet.toString() returns a binary string representation
-  const bitString = bitSet.toString();
+export function encodeBitString(
+  bitSet: BitSet,
+  encoding: StatusListEncoding = "StatusList2021",
+): string {
+  const compressed = gzipSync(bitSet.toBytes());
+  const encoded = Buffer.from(compressed).toString("base64url");
+  return encoding === "BitstringStatusList"
+    ? `${MULTIBASE_BASE64URL}${encoded}`
+    : encoded;
+}
 
-  // Convert binary string to a buffer
-  const buffer = Buffer.from(bitString);
+/**
+ * Decode an encodedList value of either encoding into a BitSet
+ * @param encoded The encodedList value
+ * @returns BitSet object
+ * @throws Error if the value is not a GZIP compressed bitstring
+ */
+export function decodeBitString(encoded: string): BitSet {
+  const base64url =
+    getStatusListEncoding(encoded) === "BitstringStatusList"
+      ? encoded.slice(MULTIBASE_BASE64URL.length)
+      : encoded;
+
+  const compressed = decodeBase64Url(base64url);
+  if (!isGzip(compressed)) {
+    throw new Error("Status list is not GZIP compressed");
+  }
 
-  // Encode as Base64
-  return buffer.toString("base64");
+  const bytes = gunzipSync(compressed, {
+    maxOutputLength: MAX_DECOMPRESSED_SIZE,
+  });
+  return BitSet.fromBytes(new Uint8Array(bytes));
 }
 
 /**
- * Decode a Base64 string into a BitSet
- * @param encoded Base64 encoded bitstring
+ * Check whether an encodedList uses the uncompressed format written by
+ * earlier versions (base64 of a string of "0"/"1" characters)
+ */
+export function isLegacyBitString(encoded: string): boolean {
+  try {
+    return !isGzip(
+      decodeBase64Url(
+        getStatusListEncoding(encoded) === "BitstringStatusList"
+          ? encoded.slice(MULTIBASE_BASE64URL.length)
+          : encoded,
+      ),
+    );
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Decode a list in the uncompressed format written by earlier versions
+ * Only needed to migrate stored lists.
+ * @param encoded Base64 encoded string of "0"/"1" characters
  * @returns BitSet object
  */
-export function decodeBitString(encoded: string): BitSet {
-  // Decode Base64 to get the binary representation
-  const buffer = Buffer.from(encoded, "base64");
-  const bitString = buffer.toString();
+export function decodeLegacyBitString(encoded: string): BitSet {
+  const bitString = Buffer.from(encoded, "base64").toString();
+  if (!/^[01]*$/.test(bitString)) {
+    throw new Error("Not a legacy status list");
+  }
 
-  // Create a new empty BitSet
+  // The string lists the highest index first
   const bitSet = new BitSet(bitString.length);
-
-  // Set bits based on the string
   for (let i = 0; i < bitString.length; i++) {
     if (bitString[i] === "1") {
       bitSet.set(bitString.length - i - 1);
@@ -58,33 +156,42 @@ export function decodeBitString(encoded: string): BitSet {
 
 /**
  * Set a credential's status in the list (revoked or not revoked)
- * @param encodedList Base64 encoded bitstring
- * @param index Index of the credential in the list
+ * @param encodedList The encodedList value
+ * @param index Index of the credential in the list, or indices of several
  * @param revoked Whether the credential is revoked
- * @returns Updated Base64 encoded bitstring
+ * @returns The updated encodedList, in the encoding of the input
+ * @throws RangeError if an index is outside the list
  */
 export function updateCredentialStatus(
   encodedList: string,
-  index: number,
+  index: number | number[],
   revoked: boolean,
 ): string {
   const bitSet = decodeBitString(encodedList);
+  const indices = Array.isArray(index) ? index : [index];
+  for (const i of indices) {
+    if (!Number.isInteger(i) || i < 0 || i >= bitSet.size) {
+      throw new RangeError(`Status list index ${i} is out of range`);
+    }
+  }
 
-  // Set the bit at the specified index to the revoked status
+  // Set the bits at the specified indices to the revoked status
   // In status lists, 1 = revoked, 0 = not revoked
-  if (revoked) {
-    bitSet.set(index);
-  } else {
-    // Use clear() method to unset a specific bit
-    bitSet.clear(index);
+  for (const i of indices) {
+    if (revoked) {
+      bitSet.set(i);
+    } else {
+      // Use clear() method to unset a specific bit
+      bitSet.clear(i);
+    }
   }
 
-  return encodeBitString(bitSet);
+  return encodeBitString(bitSet, getStatusListEncoding(encodedList));
 }
 
 /**
  * Check if a credential is revoked in the status list
- * @param encodedList Base64 encoded bitstring
+ * @param encodedList The encodedList value
  * @param index Index of the credential in the list
  * @returns Whether the credential is revoked
  */
@@ -154,7 +261,7 @@ export function createStatusListCredential(
   issuer: string | object,
   id: string,
   purpose: "revocation" | "suspension" = "revocation",
-  size: number = 16384,
+  size: number = MIN_STATUS_LIST_SIZE,
 ): StatusList2021Credential {
   return {
     "@context": [
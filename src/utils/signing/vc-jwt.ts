@@ -0,0 +1,202 @@
+/**
+ * VC-JWT securing mechanism for Open Badges 3.0 credentials
+ * Based on the JWT encoding described in section 6.3.1 of the VC Data Model
+ * v1.1 and the Open Badges 3.0 "JSON Web Token Proof Format"
+ *
+ * The credential (without an embedded proof) is carried in the `vc` claim of
+ * a compact JWS signed with the issuer's Ed25519 key (alg EdDSA).
+ */
+import * as jose from "jose";
+import type { SignFunction } from "@/utils/signing/key-store";
+import {
+  signWithKeyObject,
+  toPrivateKeyObject,
+  toPublicKeyObject,
+} from "@/utils/signing/ed25519-keys";
+
+/**
+ * Media type of a JWT encoded verifiable credential
+ */
+export const VC_JWT_MEDIA_TYPE = "application/vc+jwt";
+
+/**
+ * JOSE algorithm used for Ed25519 signatures
+ */
+export const VC_JWT_ALGORITHM = "EdDSA";
+
+type CredentialDocument = Record<string, unknown> & {
+  id?: string;
+  issuer?: string | { id: string; [key: string]: unknown };
+  issuanceDate?: string;
+  validFrom?: string;
+  expirationDate?: string;
+  validUntil?: string;
+  credentialSubject?: { id?: string; [key: string]: unknown };
+};
+
+/**
+ * Claims of a VC-JWT
+ */
+export interface CredentialJwtPayload extends jose.JWTPayload {
+  vc: CredentialDocument;
+}
+
+/**
+ * A decoded (not yet verified) VC-JWT
+ */
+export interface DecodedCredentialJwt {
+  header: jose.ProtectedHeaderParameters;
+  payload: CredentialJwtPayload;
+  credential: CredentialDocument;
+}
+
+function getIssuerId(credential: CredentialDocument): string | undefined {
+  return typeof credential.issuer === "string"
+    ? credential.issuer
+    : credential.issuer?.id;
+}
+
+function toNumericDate(date: string | undefined): number | undefined {
+  if (!date) {
+    return undefined;
+  }
+  const time = new Date(date).getTime();
+  return Number.isNaN(time) ? undefined : Math.floor(time / 1000);
+}
+
+/**
+ * Check whether a value looks like a compact JWS
+ * @param value The value to check
+ * @returns True if the value has three base64url segments
+ */
+export function isCompactJwt(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/.test(value)
+  );
+}
+
+/**
+ * Encode a credential as a VC-JWT
+ * @param credential The unsigned credential (any proof is removed)
+ * @param privateKey The raw 32 byte Ed25519 private key, or a function that
+ * signs with a key held by a key store
+ * @param kid The verification method ID of the signing key
+ * @returns The compact JWS
+ */
+export async function encodeCredentialJwt(
+  credential: CredentialDocument,
+  privateKey: Uint8Array | SignFunction,
+  kid: string,
+): Promise<string> {
+  const { proof: _proof, ...vc } = credential;
+
+  const payload: CredentialJwtPayload = { vc };
+  const issuerId = getIssuerId(vc);
+  if (issuerId) {
+    payload.iss = issuerId;
+  }
+  if (vc.id) {
+    payload.jti = vc.id;
+  }
+  if (vc.credentialSubject?.id) {
+    payload.sub = vc.credentialSubject.id;
+  }
+  const nbf = toNumericDate(vc.validFrom ?? vc.issuanceDate);
+  if (nbf !== undefined) {
+    payload.nbf = nbf;
+  }
+  const exp = toNumericDate(vc.validUntil ?? vc.expirationDate);
+  if (exp !== undefined) {
+    payload.exp = exp;
+  }
+
+  payload.iat = Math.floor(Date.now() / 1000);
+
+  const sign: SignFunction =
+    typeof privateKey === "function"
+      ? privateKey
+      : async (data) => signWithKeyObject(toPrivateKeyObject(privateKey), data);
+
+  const signingInput = [{ alg: VC_JWT_ALGORITHM, typ: "JWT", kid }, payload]
+    .map((part) => Buffer.from(JSON.stringify(part)).toString("base64url"))
+    .join(".");
+  const signature = await sign(new TextEncoder().encode(signingInput));
+
+  return `${signingInput}.${Buffer.from(signature).toString("base64url")}`;
+}
+
+/**
+ * Decode a VC-JWT without verifying its signature
+ * Registered claims are mapped back onto the credential where the `vc`
+ * claim omits them.
+ * @param jwt The compact JWS
+ * @returns The protected header, the claims and the credential
+ * @throws Error if the token is not a VC-JWT
+ */
+export function decodeCredentialJwt(jwt: string): DecodedCredentialJwt {
+  const header = jose.decodeProtectedHeader(jwt);
+  const payload = jose.decodeJwt(jwt) as CredentialJwtPayload;
+
+  if (!payload.vc || typeof payload.vc !== "object") {
+    throw new Error("JWT does not contain a vc claim");
+  }
+
+  const credential: CredentialDocument = { ...payload.vc };
+  if (!credential.id && payload.jti) {
+    credential.id = payload.jti;
+  }
+  if (!credential.issuer && payload.iss) {
+    credential.issuer = payload.iss;
+  }
+  if (!credential.issuanceDate && !credential.validFrom && payload.nbf) {
+    credential.issuanceDate = new Date(payload.nbf * 1000).toISOString();
+  }
+  if (!credential.expirationDate && !credential.validUntil && payload.exp) {
+    credential.expirationDate = new Date(payload.exp * 1000).toISOString();
+  }
+  if (credential.credentialSubject && payload.sub) {
+    credential.credentialSubject = {
+      ...credential.credentialSubject,
+      id: credential.credentialSubject.id ?? payload.sub,
+    };
+  }
+
+  return { header, payload, credential };
+}
+
+/**
+ * Verify the signature of a VC-JWT and the consistency of its claims
+ * Time based claims (nbf/exp) are not checked here; callers report
+ * expiration separately.
+ * @param jwt The compact JWS
+ * @param publicKey The raw 32 byte Ed25519 public key
+ * @returns True if the signature is valid and the claims match the credential
+ */
+export async function verifyCredentialJwt(
+  jwt: string,
+  publicKey: Uint8Array,
+): Promise<boolean> {
+  try {
+    await jose.compactVerify(jwt, toPublicKeyObject(publicKey), {
+      algorithms: [VC_JWT_ALGORITHM],
+    });
+  } catch {
+    return false;
+  }
+
+  const { payload } = decodeCredentialJwt(jwt);
+  const issuerId = getIssuerId(payload.vc);
+  if (payload.iss && issuerId && payload.iss !== issuerId) {
+    return false;
+  }
+  if (payload.jti && payload.vc.id && payload.jti !== payload.vc.id) {
+    return false;
+  }
+  const subjectId = payload.vc.credentialSubject?.id;
+  if (payload.sub && subjectId && payload.sub !== subjectId) {
+    return false;
+  }
+
+  return true;
+}
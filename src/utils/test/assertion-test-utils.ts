@@ -310,31 +310,38 @@ export function mockAssertionController() {
   });
 
   // Mock the database
-  mock.module("@/db/config", () => {
-    return {
-      db: {
-        select: () => ({
-          from: () => ({
-            where: () => ({
-              limit: () => Promise.resolve([mockAssertion]),
-            }),
-          }),
+  const mockDb = {
+    select: () => ({
+      from: () => ({
+        where: () => ({
+          limit: () => Promise.resolve([mockAssertion]),
         }),
-        insert: () => ({
-          values: () => ({
-            returning: () =>
-              Promise.resolve([{ assertionId: crypto.randomUUID() }]),
-            execute: () => Promise.resolve(),
-          }),
+        // Status list indices, of which the assertion has none
+        innerJoin: () => ({
+          where: () => Promise.resolve([]),
         }),
-        update: () => ({
-          set: () => ({
-            where: () => ({
-              returning: () => Promise.resolve([mockAssertion]),
-            }),
-          }),
+      }),
+    }),
+    insert: () => ({
+      values: () => ({
+        returning: () =>
+          Promise.resolve([{ assertionId: crypto.randomUUID() }]),
+        execute: () => Promise.resolve(),
+      }),
+    }),
+    update: () => ({
+      set: () => ({
+        where: () => ({
+          returning: () => Promise.resolve([mockAssertion]),
         }),
-      },
+      }),
+    }),
+    // Transactions run on the same mock
+    transaction: <T>(callback: (tx: unknown) => Promise<T>) => callback(mockDb),
+  };
+  mock.module("@/db/config", () => {
+    return {
+      db: mockDb,
     };
   });
 
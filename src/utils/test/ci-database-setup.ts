@@ -186,6 +186,11 @@ export async function setupDatabaseSchema(pool: Pool): Promise<void> {
         "key_info" jsonb NOT NULL,
         "revoked" boolean DEFAULT false NOT NULL,
         "revoked_at" timestamp,
+        "status" text DEFAULT 'active' NOT NULL,
+        "valid_from" timestamp DEFAULT now() NOT NULL,
+        "valid_until" timestamp,
+        "compromised_at" timestamp,
+        "revocation_reason" text,
         "created_at" timestamp DEFAULT now() NOT NULL,
         "updated_at" timestamp DEFAULT now() NOT NULL,
         
@@ -235,6 +235,7 @@ export async function clearTestData() {
           await client.query("SET session_replication_role = 'replica'");
 
           // Delete data in a specific order to avoid constraint violations
+          await client.query("DELETE FROM assertion_status_events");
           await client.query("DELETE FROM badge_assertions");
           await client.query("DELETE FROM badge_classes");
           await client.query("DELETE FROM signing_keys");
@@ -273,6 +274,7 @@ export async function clearTestData() {
       await dbPool.query("SET session_replication_role = 'replica'");
 
       // Delete data from each table in reverse dependency order
+      await dbPool.query("DELETE FROM assertion_status_events");
       await dbPool.query("DELETE FROM badge_assertions");
       await dbPool.query("DELETE FROM badge_classes");
       // Delete signing_keys before issuer_profiles to avoid foreign key constraint violations
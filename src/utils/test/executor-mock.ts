@@ -0,0 +1,26 @@
+import type { DbExecutor } from "@/services/status-list.service";
+
+/**
+ * Creates a database executor that records inserted rows
+ *
+ * Inserts return the inserted values as the stored rows. Updates fail the
+ * test, so services writing through it must only insert.
+ */
+export function createInsertRecorder(): {
+  inserted: Record<string, unknown>[];
+  executor: DbExecutor;
+} {
+  const inserted: Record<string, unknown>[] = [];
+  const executor = {
+    insert: () => ({
+      values: (values: Record<string, unknown>) => {
+        inserted.push(values);
+        return { returning: async () => [values] };
+      },
+    }),
+    update: () => {
+      throw new Error("Unexpected update");
+    },
+  };
+  return { inserted, executor: executor as unknown as DbExecutor };
+}
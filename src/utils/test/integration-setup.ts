@@ -244,6 +244,11 @@ beforeAll(async () => {
             "key_info" jsonb NOT NULL,
             "revoked" boolean DEFAULT false NOT NULL,
             "revoked_at" timestamp,
+            "status" text DEFAULT 'active' NOT NULL,
+            "valid_from" timestamp DEFAULT now() NOT NULL,
+            "valid_until" timestamp,
+            "compromised_at" timestamp,
+            "revocation_reason" text,
             "created_at" timestamp DEFAULT now() NOT NULL,
             "updated_at" timestamp DEFAULT now() NOT NULL
           );
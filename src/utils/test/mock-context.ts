@@ -145,6 +145,17 @@ export function createMockContext({
       body: content,
       headers: { "Content-Type": "text/plain" },
     }),
+    // Helper for raw body responses
+    body: (
+      content: string,
+      status: StatusCode = 200,
+      headers: Record<string, string> = {},
+    ) => ({
+      status,
+      body: content,
+      headers,
+      text: () => Promise.resolve(content),
+    }),
     // Set response header helper
     header: (name: string, value: string) => {
       const headers = { [name]: value };
@@ -135,6 +135,7 @@ const pgColumnTypes = {
   integer: () => createChainableMock(),
   serial: () => createChainableMock(),
   numeric: () => createChainableMock(),
+  doublePrecision: () => createChainableMock(),
   date: () => createChainableMock(),
   time: () => createChainableMock(),
   PgArray: () => createChainableMock(),
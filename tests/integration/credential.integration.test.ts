@@ -218,11 +218,11 @@ describe("Credential Service Integration Tests", () => {
 
       // Verify key properties
       expect(key).toBeDefined();
-      expect(key.privateKey).toBeDefined();
+      expect(key.sign).toBeDefined();
       expect(key.publicKey).toBeDefined();
 
       // Ensure the key matches our test key or is a valid new key
-      const privateKeyExists = key.privateKey.length > 0;
+      const privateKeyExists = key.privateKeyReference.length > 0;
       const publicKeyExists = key.publicKey.length > 0;
 
       expect(privateKeyExists).toBe(true);
@@ -143,7 +143,7 @@ describe("CredentialService Integration Tests", () => {
       expect(achievementResult).toBeDefined();
       expect(achievementResult.id).toEqual(`${hostUrl}/badges/${badgeId}`);
       expect(achievementResult.name).toEqual("Achievement Test Badge");
-      expect(achievementResult.type).toContain("AchievementCredential");
+      expect(achievementResult.type).toContain("Achievement");
     } catch (error) {
       console.error("Error in achievement test:", error);
       throw error;
@@ -0,0 +1,204 @@
+import {
+  expect,
+  test,
+  describe,
+  beforeAll,
+  beforeEach,
+  afterEach,
+} from "bun:test";
+import { Hono } from "hono";
+import { sign } from "hono/jwt";
+import { eq } from "drizzle-orm";
+import crypto from "crypto";
+import { db } from "@/db/config";
+import {
+  assertionStatusEvents,
+  badgeAssertions,
+  badgeClasses,
+  issuerProfiles,
+  users,
+} from "@/db/schema";
+import { Role } from "@/middleware/auth";
+import assertions from "@/routes/assertions.routes";
+import { executeSql } from "@/utils/test/integration-setup";
+
+describe("Assertion status routes", () => {
+  const baseUrl = "http://example.org";
+  let app: Hono;
+  let ownerId: string;
+  let assertionId: string;
+
+  /**
+   * Create an access token as the routes' auth middleware expects it
+   */
+  async function createAccessToken(userId: string, roles: Role[]) {
+    return sign(
+      {
+        sub: userId,
+        roles,
+        exp: Math.floor(Date.now() / 1000) + 3600,
+      },
+      process.env.JWT_SECRET || "",
+    );
+  }
+
+  function post(path: string, body: unknown, token?: string) {
+    return app.fetch(
+      new Request(`${baseUrl}${path}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify(body),
+      }),
+    );
+  }
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = process.env.JWT_SECRET || "test-secret";
+  });
+
+  beforeEach(async () => {
+    ownerId = crypto.randomUUID();
+    const issuerId = crypto.randomUUID();
+    const badgeId = crypto.randomUUID();
+    assertionId = crypto.randomUUID();
+
+    await db.insert(users).values({
+      userId: ownerId,
+      email: `owner-${ownerId}@example.com`,
+      name: "Issuer Owner",
+    });
+    await db.insert(issuerProfiles).values({
+      issuerId,
+      name: "Test Issuer",
+      url: "https://example.com",
+      ownerUserId: ownerId,
+      issuerJson: {
+        "@context": "https://w3id.org/openbadges/v2",
+        type: "Issuer",
+        id: `${baseUrl}/issuers/${issuerId}`,
+        name: "Test Issuer",
+        url: "https://example.com",
+      },
+    });
+    await db.insert(badgeClasses).values({
+      badgeId,
+      issuerId,
+      name: "Test Badge",
+      description: "Test badge description",
+      imageUrl: "https://example.com/badge.png",
+      criteria: "Test criteria",
+      badgeJson: {
+        "@context": "https://w3id.org/openbadges/v2",
+        type: "BadgeClass",
+        id: `${baseUrl}/badges/${badgeId}`,
+        name: "Test Badge",
+        issuer: `${baseUrl}/issuers/${issuerId}`,
+      },
+    });
+    await db.insert(badgeAssertions).values({
+      assertionId,
+      badgeId,
+      issuerId,
+      recipientIdentity: "recipient@example.com",
+      recipientType: "email",
+      recipientHashed: false,
+      issuedOn: new Date(),
+      assertionJson: {
+        "@context": "https://w3id.org/openbadges/v2",
+        type: "Assertion",
+        id: `${baseUrl}/assertions/${assertionId}`,
+        recipient: {
+          identity: "recipient@example.com",
+          type: "email",
+          hashed: false,
+        },
+        badge: `${baseUrl}/badges/${badgeId}`,
+        issuedOn: new Date().toISOString(),
+        verification: { type: "HostedBadge" },
+      },
+      revoked: false,
+    });
+
+    // Mounted like in the application, with its own auth middleware
+    app = new Hono();
+    app.route("/api", assertions);
+  });
+
+  afterEach(async () => {
+    await executeSql("DELETE FROM assertion_status_events");
+    await executeSql("DELETE FROM status_list_indices");
+    await executeSql("DELETE FROM status_lists");
+    await executeSql("DELETE FROM badge_assertions");
+    await executeSql("DELETE FROM badge_class_versions");
+    await executeSql("DELETE FROM badge_classes");
+    await executeSql("DELETE FROM signing_keys");
+    await executeSql("DELETE FROM issuer_profiles");
+    await executeSql("DELETE FROM users");
+  });
+
+  test("should reject a revocation without an access token", async () => {
+    const res = await post(`/api/assertions/${assertionId}/revoke`, {
+      reason: "Issued in error",
+    });
+
+    expect(res.status).toBe(401);
+  });
+
+  test("should reject a revocation by a user who does not own the issuer", async () => {
+    const token = await createAccessToken(crypto.randomUUID(), [
+      Role.ISSUER_OWNER,
+    ]);
+
+    const res = await post(
+      `/api/assertions/${assertionId}/revoke`,
+      { reason: "Issued in error" },
+      token,
+    );
+
+    expect(res.status).toBe(403);
+  });
+
+  test("should reject reading the status history of another issuer's assertion", async () => {
+    const token = await createAccessToken(crypto.randomUUID(), [
+      Role.ISSUER_VIEWER,
+    ]);
+
+    const res = await app.fetch(
+      new Request(`${baseUrl}/api/assertions/${assertionId}/status-history`, {
+        headers: { Authorization: `Bearer ${token}` },
+      }),
+    );
+
+    expect(res.status).toBe(403);
+  });
+
+  test("should record who revoked and suspended an assertion", async () => {
+    const token = await createAccessToken(ownerId, [Role.ISSUER_OWNER]);
+
+    const suspended = await post(
+      `/api/assertions/${assertionId}/suspend`,
+      { reason: "Under investigation" },
+      token,
+    );
+    expect(suspended.status).toBe(200);
+
+    const revoked = await post(
+      `/api/assertions/${assertionId}/revoke`,
+      { reason: "Issued in error" },
+      token,
+    );
+    expect(revoked.status).toBe(200);
+
+    const events = await db
+      .select()
+      .from(assertionStatusEvents)
+      .where(eq(assertionStatusEvents.assertionId, assertionId));
+    expect(events).toHaveLength(2);
+    for (const event of events) {
+      expect(event.changedBy).toBe(ownerId);
+    }
+  });
+});
@@ -221,6 +221,7 @@ mock.module("drizzle-orm/pg-core", () => {
     text: createColumn("text"),
     boolean: createColumn("boolean"),
     integer: createColumn("integer"),
+    doublePrecision: createColumn("doublePrecision"),
     serial: createColumn("serial"),
     eq: (a: any, b: any) => ({ operator: "=", left: a, right: b }),
     and: (...conditions: any[]) => ({ operator: "AND", conditions }),
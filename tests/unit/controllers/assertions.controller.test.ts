@@ -0,0 +1,140 @@
+import { describe, it, expect } from "bun:test";
+import { AssertionController } from "../../../src/controllers/assertions.controller";
+import { createMockContext } from "../../../src/utils/test/mock-context";
+
+describe("AssertionController suspension", () => {
+  const controller = new AssertionController();
+
+  it("should return 404 when suspending an invalid assertion ID", async () => {
+    const ctx = createMockContext({
+      params: { id: "not-a-uuid" },
+      body: { reason: "Under investigation" },
+    });
+
+    const response = await controller.suspendAssertion(ctx);
+    const data = (await response.json()) as {
+      error: { code: string };
+    };
+
+    expect(response.status).toBe(404);
+    expect(data.error.code).toBe("NOT_FOUND");
+  });
+
+  it("should return 404 when unsuspending without a body", async () => {
+    const ctx = createMockContext({ params: { id: "not-a-uuid" } });
+
+    const response = await controller.unsuspendAssertion(ctx);
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("AssertionController batch revocation", () => {
+  const controller = new AssertionController();
+  const issuerId = "123e4567-e89b-12d3-a456-426614174009";
+
+  it("should require an issuer ID", async () => {
+    const ctx = createMockContext({
+      body: {
+        reason: "Issued in error",
+        assertionIds: ["123e4567-e89b-12d3-a456-426614174000"],
+      },
+    });
+
+    const response = await controller.revokeAssertionsBatch(ctx);
+    const data = (await response.json()) as {
+      error: { code: string; message: string };
+    };
+
+    expect(response.status).toBe(400);
+    expect(data.error.message).toContain("issuerId");
+  });
+
+  it("should require a reason", async () => {
+    const ctx = createMockContext({
+      body: {
+        issuerId,
+        assertionIds: ["123e4567-e89b-12d3-a456-426614174000"],
+      },
+    });
+
+    const response = await controller.revokeAssertionsBatch(ctx);
+    const data = (await response.json()) as {
+      error: { code: string };
+    };
+
+    expect(response.status).toBe(400);
+    expect(data.error.code).toBe("VALIDATION");
+  });
+
+  it("should reject both IDs and a filter", async () => {
+    const ctx = createMockContext({
+      body: {
+        issuerId,
+        reason: "Issued in error",
+        assertionIds: ["123e4567-e89b-12d3-a456-426614174000"],
+        badgeId: "123e4567-e89b-12d3-a456-426614174001",
+      },
+    });
+
+    const response = await controller.revokeAssertionsBatch(ctx);
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should reject an invalid issuedOn range", async () => {
+    const ctx = createMockContext({
+      body: { issuerId, reason: "Issued in error", issuedFrom: "yesterday" },
+    });
+
+    const response = await controller.revokeAssertionsBatch(ctx);
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("AssertionController status history", () => {
+  const controller = new AssertionController();
+
+  it("should return 404 for an invalid assertion ID", async () => {
+    const ctx = createMockContext({ params: { id: "not-a-uuid" } });
+
+    const response = await controller.getStatusHistory(ctx);
+    const data = (await response.json()) as {
+      error: { code: string };
+    };
+
+    expect(response.status).toBe(404);
+    expect(data.error.code).toBe("NOT_FOUND");
+  });
+});
+
+describe("AssertionController expiring assertions", () => {
+  const controller = new AssertionController();
+
+  it("should reject an expiringWithin value that is not a duration", async () => {
+    const ctx = createMockContext({ query: { expiringWithin: "30 days" } });
+
+    const response = await controller.listAssertions(ctx);
+    const data = (await response.json()) as {
+      error: { code: string };
+    };
+
+    expect(response.status).toBe(400);
+    expect(data.error.code).toBe("VALIDATION");
+  });
+
+  it("should reject an expiringWithin duration past the range of dates", async () => {
+    const ctx = createMockContext({
+      query: { expiringWithin: "P999999999999Y" },
+    });
+
+    const response = await controller.listAssertions(ctx);
+    const data = (await response.json()) as {
+      error: { code: string };
+    };
+
+    expect(response.status).toBe(400);
+    expect(data.error.code).toBe("VALIDATION");
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "bun:test";
+import { SigningKeyController } from "../../../src/controllers/signing-key.controller";
+import { createMockContext } from "../../../src/utils/test/mock-context";
+
+const ISSUER_ID = "550e8400-e29b-41d4-a716-446655440001";
+const KEY_ID = "550e8400-e29b-41d4-a716-446655440002";
+
+describe("SigningKeyController", () => {
+  const controller = new SigningKeyController();
+
+  it("should return 404 for an invalid issuer ID", async () => {
+    const ctx = createMockContext({ params: { id: "not-a-uuid" } });
+
+    const response = await controller.rotateKey(ctx);
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 404 for the JWK Set of an invalid issuer ID", async () => {
+    const ctx = createMockContext({ params: { id: "not-a-uuid" } });
+
+    const response = await controller.getJwks(ctx);
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 404 for an invalid key ID", async () => {
+    const ctx = createMockContext({
+      params: { id: ISSUER_ID, keyId: "not-a-uuid" },
+    });
+
+    const response = await controller.revokeKey(ctx);
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should reject an unparseable compromise date", async () => {
+    const ctx = createMockContext({
+      params: { id: ISSUER_ID, keyId: KEY_ID },
+      body: { compromisedAt: "yesterday" },
+    });
+
+    const response = await controller.revokeKey(ctx);
+    const data = (await response.json()) as {
+      error: { code: string; message: string };
+    };
+
+    expect(response.status).toBe(400);
+    expect(data.error.code).toBe("VALIDATION");
+  });
+
+  it("should reject a compromise date in the future", async () => {
+    const ctx = createMockContext({
+      params: { id: ISSUER_ID, keyId: KEY_ID },
+      body: {
+        compromisedAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      },
+    });
+
+    const response = await controller.revokeKey(ctx);
+    const data = (await response.json()) as {
+      error: { code: string; message: string };
+    };
+
+    expect(response.status).toBe(400);
+    expect(data.error.message).toContain("future");
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "bun:test";
+import { VerificationController } from "../../../src/controllers/verification.controller";
+import { createMockContext } from "../../../src/utils/test/mock-context";
+import { hashRecipientIdentity } from "../../../src/utils/recipient-identity";
+
+describe("VerificationController status list verification", () => {
+  const controller = new VerificationController();
+
+  it("should return 404 for an invalid status list ID", async () => {
+    const ctx = createMockContext({ params: { statusListId: "not-a-uuid" } });
+
+    const response = await controller.verifyStatusList(ctx);
+    const data = (await response.json()) as {
+      error: { code: string };
+    };
+
+    expect(response.status).toBe(404);
+    expect(data.error.code).toBe("NOT_FOUND");
+  });
+
+  it("should require a status list ID or URL", async () => {
+    const ctx = createMockContext();
+
+    const response = await controller.verifyStatusList(ctx);
+    const data = (await response.json()) as {
+      error: { code: string };
+    };
+
+    expect(response.status).toBe(400);
+    expect(data.error.code).toBe("VALIDATION_ERROR");
+  });
+
+  it("should reject negative indices", async () => {
+    const ctx = createMockContext({
+      query: { url: "https://example.com/status/1", indices: "1,-2" },
+    });
+
+    const response = await controller.verifyStatusList(ctx);
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("VerificationController recipient verification", () => {
+  const controller = new VerificationController();
+  const assertion = {
+    "@context": "https://w3id.org/openbadges/v2",
+    type: "Assertion",
+    id: "https://example.com/assertions/1",
+    recipient: {
+      type: "email",
+      identity: hashRecipientIdentity("alice@example.com", "email", "s4lt"),
+      hashed: true,
+      salt: "s4lt",
+    },
+    badge: "https://example.com/badges/1",
+    issuedOn: "2024-01-01T00:00:00Z",
+  };
+
+  it("should match the recipient of a hashed assertion", async () => {
+    const ctx = createMockContext({
+      body: { credential: assertion, identity: "Alice@example.com" },
+    });
+
+    const response = await controller.verifyRecipient(ctx);
+    const data = (await response.json()) as {
+      data: { matches: boolean; hashed: boolean; identityType: string };
+    };
+
+    expect(response.status).toBe(200);
+    expect(data.data).toMatchObject({
+      matches: true,
+      hashed: true,
+      identityType: "email",
+    });
+  });
+
+  it("should not match another identity", async () => {
+    const ctx = createMockContext({
+      body: { credential: assertion, identity: "bob@example.com" },
+    });
+
+    const response = await controller.verifyRecipient(ctx);
+    const data = (await response.json()) as { data: { matches: boolean } };
+
+    expect(data.data.matches).toBe(false);
+  });
+
+  it("should require an identity", async () => {
+    const ctx = createMockContext({ body: { credential: assertion } });
+
+    const response = await controller.verifyRecipient(ctx);
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "bun:test";
+import {
+  constructAchievementDetails,
+  parseAchievementDetails,
+} from "../../../src/models/achievement.model";
+import {
+  canonicalize,
+  withDataIntegrityContext,
+} from "../../../src/utils/signing/data-integrity";
+import { OB3_CREDENTIAL_CONTEXT } from "../../../src/constants/context-urls";
+
+const details = {
+  achievementType: "Course",
+  alignment: [
+    {
+      targetName: "Programming",
+      targetUrl: "https://example.com/frameworks/programming",
+      targetType: "CFItem",
+    },
+  ],
+  resultDescription: [
+    {
+      id: "https://example.com/badges/1/results/grade",
+      name: "Final grade",
+      resultType: "RubricCriterionLevel",
+      requiredLevel: "https://example.com/badges/1/levels/pass",
+      rubricCriterionLevel: [
+        {
+          id: "https://example.com/badges/1/levels/pass",
+          name: "Pass",
+          points: "50",
+        },
+      ],
+    },
+  ],
+  tag: ["programming", "typescript"],
+  creditsAvailable: 2.5,
+  fieldOfStudy: "Computer Science",
+  specialization: "Web Development",
+  humanCode: "CS-101",
+  inLanguage: "en-US",
+  version: "1.0",
+  related: [
+    {
+      id: "https://example.com/badges/2",
+      inLanguage: "de-DE",
+      version: "1.0",
+    },
+  ],
+};
+
+describe("Achievement details", () => {
+  it("should accept the OB3 Achievement properties and type nested objects", () => {
+    const result = parseAchievementDetails(details);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.alignment?.[0].type).toEqual(["Alignment"]);
+    expect(result.data.resultDescription?.[0].type).toEqual([
+      "ResultDescription",
+    ]);
+    expect(result.data.related?.[0].type).toEqual(["Related"]);
+    expect(result.data.creditsAvailable).toBe(2.5);
+  });
+
+  it("should leave out properties that are not in the request", () => {
+    const result = parseAchievementDetails({ name: "Badge", tag: null });
+
+    expect(result).toEqual({ success: true, data: { tag: null } });
+  });
+
+  it("should reject values outside the OB3 vocabularies", () => {
+    const invalidType = parseAchievementDetails({ achievementType: "Trophy" });
+    expect(invalidType.success).toBe(false);
+    expect(
+      parseAchievementDetails({ achievementType: "ext:Trophy" }).success,
+    ).toBe(true);
+
+    const invalidLanguage = parseAchievementDetails({ inLanguage: "english" });
+    expect(invalidLanguage).toMatchObject({
+      success: false,
+      error: expect.stringContaining("inLanguage"),
+    });
+  });
+
+  it("should require requiredLevel to be one of the rubric levels", () => {
+    const result = parseAchievementDetails({
+      resultDescription: [
+        {
+          ...details.resultDescription[0],
+          requiredLevel: "https://example.com/badges/1/levels/distinction",
+        },
+      ],
+    });
+
+    expect(result).toMatchObject({
+      success: false,
+      error: expect.stringContaining("requiredLevel"),
+    });
+  });
+
+  it("should only use terms defined by the OB3 context", async () => {
+    const parsed = parseAchievementDetails(details);
+    if (!parsed.success) throw new Error(parsed.error);
+
+    const credential = withDataIntegrityContext({
+      "@context": OB3_CREDENTIAL_CONTEXT,
+      id: "urn:uuid:6c2ab9b4-3a8c-4a5e-8a3a-6f1f7e0c2d11",
+      type: ["VerifiableCredential", "OpenBadgeCredential"],
+      issuer: { id: "https://example.com/issuers/1", type: "Profile" },
+      issuanceDate: "2024-01-01T00:00:00Z",
+      credentialSubject: {
+        id: "did:example:recipient123",
+        type: ["AchievementSubject"],
+        achievement: {
+          id: "https://example.com/badges/1",
+          type: ["Achievement"],
+          name: "Test Achievement",
+          criteria: { narrative: "Complete the test" },
+          ...constructAchievementDetails({
+            ...parsed.data,
+            specialization: null,
+          }),
+        },
+      },
+    });
+
+    const canonical = await canonicalize(credential);
+    expect(canonical).toContain('"CS-101"');
+    expect(canonical).not.toContain("Web Development");
+  });
+});
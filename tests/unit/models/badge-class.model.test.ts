@@ -0,0 +1,32 @@
+import { describe, it, expect } from "bun:test";
+import {
+  canChangeBadgeClassStatus,
+  parseBadgeClassStatusFilter,
+} from "../../../src/models/badge-class.model";
+
+describe("Badge class lifecycle", () => {
+  it("should allow retiring and reactivating a badge class", () => {
+    expect(canChangeBadgeClassStatus("draft", "active")).toBe(true);
+    expect(canChangeBadgeClassStatus("active", "retired")).toBe(true);
+    expect(canChangeBadgeClassStatus("retired", "active")).toBe(true);
+  });
+
+  it("should only restore archived badge classes as retired", () => {
+    expect(canChangeBadgeClassStatus("archived", "retired")).toBe(true);
+    expect(canChangeBadgeClassStatus("archived", "active")).toBe(false);
+    expect(canChangeBadgeClassStatus("active", "draft")).toBe(false);
+  });
+
+  it("should list all but archived badge classes by default", () => {
+    expect(parseBadgeClassStatusFilter(undefined)).toEqual([
+      "draft",
+      "active",
+      "retired",
+    ]);
+    expect(parseBadgeClassStatusFilter("archived, retired")).toEqual([
+      "archived",
+      "retired",
+    ]);
+    expect(parseBadgeClassStatusFilter("deleted")).toBeNull();
+  });
+});
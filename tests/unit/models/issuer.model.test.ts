@@ -0,0 +1,54 @@
+import { describe, it, expect } from "bun:test";
+import {
+  constructIssuerJsonLd,
+  constructRevocationList,
+  getRevocationListUrl,
+} from "../../../src/models/issuer.model";
+
+const HOST_URL = "https://example.com";
+const ISSUER_ID = "123e4567-e89b-12d3-a456-426614174000";
+
+describe("OB2 revocation list", () => {
+  it("should reference the revocation list from the issuer profile", () => {
+    const profile = constructIssuerJsonLd(HOST_URL, ISSUER_ID, {
+      name: "Test Issuer",
+      url: "https://example.com",
+    });
+
+    expect(profile.revocationList).toBe(
+      `${HOST_URL}/api/issuers/${ISSUER_ID}/revocations`,
+    );
+  });
+
+  it("should list revoked assertions by their OB2 IDs", () => {
+    const list = constructRevocationList(
+      HOST_URL,
+      ISSUER_ID,
+      getRevocationListUrl(HOST_URL, ISSUER_ID),
+      [
+        {
+          assertionId: "123e4567-e89b-12d3-a456-426614174001",
+          revocationReason: "Issued in error",
+        },
+        {
+          assertionId: "123e4567-e89b-12d3-a456-426614174002",
+          revocationReason: null,
+        },
+      ],
+    );
+
+    expect(list.type).toBe("RevocationList");
+    expect(list.issuer).toBe(`${HOST_URL}/issuers/${ISSUER_ID}`);
+    expect(list.revokedAssertions).toEqual([
+      {
+        id: `${HOST_URL}/assertions/123e4567-e89b-12d3-a456-426614174001`,
+        uid: "123e4567-e89b-12d3-a456-426614174001",
+        revocationReason: "Issued in error",
+      },
+      {
+        id: `${HOST_URL}/assertions/123e4567-e89b-12d3-a456-426614174002`,
+        uid: "123e4567-e89b-12d3-a456-426614174002",
+      },
+    ]);
+  });
+});
@@ -373,13 +373,14 @@ describe("Badge Endpoints", () => {
   });
 
   describe("DELETE /badges/:id", () => {
-    it("should delete a badge", async () => {
-      // Mock app to return a successful badge deletion response
+    it("should archive a badge", async () => {
+      // Mock app to return a successful badge archival response
       mockApp.fetch = mock(() =>
         Promise.resolve(
           new Response(
             JSON.stringify({
-              message: "Badge deleted successfully",
+              message: "Badge archived successfully",
+              badge: { ...mockBadges[0], status: "archived" },
             }),
             {
               status: 200,
@@ -399,22 +400,27 @@ describe("Badge Endpoints", () => {
         ),
       );
 
-      const data = (await response.json()) as { message: string };
+      const data = (await response.json()) as {
+        message: string;
+        badge: { status: string };
+      };
 
       expect(response.status).toBe(200);
-      expect(data.message).toBe("Badge deleted successfully");
+      expect(data.message).toBe("Badge archived successfully");
+      expect(data.badge.status).toBe("archived");
     });
 
-    it("should not delete a badge with assertions", async () => {
-      // Mock app to return an error for badge with dependencies
+    it("should not edit an archived badge", async () => {
+      // Mock app to return an error for an archived badge
       mockApp.fetch = mock(() =>
         Promise.resolve(
           new Response(
             JSON.stringify({
-              error: "Cannot delete badge with existing assertions",
+              error:
+                "An archived badge class cannot be edited; restore it first",
             }),
             {
-              status: 400,
+              status: 409,
               headers: { "Content-Type": "application/json" },
             },
           ),
@@ -426,15 +432,18 @@ describe("Badge Endpoints", () => {
         new Request(
           "https://example.com/api/badges/550e8400-e29b-41d4-a716-446655440000",
           {
-            method: "DELETE",
+            method: "PUT",
+            body: JSON.stringify({ name: "Updated Badge" }),
           },
         ),
       );
 
       const data = (await response.json()) as { error: string };
 
-      expect(response.status).toBe(400);
-      expect(data.error).toBe("Cannot delete badge with existing assertions");
+      expect(response.status).toBe(409);
+      expect(data.error).toBe(
+        "An archived badge class cannot be edited; restore it first",
+      );
     });
   });
 });
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "bun:test";
+import {
+  BadgeVersionService,
+  getBadgeClassDefinition,
+} from "../../../src/services/badge-version.service";
+import type { BadgeClass } from "../../../src/db/schema";
+import { createInsertRecorder } from "../../../src/utils/test/executor-mock";
+
+const badge = {
+  badgeId: "550e8400-e29b-41d4-a716-446655440000",
+  issuerId: "550e8400-e29b-41d4-a716-446655440001",
+  name: "Code Ninja",
+  description: "Awarded for exceptional programming skills",
+  imageUrl: "https://example.com/badges/code-ninja.png",
+  criteria: "Complete 10 complex coding challenges",
+  validityDuration: null,
+  hashRecipients: false,
+  achievementType: "Course",
+  alignment: null,
+  resultDescription: null,
+  tag: ["programming"],
+  creditsAvailable: null,
+  fieldOfStudy: null,
+  specialization: null,
+  humanCode: "CS-101",
+  inLanguage: null,
+  version: null,
+  related: null,
+  currentVersion: 2,
+  status: "active",
+  badgeJson: {
+    id: "https://example.com/badges/550e8400-e29b-41d4-a716-446655440000",
+  },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+} as BadgeClass;
+
+describe("Badge class versions", () => {
+  it("should freeze the definition without issuance settings", () => {
+    expect(getBadgeClassDefinition(badge)).toEqual({
+      name: "Code Ninja",
+      description: "Awarded for exceptional programming skills",
+      imageUrl: "https://example.com/badges/code-ninja.png",
+      criteria: "Complete 10 complex coding challenges",
+      achievementType: "Course",
+      tag: ["programming"],
+      humanCode: "CS-101",
+    });
+  });
+
+  it("should identify the OB2 badge class of a version by its own URL", async () => {
+    const { inserted, executor } = createInsertRecorder();
+
+    await new BadgeVersionService().createVersion(badge, "user-1", executor);
+
+    expect(inserted[0]).toMatchObject({
+      badgeId: badge.badgeId,
+      version: 2,
+      createdBy: "user-1",
+      badgeJson: {
+        id: "https://example.com/badges/550e8400-e29b-41d4-a716-446655440000/versions/2",
+      },
+    });
+  });
+
+  it("should keep the version when only issuance settings change", async () => {
+    const { inserted, executor } = createInsertRecorder();
+
+    const result = await new BadgeVersionService().recordEdit(
+      badge,
+      { ...badge, validityDuration: "P2Y", hashRecipients: true },
+      null,
+      executor,
+    );
+
+    expect(result.currentVersion).toBe(2);
+    expect(inserted).toHaveLength(0);
+  });
+});
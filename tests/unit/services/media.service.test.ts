@@ -0,0 +1,93 @@
+import { describe, it, expect } from "bun:test";
+import * as crypto from "crypto";
+import {
+  MediaService,
+  getMediaUrl,
+  parseMediaUrl,
+} from "../../../src/services/media.service";
+import type { MediaStorage } from "../../../src/utils/media";
+import { createInsertRecorder } from "../../../src/utils/test/executor-mock";
+
+const svg = Buffer.from(
+  '<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"/>',
+);
+
+// Keeps stored content in memory
+function createStorage() {
+  const files = new Map<string, Buffer>();
+  const storage: MediaStorage = {
+    name: "local",
+    put: async (key, data) => {
+      files.set(key, Buffer.from(data));
+    },
+    get: async (key) => files.get(key) ?? null,
+  };
+  return { files, storage };
+}
+
+describe("MediaService", () => {
+  it("should store images under their content hash", async () => {
+    const { files, storage } = createStorage();
+    const { inserted, executor } = createInsertRecorder();
+    const hash = crypto.createHash("sha256").update(svg).digest("hex");
+
+    await new MediaService(storage).store(
+      svg,
+      { uploadedBy: "user-1" },
+      executor,
+    );
+
+    expect(files.get(`${hash}.svg`)).toEqual(svg);
+    expect(inserted[0]).toEqual({
+      contentHash: hash,
+      mimeType: "image/svg+xml",
+      byteSize: svg.length,
+      width: 64,
+      height: 64,
+      storageKey: `${hash}.svg`,
+      sourceUrl: null,
+      uploadedBy: "user-1",
+    });
+  });
+
+  it("should store SVG images sanitized", async () => {
+    const { files, storage } = createStorage();
+    const { inserted, executor } = createInsertRecorder();
+
+    await new MediaService(storage).store(
+      Buffer.from(
+        '<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64" onload="alert(1)"><script>alert(1)</script></svg>',
+      ),
+      {},
+      executor,
+    );
+
+    expect(inserted[0].byteSize).toBe(svg.length);
+    expect(files.get(inserted[0].storageKey as string)).toEqual(svg);
+  });
+
+  it("should not store invalid images", async () => {
+    const { files, storage } = createStorage();
+    const { executor } = createInsertRecorder();
+
+    await expect(
+      new MediaService(storage).store(
+        Buffer.from("not an image"),
+        {},
+        executor,
+      ),
+    ).rejects.toThrow("Image must be a PNG or SVG file");
+    expect(files.size).toBe(0);
+  });
+
+  it("should recognise its own stable URLs", () => {
+    const mediaId = "550e8400-e29b-41d4-a716-446655440000";
+    const url = getMediaUrl("https://example.com", mediaId);
+
+    expect(url).toBe(`https://example.com/api/media/${mediaId}`);
+    expect(parseMediaUrl(url)).toBe(mediaId);
+    expect(
+      parseMediaUrl("https://example.com/badges/code-ninja.png"),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect } from "bun:test";
+import {
+  canonicalize,
+  createVerifyData,
+  createDataIntegrityProof,
+  verifyDataIntegrityProof,
+  withDataIntegrityContext,
+  DATA_INTEGRITY_PROOF_TYPE,
+  EDDSA_RDFC_2022,
+} from "../../../src/utils/signing/data-integrity";
+import {
+  OB3_CREDENTIAL_CONTEXT,
+  DATA_INTEGRITY_CONTEXT_URL,
+} from "../../../src/constants/context-urls";
+import { DataIntegrityProof } from "../../../src/models/credential.model";
+
+const VERIFICATION_METHOD =
+  "did:key:z6MkrXSQTybtqyMasfSxeRBksrz6CjHhWBMz1EKT1STM7hV3#z6MkrXSQTybtqyMasfSxeRBksrz6CjHhWBMz1EKT1STM7hV3";
+
+const proofConfig: Omit<DataIntegrityProof, "proofValue"> = {
+  type: DATA_INTEGRITY_PROOF_TYPE,
+  cryptosuite: EDDSA_RDFC_2022,
+  created: "2024-01-01T00:00:00Z",
+  verificationMethod: VERIFICATION_METHOD,
+  proofPurpose: "assertionMethod",
+};
+
+function createCredential() {
+  return withDataIntegrityContext({
+    "@context": OB3_CREDENTIAL_CONTEXT,
+    id: "urn:uuid:6c2ab9b4-3a8c-4a5e-8a3a-6f1f7e0c2d11",
+    type: ["VerifiableCredential", "OpenBadgeCredential"],
+    issuer: {
+      id: "https://example.com/issuers/1",
+      type: "Profile",
+      name: "Test Issuer",
+    },
+    issuanceDate: "2024-01-01T00:00:00Z",
+    credentialSubject: {
+      id: "did:example:recipient123",
+      type: ["AchievementSubject"],
+      achievement: {
+        id: "https://example.com/badges/1",
+        type: ["Achievement"],
+        name: "Test Achievement",
+        description: "A test achievement",
+        criteria: { narrative: "Complete the test" },
+      },
+    },
+  });
+}
+
+describe("Data Integrity (eddsa-rdfc-2022)", () => {
+  it("should add the Data Integrity context to VCDM 1.1 documents", () => {
+    const credential = createCredential();
+    expect(credential["@context"]).toContain(DATA_INTEGRITY_CONTEXT_URL);
+
+    // Applying it twice should not duplicate the context
+    const again = withDataIntegrityContext(credential);
+    expect(
+      (again["@context"] as string[]).filter(
+        (ctx) => ctx === DATA_INTEGRITY_CONTEXT_URL,
+      ),
+    ).toHaveLength(1);
+  });
+
+  it("should canonicalize to N-Quads independent of property order", async () => {
+    const credential = createCredential();
+    const reordered = Object.fromEntries(Object.entries(credential).reverse());
+
+    const canonical = await canonicalize(credential);
+    expect(canonical).toContain(
+      '<https://example.com/badges/1> <https://schema.org/name> "Test Achievement"',
+    );
+    expect(await canonicalize(reordered)).toBe(canonical);
+  });
+
+  it("should reject terms that are not defined by a context", async () => {
+    const credential = {
+      ...createCredential(),
+      undefinedTerm: "not in any context",
+    };
+
+    await expect(canonicalize(credential)).rejects.toThrow();
+  });
+
+  it("should not resolve contexts that are not bundled", async () => {
+    const credential = {
+      ...createCredential(),
+      "@context": ["https://example.com/unknown-context"],
+    };
+
+    await expect(canonicalize(credential)).rejects.toThrow(
+      "https://example.com/unknown-context",
+    );
+  });
+
+  it("should hash the proof configuration and the document separately", async () => {
+    const credential = createCredential();
+    const verifyData = await createVerifyData(credential, proofConfig);
+
+    expect(verifyData).toHaveLength(64);
+
+    // Changing the document only changes the document hash
+    const tampered = JSON.parse(JSON.stringify(credential));
+    tampered.credentialSubject.achievement.name = "Tampered Achievement";
+    const tamperedData = await createVerifyData(tampered, proofConfig);
+    expect(tamperedData.slice(0, 32)).toEqual(verifyData.slice(0, 32));
+    expect(tamperedData.slice(32)).not.toEqual(verifyData.slice(32));
+
+    // Changing the proof options only changes the proof config hash
+    const otherConfigData = await createVerifyData(credential, {
+      ...proofConfig,
+      created: "2024-06-01T00:00:00Z",
+    });
+    expect(otherConfigData.slice(0, 32)).not.toEqual(verifyData.slice(0, 32));
+    expect(otherConfigData.slice(32)).toEqual(verifyData.slice(32));
+  });
+
+  it("should create a DataIntegrityProof with a multibase proof value", async () => {
+    const proof = await createDataIntegrityProof(
+      createCredential(),
+      new Uint8Array(32).fill(1),
+      { verificationMethod: VERIFICATION_METHOD },
+    );
+
+    expect(proof.type).toBe(DATA_INTEGRITY_PROOF_TYPE);
+    expect(proof.cryptosuite).toBe(EDDSA_RDFC_2022);
+    expect(proof.proofPurpose).toBe("assertionMethod");
+    expect(proof.verificationMethod).toBe(VERIFICATION_METHOD);
+    expect(proof.created).toBeDefined();
+    expect(proof.proofValue.startsWith("z")).toBe(true);
+  });
+
+  it("should reject documents without an eddsa-rdfc-2022 proof", async () => {
+    const publicKey = new Uint8Array(32).fill(2);
+    const credential = createCredential();
+
+    expect(await verifyDataIntegrityProof(credential, publicKey)).toBe(false);
+    expect(
+      await verifyDataIntegrityProof(
+        {
+          ...credential,
+          proof: {
+            ...proofConfig,
+            cryptosuite: "eddsa-2022",
+            proofValue: "z1",
+          },
+        },
+        publicKey,
+      ),
+    ).toBe(false);
+    expect(
+      await verifyDataIntegrityProof(
+        {
+          ...credential,
+          proof: { ...proofConfig, proofValue: "TEST_BASE64_SIGNATURE" },
+        },
+        publicKey,
+      ),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "bun:test";
+import * as crypto from "crypto";
+import { buildDidDocument } from "../../../src/utils/did/did-document";
+import { getHostDid, getIssuerDid } from "../../../src/utils/did/did-web";
+import type { SigningKeyRecord } from "../../../src/utils/signing/keys";
+import type { SigningKeyStatus } from "../../../src/db/schema/signing";
+
+const ISSUER_ID = "550e8400-e29b-41d4-a716-446655440001";
+const DID = `did:web:badges.example.com:issuers:${ISSUER_ID}`;
+
+function createKey(status: SigningKeyStatus, fragment: string) {
+  const jwk = crypto.generateKeyPairSync("ed25519").publicKey.export({
+    format: "jwk",
+  });
+  const record: SigningKeyRecord = {
+    keyId: crypto.randomUUID(),
+    issuerId: ISSUER_ID,
+    status,
+    validFrom: new Date(),
+    validUntil: null,
+    compromisedAt: null,
+    revocationReason: null,
+    publicKey: new Uint8Array(Buffer.from(jwk.x as string, "base64url")),
+    sign: async () => new Uint8Array(64),
+    privateKeyReference: "enc:v1:test",
+    controller: `did:key:${fragment}`,
+    type: "Ed25519VerificationKey2020",
+    keyInfo: {
+      id: `did:key:${fragment}#${fragment}`,
+      type: "Ed25519VerificationKey2020",
+      controller: `did:key:${fragment}`,
+      publicKeyJwk: { kty: "OKP", crv: "Ed25519", x: jwk.x as string },
+    },
+  };
+  return record;
+}
+
+describe("did:web", () => {
+  it("should derive issuer DIDs from the host", () => {
+    expect(getHostDid("https://badges.example.com")).toBe(
+      "did:web:badges.example.com",
+    );
+    expect(getIssuerDid("https://badges.example.com", ISSUER_ID)).toBe(DID);
+  });
+
+  it("should percent-encode a port", () => {
+    expect(getIssuerDid("http://localhost:7777", ISSUER_ID)).toBe(
+      `did:web:localhost%3A7777:issuers:${ISSUER_ID}`,
+    );
+  });
+});
+
+describe("DID Document", () => {
+  it("should publish each key as a Multikey and a JsonWebKey", async () => {
+    const document = await buildDidDocument(DID, [
+      createKey("active", "z6MkActive"),
+    ]);
+
+    expect(document.id).toBe(DID);
+    expect(document.verificationMethod).toHaveLength(2);
+
+    const [multikey, jsonWebKey] = document.verificationMethod;
+    expect(multikey.id).toBe(`${DID}#z6MkActive`);
+    expect(multikey.type).toBe("Multikey");
+    expect(multikey.controller).toBe(DID);
+    expect(multikey.publicKeyMultibase).toStartWith("z");
+
+    expect(jsonWebKey.type).toBe("JsonWebKey");
+    expect(jsonWebKey.id).toStartWith(`${DID}#`);
+    expect(jsonWebKey.publicKeyJwk?.crv).toBe("Ed25519");
+
+    expect(document.assertionMethod).toEqual([multikey.id, jsonWebKey.id]);
+  });
+
+  it("should keep retired keys and drop compromised keys", async () => {
+    const document = await buildDidDocument(DID, [
+      createKey("compromised", "z6MkCompromised"),
+      createKey("retired", "z6MkRetired"),
+      createKey("active", "z6MkActive"),
+    ]);
+
+    const multikeyIds = document.verificationMethod
+      .filter((method) => method.type === "Multikey")
+      .map((method) => method.id);
+    expect(multikeyIds).toEqual([`${DID}#z6MkActive`, `${DID}#z6MkRetired`]);
+    expect(document.assertionMethod).toHaveLength(4);
+  });
+
+  it("should list other identifiers of the subject", async () => {
+    const document = await buildDidDocument(
+      DID,
+      [],
+      [`https://badges.example.com/issuers/${ISSUER_ID}`],
+    );
+
+    expect(document.alsoKnownAs).toEqual([
+      `https://badges.example.com/issuers/${ISSUER_ID}`,
+    ]);
+    expect(document.verificationMethod).toEqual([]);
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from "bun:test";
+import * as crypto from "crypto";
+import {
+  createDidResolver,
+  DidResolutionError,
+} from "../../../src/utils/did/resolver";
+import { didWebToUrl } from "../../../src/utils/did/did-web";
+import { encodeMultikey } from "../../../src/utils/signing/keys";
+
+function generateJwk() {
+  const jwk = crypto.generateKeyPairSync("ed25519").publicKey.export({
+    format: "jwk",
+  });
+  return { kty: "OKP", crv: "Ed25519", x: jwk.x as string };
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/did+ld+json" },
+  });
+}
+
+describe("did:web URLs", () => {
+  it("should resolve a bare domain to its well-known document", () => {
+    expect(didWebToUrl("did:web:example.com")).toBe(
+      "https://example.com/.well-known/did.json",
+    );
+  });
+
+  it("should resolve paths and encoded ports", () => {
+    expect(didWebToUrl("did:web:localhost%3A7777:issuers:abc")).toBe(
+      "https://localhost:7777/issuers/abc/did.json",
+    );
+  });
+});
+
+describe("DID Resolver", () => {
+  it("should resolve did:jwk assertion methods", async () => {
+    const jwk = generateJwk();
+    const did = `did:jwk:${Buffer.from(JSON.stringify(jwk)).toString("base64url")}`;
+
+    const method = await createDidResolver().resolveAssertionMethod(`${did}#0`);
+
+    expect(method.controller).toBe(did);
+    expect(Buffer.from(method.publicKey).toString("base64url")).toBe(jwk.x);
+  });
+
+  it("should resolve did:key documents", async () => {
+    // Encoded with the same codec the resolver decodes with, which the test
+    // setup may mock
+    const multikey = encodeMultikey(
+      new Uint8Array(Buffer.from(generateJwk().x, "base64url")),
+    );
+    const did = `did:key:${multikey}`;
+
+    const document = await createDidResolver().resolve(did);
+
+    expect(document.verificationMethod?.[0].id).toBe(`${did}#${multikey}`);
+    expect(document.assertionMethod).toHaveLength(1);
+  });
+
+  it("should fetch did:web documents through the injected fetcher", async () => {
+    const did = "did:web:issuer.example.org";
+    const jwk = generateJwk();
+    const requested: string[] = [];
+    const resolver = createDidResolver(async (url) => {
+      requested.push(url);
+      return jsonResponse({
+        id: did,
+        verificationMethod: [
+          {
+            id: "#key-1",
+            type: "JsonWebKey",
+            controller: did,
+            publicKeyJwk: jwk,
+          },
+        ],
+        assertionMethod: ["#key-1"],
+      });
+    });
+
+    const method = await resolver.resolveAssertionMethod(`${did}#key-1`);
+
+    expect(requested).toEqual([
+      "https://issuer.example.org/.well-known/did.json",
+    ]);
+    expect(Buffer.from(method.publicKey).toString("base64url")).toBe(jwk.x);
+  });
+
+  it("should reject keys that are not assertion methods", async () => {
+    const did = "did:web:issuer.example.org";
+    const resolver = createDidResolver(async () =>
+      jsonResponse({
+        id: did,
+        verificationMethod: [
+          {
+            id: `${did}#auth`,
+            type: "JsonWebKey",
+            controller: did,
+            publicKeyJwk: generateJwk(),
+          },
+        ],
+        authentication: [`${did}#auth`],
+      }),
+    );
+
+    await expect(
+      resolver.resolveAssertionMethod(`${did}#auth`),
+    ).rejects.toThrow("is not an assertion method");
+  });
+
+  it("should reject documents describing another DID", async () => {
+    const resolver = createDidResolver(async () =>
+      jsonResponse({ id: "did:web:attacker.example" }),
+    );
+
+    await expect(
+      resolver.resolve("did:web:issuer.example.org"),
+    ).rejects.toThrow(DidResolutionError);
+  });
+
+  it("should report failed fetches as resolution errors", async () => {
+    const resolver = createDidResolver(async () =>
+      jsonResponse({ error: "not found" }, 404),
+    );
+
+    await expect(
+      resolver.resolve("did:web:issuer.example.org"),
+    ).rejects.toThrow("HTTP 404");
+  });
+
+  it("should reject oversized DID documents", async () => {
+    const resolver = createDidResolver(async () =>
+      jsonResponse({
+        id: "did:web:issuer.example.org",
+        padding: "x".repeat(100 * 1024),
+      }),
+    );
+
+    await expect(
+      resolver.resolve("did:web:issuer.example.org"),
+    ).rejects.toThrow("exceeds");
+  });
+
+  it("should not fetch did:web documents from loopback or private hosts", async () => {
+    const resolver = createDidResolver();
+
+    await expect(resolver.resolve("did:web:localhost")).rejects.toThrow(
+      DidResolutionError,
+    );
+    await expect(resolver.resolve("did:web:127.0.0.1%3A3000")).rejects.toThrow(
+      DidResolutionError,
+    );
+    await expect(resolver.resolve("did:web:10.0.0.5")).rejects.toThrow(
+      DidResolutionError,
+    );
+  });
+
+  it("should reject unsupported DID methods", async () => {
+    await expect(
+      createDidResolver().resolve("did:example:123"),
+    ).rejects.toThrow("Unsupported DID method");
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  documentLoader,
+  loadDocument,
+  registerContext,
+  loadContextManifest,
+  allowRemoteContext,
+  computeContextHash,
+  ContextResolutionError,
+} from "../../../src/utils/jsonld/document-loader";
+import { BUNDLED_CONTEXTS } from "../../../src/utils/jsonld/bundled-contexts";
+import {
+  OB3_CONTEXT_URL,
+  VC_CONTEXT_URL,
+} from "../../../src/constants/context-urls";
+
+const customContext = {
+  "@context": {
+    customTerm: "https://example.com/vocab#customTerm",
+  },
+};
+
+describe("JSON-LD Document Loader", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("should match the pinned hash of every bundled context", () => {
+    for (const context of Object.values(BUNDLED_CONTEXTS)) {
+      expect(computeContextHash(context.document)).toBe(context.sha256);
+    }
+  });
+
+  it("should serve bundled contexts without the network", async () => {
+    globalThis.fetch = (() => {
+      throw new Error("Network access is not allowed");
+    }) as unknown as typeof fetch;
+
+    const result = await documentLoader(OB3_CONTEXT_URL);
+
+    expect(result.documentUrl).toBe(OB3_CONTEXT_URL);
+    expect(result.document).toBe(BUNDLED_CONTEXTS[OB3_CONTEXT_URL].document);
+  });
+
+  it("should fail closed on unknown contexts", async () => {
+    await expect(
+      loadDocument("https://example.com/contexts/unknown"),
+    ).rejects.toThrow(ContextResolutionError);
+  });
+
+  it("should compute the same hash regardless of key order", () => {
+    expect(computeContextHash({ a: 1, b: [{ c: 2, d: 3 }] })).toBe(
+      computeContextHash({ b: [{ d: 3, c: 2 }], a: 1 }),
+    );
+  });
+
+  it("should register contexts that match their pin", async () => {
+    const url = "https://example.com/contexts/registered";
+    registerContext(url, customContext, computeContextHash(customContext));
+
+    expect(await loadDocument(url)).toEqual(customContext);
+  });
+
+  it("should reject contexts that do not match their pin", () => {
+    expect(() =>
+      registerContext(
+        "https://example.com/contexts/mismatch",
+        customContext,
+        "0".repeat(64),
+      ),
+    ).toThrow("does not match its pinned hash");
+  });
+
+  it("should not allow bundled contexts to be replaced", () => {
+    expect(() =>
+      registerContext(
+        VC_CONTEXT_URL,
+        customContext,
+        computeContextHash(customContext),
+      ),
+    ).toThrow("cannot be replaced");
+  });
+
+  it("should register contexts from a manifest file", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "contexts-"));
+    try {
+      writeFileSync(
+        join(dir, "custom.json"),
+        JSON.stringify(customContext, null, 2),
+      );
+      writeFileSync(
+        join(dir, "manifest.json"),
+        JSON.stringify([
+          {
+            url: "https://example.com/contexts/from-manifest",
+            file: "custom.json",
+            sha256: computeContextHash(customContext),
+          },
+        ]),
+      );
+
+      const urls = loadContextManifest(join(dir, "manifest.json"));
+
+      expect(urls).toEqual(["https://example.com/contexts/from-manifest"]);
+      expect(
+        await loadDocument("https://example.com/contexts/from-manifest"),
+      ).toEqual(customContext);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should fetch allow-listed contexts once and cache them", async () => {
+    const url = "https://example.com/contexts/allow-listed";
+    let fetchCount = 0;
+    globalThis.fetch = (async () => {
+      fetchCount++;
+      return new Response(JSON.stringify(customContext), {
+        headers: { "Content-Type": "application/ld+json" },
+      });
+    }) as unknown as typeof fetch;
+
+    allowRemoteContext(url);
+
+    expect(await loadDocument(url)).toEqual(customContext);
+    expect(await loadDocument(url)).toEqual(customContext);
+    expect(fetchCount).toBe(1);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "bun:test";
+import { addDuration, parseDuration } from "../../../src/utils/duration";
+import { BadRequestError } from "../../../src/utils/errors";
+
+describe("ISO 8601 durations", () => {
+  it("should parse date and time components", () => {
+    expect(parseDuration("P2Y")).toMatchObject({ years: 2, months: 0 });
+    expect(parseDuration("P1Y6M2W3DT4H5M6S")).toEqual({
+      years: 1,
+      months: 6,
+      weeks: 2,
+      days: 3,
+      hours: 4,
+      minutes: 5,
+      seconds: 6,
+    });
+  });
+
+  it("should reject empty and malformed durations", () => {
+    expect(parseDuration("P")).toBeNull();
+    expect(parseDuration("PT")).toBeNull();
+    expect(parseDuration("P0D")).toBeNull();
+    expect(parseDuration("2 years")).toBeNull();
+    expect(parseDuration("P1.5Y")).toBeNull();
+    expect(parseDuration(730)).toBeNull();
+  });
+
+  it("should add calendar years and months", () => {
+    const start = new Date("2024-01-15T10:00:00Z");
+
+    expect(addDuration(start, parseDuration("P2Y")!).toISOString()).toBe(
+      "2026-01-15T10:00:00.000Z",
+    );
+    expect(addDuration(start, parseDuration("P1MT2H")!).toISOString()).toBe(
+      "2024-02-15T12:00:00.000Z",
+    );
+  });
+
+  it("should clamp to the last day of shorter months", () => {
+    expect(
+      addDuration(
+        new Date("2024-01-31T00:00:00Z"),
+        parseDuration("P1M")!,
+      ).toISOString(),
+    ).toBe("2024-02-29T00:00:00.000Z");
+    expect(
+      addDuration(
+        new Date("2024-02-29T00:00:00Z"),
+        parseDuration("P1Y")!,
+      ).toISOString(),
+    ).toBe("2025-02-28T00:00:00.000Z");
+  });
+
+  it("should reject durations past the range of dates", () => {
+    expect(() =>
+      addDuration(new Date(), parseDuration("P999999999999Y")!),
+    ).toThrow(BadRequestError);
+    expect(() =>
+      addDuration(new Date(), parseDuration("PT999999999999999999H")!),
+    ).toThrow(BadRequestError);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "bun:test";
+import { createETag, isNotModified } from "../../../src/utils/http-cache";
+
+const LAST_MODIFIED = new Date("2025-03-19T12:00:00.500Z");
+
+describe("HTTP caching", () => {
+  it("should derive quoted entity tags from content", () => {
+    const etag = createETag("list-v1");
+
+    expect(etag).toMatch(/^"[A-Za-z0-9_-]+"$/);
+    expect(createETag("list-v1")).toBe(etag);
+    expect(createETag("list-v2")).not.toBe(etag);
+  });
+
+  it("should match If-None-Match against the current tag", () => {
+    const etag = createETag("list-v1");
+
+    expect(isNotModified({ ifNoneMatch: etag }, etag, LAST_MODIFIED)).toBe(
+      true,
+    );
+    expect(
+      isNotModified({ ifNoneMatch: `"stale", W/${etag}` }, etag, LAST_MODIFIED),
+    ).toBe(true);
+    expect(isNotModified({ ifNoneMatch: "*" }, etag, LAST_MODIFIED)).toBe(true);
+    expect(
+      isNotModified(
+        { ifNoneMatch: createETag("list-v0") },
+        etag,
+        LAST_MODIFIED,
+      ),
+    ).toBe(false);
+  });
+
+  it("should ignore If-Modified-Since when If-None-Match is present", () => {
+    expect(
+      isNotModified(
+        {
+          ifNoneMatch: '"stale"',
+          ifModifiedSince: LAST_MODIFIED.toUTCString(),
+        },
+        createETag("list-v1"),
+        LAST_MODIFIED,
+      ),
+    ).toBe(false);
+  });
+
+  it("should compare If-Modified-Since with second precision", () => {
+    const etag = createETag("list-v1");
+
+    expect(
+      isNotModified(
+        { ifModifiedSince: LAST_MODIFIED.toUTCString() },
+        etag,
+        LAST_MODIFIED,
+      ),
+    ).toBe(true);
+    expect(
+      isNotModified(
+        { ifModifiedSince: new Date("2025-03-19T11:59:59Z").toUTCString() },
+        etag,
+        LAST_MODIFIED,
+      ),
+    ).toBe(false);
+    expect(
+      isNotModified({ ifModifiedSince: "yesterday" }, etag, LAST_MODIFIED),
+    ).toBe(false);
+  });
+
+  it("should not match unconditional requests", () => {
+    expect(isNotModified({}, createETag("list-v1"), LAST_MODIFIED)).toBe(false);
+  });
+});
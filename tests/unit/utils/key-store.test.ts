@@ -0,0 +1,139 @@
+import { describe, it, expect, afterAll } from "bun:test";
+import * as crypto from "crypto";
+import { mkdtempSync, readdirSync, rmSync, statSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  DatabaseKeyStore,
+  FileKeyStore,
+  KeyStoreError,
+  createSigner,
+  getKeyStore,
+  registerKeyStore,
+  resolveKeyStore,
+} from "../../../src/utils/signing/key-store";
+import { toPublicKeyObject } from "../../../src/utils/signing/ed25519-keys";
+
+const MASTER_KEY = crypto.randomBytes(32).toString("base64");
+const data = new TextEncoder().encode("data to sign");
+
+function verify(publicKey: Uint8Array, signature: Uint8Array): boolean {
+  return crypto.verify(null, data, toPublicKeyObject(publicKey), signature);
+}
+
+describe("DatabaseKeyStore", () => {
+  const store = new DatabaseKeyStore(MASTER_KEY);
+
+  it("should sign with a generated key without storing it in plaintext", async () => {
+    const { publicKey, reference } = await store.generateKey();
+
+    expect(store.handles(reference)).toBe(true);
+    expect(reference.startsWith("enc:v1:")).toBe(true);
+    expect(verify(publicKey, await store.sign(reference, data))).toBe(true);
+  });
+
+  it("should import an existing raw private key", async () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync("ed25519");
+    const raw = Buffer.from(
+      privateKey.export({ format: "jwk" }).d as string,
+      "base64url",
+    );
+    const rawPublicKey = Buffer.from(
+      publicKey.export({ format: "jwk" }).x as string,
+      "base64url",
+    );
+
+    const reference = await store.importKey(raw);
+
+    expect(reference).not.toContain(raw.toString("base64url"));
+    expect(verify(rawPublicKey, await store.sign(reference, data))).toBe(true);
+  });
+
+  it("should refuse to sign with a different master key", async () => {
+    const { reference } = await store.generateKey();
+    const otherStore = new DatabaseKeyStore(
+      crypto.randomBytes(32).toString("base64"),
+    );
+
+    await expect(otherStore.sign(reference, data)).rejects.toThrow(
+      KeyStoreError,
+    );
+  });
+
+  it("should reject a tampered envelope", async () => {
+    const { reference } = await store.generateKey();
+    const envelope = JSON.parse(
+      Buffer.from(reference.slice("enc:v1:".length), "base64url").toString(),
+    );
+    const sealedKey = Buffer.from(envelope.key, "base64url");
+    sealedKey[sealedKey.length - 20] ^= 0xff;
+    envelope.key = sealedKey.toString("base64url");
+    const tampered =
+      "enc:v1:" + Buffer.from(JSON.stringify(envelope)).toString("base64url");
+
+    await expect(store.sign(tampered, data)).rejects.toThrow(
+      "Failed to decrypt signing key",
+    );
+  });
+
+  it("should require a 32 byte master key", async () => {
+    const weakStore = new DatabaseKeyStore(
+      Buffer.from("short").toString("base64"),
+    );
+
+    await expect(weakStore.generateKey()).rejects.toThrow("32 bytes");
+  });
+});
+
+describe("FileKeyStore", () => {
+  const directory = mkdtempSync(join(tmpdir(), "keyring-"));
+  const store = new FileKeyStore(directory);
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should keep generated keys in owner-only keyring files", async () => {
+    const { publicKey, reference } = await store.generateKey();
+
+    expect(reference.startsWith("keyring:")).toBe(true);
+    const [file] = readdirSync(directory);
+    expect(statSync(join(directory, file)).mode & 0o777).toBe(0o600);
+    expect(verify(publicKey, await store.sign(reference, data))).toBe(true);
+  });
+
+  it("should reject references outside the keyring", async () => {
+    await expect(store.sign("keyring:../../etc/passwd", data)).rejects.toThrow(
+      KeyStoreError,
+    );
+  });
+
+  it("should report missing keyring entries", async () => {
+    await expect(
+      store.sign(`keyring:${crypto.randomUUID()}`, data),
+    ).rejects.toThrow("is not available");
+  });
+});
+
+describe("Key store registry", () => {
+  it("should sign with the store that produced a reference", async () => {
+    const directory = mkdtempSync(join(tmpdir(), "keyring-"));
+    try {
+      registerKeyStore(new DatabaseKeyStore(MASTER_KEY));
+      registerKeyStore(new FileKeyStore(directory));
+
+      const fileKey = await getKeyStore("file").generateKey();
+      const sign = createSigner(fileKey.reference);
+
+      expect(verify(fileKey.publicKey, await sign(data))).toBe(true);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should not sign with keys still stored in plaintext", () => {
+    expect(() =>
+      resolveKeyStore("z3u2en7t8mxcz3s9wKaDTNWK1RA619VAXqLLGEY4ZD1vpCgPbR7y"),
+    ).toThrow("db:migrate:encrypt-keys");
+  });
+});
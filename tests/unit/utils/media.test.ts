@@ -0,0 +1,89 @@
+import { describe, it, expect, afterAll } from "bun:test";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { LocalMediaStorage, MediaStorageError } from "../../../src/utils/media";
+import { validateImage } from "../../../src/utils/media/image";
+import { BadRequestError } from "../../../src/utils/errors";
+
+const limits = { maxBytes: 1024, maxDimension: 512 };
+
+// A PNG signature and IHDR chunk, which is all the validation reads
+function createPng(width: number, height: number): Buffer {
+  const header = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+  header.writeUInt32BE(13, 8);
+  header.write("IHDR", 12, "latin1");
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return header;
+}
+
+describe("validateImage", () => {
+  it("should read the dimensions of PNG and SVG images", () => {
+    expect(validateImage(createPng(256, 128), limits)).toEqual({
+      mimeType: "image/png",
+      extension: "png",
+      width: 256,
+      height: 128,
+      data: createPng(256, 128),
+    });
+
+    const svg = Buffer.from(
+      '<?xml version="1.0"?><svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 50"></svg>',
+    );
+    expect(validateImage(svg, limits)).toMatchObject({
+      mimeType: "image/svg+xml",
+      width: 100,
+      height: 50,
+    });
+  });
+
+  it("should reject other formats, oversized files and large images", () => {
+    expect(() => validateImage(Buffer.from("GIF89a"), limits)).toThrow(
+      "Image must be a PNG or SVG file",
+    );
+    expect(() => validateImage(Buffer.alloc(2048), limits)).toThrow(
+      BadRequestError,
+    );
+    expect(() => validateImage(createPng(1024, 64), limits)).toThrow(
+      "Image must be between 1 and 512 pixels wide and high",
+    );
+  });
+
+  it("should require SVG images to declare their size", () => {
+    expect(() =>
+      validateImage(
+        Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"></svg>'),
+        limits,
+      ),
+    ).toThrow("SVG images must declare their size");
+  });
+});
+
+describe("LocalMediaStorage", () => {
+  const directory = mkdtempSync(join(tmpdir(), "media-"));
+  const storage = new LocalMediaStorage(directory);
+  const key = `${"ab".repeat(32)}.png`;
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should read back stored content", async () => {
+    await storage.put(key, createPng(1, 1));
+
+    expect(await storage.get(key)).toEqual(createPng(1, 1));
+    expect(readdirSync(join(directory, "ab"))).toEqual([key]);
+  });
+
+  it("should return null for content it does not hold", async () => {
+    expect(await storage.get(`${"cd".repeat(32)}.svg`)).toBeNull();
+  });
+
+  it("should refuse keys that could leave its directory", async () => {
+    await expect(storage.get("../../etc/passwd")).rejects.toThrow(
+      MediaStorageError,
+    );
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "bun:test";
+import {
+  assertPublicHost,
+  isNonPublicAddress,
+  NonPublicHostError,
+  readLimited,
+} from "../../../src/utils/network";
+
+describe("Public host checks", () => {
+  it("should classify loopback, private and link-local addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.16.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "0.0.0.0",
+      "::1",
+      "fd00::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+    ]) {
+      expect(isNonPublicAddress(address)).toBe(true);
+    }
+  });
+
+  it("should accept public addresses", () => {
+    expect(isNonPublicAddress("93.184.216.34")).toBe(false);
+    expect(isNonPublicAddress("2606:2800:220:1::1")).toBe(false);
+  });
+
+  it("should reject hosts that are or resolve to non-public addresses", async () => {
+    await expect(assertPublicHost("127.0.0.1")).rejects.toThrow(
+      NonPublicHostError,
+    );
+    await expect(assertPublicHost("[::1]")).rejects.toThrow(NonPublicHostError);
+    await expect(assertPublicHost("localhost")).rejects.toThrow(
+      NonPublicHostError,
+    );
+  });
+
+  it("should accept public IP hosts without a lookup", async () => {
+    await expect(assertPublicHost("93.184.216.34")).resolves.toBeUndefined();
+  });
+});
+
+describe("Size-capped reads", () => {
+  it("should read bodies up to the limit", async () => {
+    const body = await readLimited(new Response("x".repeat(16)), 16);
+
+    expect(body.toString("utf8")).toBe("x".repeat(16));
+  });
+
+  it("should stop reading bodies over the limit", async () => {
+    const stream = new ReadableStream({
+      pull(controller) {
+        controller.enqueue(new Uint8Array(1024));
+      },
+    });
+
+    await expect(readLimited(new Response(stream), 4096)).rejects.toThrow(
+      "exceeds",
+    );
+  });
+
+  it("should reject a declared length over the limit", async () => {
+    const response = new Response("x", {
+      headers: { "Content-Length": "1000000" },
+    });
+
+    await expect(readLimited(response, 1024)).rejects.toThrow("exceeds");
+  });
+});
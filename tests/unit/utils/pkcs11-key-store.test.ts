@@ -0,0 +1,66 @@
+import { describe, it, expect, afterAll } from "bun:test";
+import * as crypto from "crypto";
+import {
+  KeyStoreError,
+  Pkcs11KeyStore,
+} from "../../../src/utils/signing/key-store";
+import { toPublicKeyObject } from "../../../src/utils/signing/ed25519-keys";
+
+const data = new TextEncoder().encode("data to sign");
+
+describe("Pkcs11KeyStore", () => {
+  it("should require token settings", async () => {
+    const store = new Pkcs11KeyStore({ module: "", tokenLabel: "", pin: "" });
+
+    await expect(store.generateKey()).rejects.toThrow(KeyStoreError);
+  });
+
+  it("should reject references that are not PKCS#11 object IDs", async () => {
+    const store = new Pkcs11KeyStore();
+
+    expect(store.handles("pkcs11:0a0b")).toBe(true);
+    expect(store.handles("keyring:0a0b")).toBe(false);
+    await expect(store.sign("pkcs11:not-hex", data)).rejects.toThrow(
+      "Not a PKCS#11 reference",
+    );
+  });
+
+  // Runs against a SoftHSM token, see scripts/init-softhsm.sh
+  describe.skipIf(!process.env.PKCS11_MODULE)("with a token", () => {
+    const store = new Pkcs11KeyStore();
+
+    afterAll(async () => {
+      await store.close();
+    });
+
+    it("should sign with a key generated on the token", async () => {
+      const { publicKey, reference } = await store.generateKey();
+      const signature = await store.sign(reference, data);
+
+      expect(reference.startsWith("pkcs11:")).toBe(true);
+      expect(
+        crypto.verify(null, data, toPublicKeyObject(publicKey), signature),
+      ).toBe(true);
+    });
+
+    it("should sign with an imported key", async () => {
+      const { privateKey, publicKey } = crypto.generateKeyPairSync("ed25519");
+      const reference = await store.importKey(
+        Buffer.from(
+          privateKey.export({ format: "jwk" }).d as string,
+          "base64url",
+        ),
+      );
+
+      const signature = await store.sign(reference, data);
+
+      expect(crypto.verify(null, data, publicKey, signature)).toBe(true);
+    });
+
+    it("should report keys that are not on the token", async () => {
+      await expect(
+        store.sign(`pkcs11:${crypto.randomBytes(16).toString("hex")}`, data),
+      ).rejects.toThrow("is not available");
+    });
+  });
+});
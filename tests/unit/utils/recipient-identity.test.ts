@@ -0,0 +1,76 @@
+import { describe, it, expect } from "bun:test";
+import * as crypto from "crypto";
+import {
+  generateRecipientSalt,
+  hashRecipientIdentity,
+  isHashedIdentity,
+  recipientIdentityMatches,
+} from "../../../src/utils/recipient-identity";
+
+describe("Recipient identity hashing", () => {
+  it("should hash the normalized identity with its salt", () => {
+    const expected = crypto
+      .createHash("sha256")
+      .update("alice@example.com" + "deadbeef")
+      .digest("hex");
+
+    expect(
+      hashRecipientIdentity(" Alice@Example.com ", "email", "deadbeef"),
+    ).toBe(`sha256$${expected}`);
+    expect(isHashedIdentity(`sha256$${expected}`)).toBe(true);
+    expect(isHashedIdentity("alice@example.com")).toBe(false);
+  });
+
+  it("should generate a different salt each time", () => {
+    expect(generateRecipientSalt()).not.toBe(generateRecipientSalt());
+  });
+
+  it("should match hashed identities only with the right salt", () => {
+    const salt = generateRecipientSalt();
+    const recipient = {
+      type: "email",
+      identity: hashRecipientIdentity("alice@example.com", "email", salt),
+      hashed: true,
+      salt,
+    };
+
+    expect(recipientIdentityMatches(recipient, "ALICE@example.com")).toBe(true);
+    expect(recipientIdentityMatches(recipient, "bob@example.com")).toBe(false);
+    expect(
+      recipientIdentityMatches(
+        { ...recipient, salt: generateRecipientSalt() },
+        "alice@example.com",
+      ),
+    ).toBe(false);
+  });
+
+  it("should match unsalted md5 hashes of other issuers", () => {
+    const digest = crypto
+      .createHash("md5")
+      .update("Alice@example.com")
+      .digest("hex");
+
+    expect(
+      recipientIdentityMatches(
+        { type: "email", identity: `md5$${digest}`, hashed: true },
+        "Alice@example.com",
+      ),
+    ).toBe(true);
+  });
+
+  it("should compare plaintext identities", () => {
+    const recipient = {
+      type: "email",
+      identity: "alice@example.com",
+      hashed: false,
+    };
+
+    expect(recipientIdentityMatches(recipient, "Alice@Example.com")).toBe(true);
+    expect(
+      recipientIdentityMatches(
+        { type: "url", identity: "https://example.com/Alice", hashed: false },
+        "https://example.com/alice",
+      ),
+    ).toBe(false);
+  });
+});
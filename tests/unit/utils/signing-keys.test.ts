@@ -0,0 +1,78 @@
+import { describe, it, expect } from "bun:test";
+import { checkKeyValidity } from "../../../src/utils/signing/keys";
+
+const validFrom = new Date("2024-01-01T00:00:00.000Z");
+const retiredAt = new Date("2024-06-01T00:00:00.000Z");
+
+describe("Signing key validity", () => {
+  it("should accept signatures made by the active key", () => {
+    const key = {
+      status: "active" as const,
+      validFrom,
+      validUntil: null,
+      compromisedAt: null,
+    };
+
+    expect(checkKeyValidity(key, new Date("2024-03-01T00:00:00Z")).valid).toBe(
+      true,
+    );
+  });
+
+  it("should reject signatures that predate the key", () => {
+    const key = {
+      status: "active" as const,
+      validFrom,
+      validUntil: null,
+      compromisedAt: null,
+    };
+
+    const result = checkKeyValidity(key, new Date("2023-12-31T23:59:59Z"));
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain("predates");
+  });
+
+  it("should keep accepting signatures a retired key made while it was valid", () => {
+    const key = {
+      status: "retired" as const,
+      validFrom,
+      validUntil: retiredAt,
+      compromisedAt: null,
+    };
+
+    expect(checkKeyValidity(key, new Date("2024-05-31T00:00:00Z")).valid).toBe(
+      true,
+    );
+    const result = checkKeyValidity(key, new Date("2024-06-02T00:00:00Z"));
+    expect(result.valid).toBe(false);
+    expect(result.reason).toContain("retired");
+  });
+
+  it("should reject signatures made on or after the compromise date", () => {
+    const compromisedAt = new Date("2024-04-01T00:00:00.000Z");
+    const key = {
+      status: "compromised" as const,
+      validFrom,
+      validUntil: compromisedAt,
+      compromisedAt,
+    };
+
+    expect(checkKeyValidity(key, new Date("2024-03-31T00:00:00Z")).valid).toBe(
+      true,
+    );
+    expect(checkKeyValidity(key, compromisedAt).valid).toBe(false);
+    expect(
+      checkKeyValidity(key, new Date("2024-04-02T00:00:00Z")).reason,
+    ).toContain("compromised");
+  });
+
+  it("should reject signatures without a valid time", () => {
+    const key = {
+      status: "active" as const,
+      validFrom,
+      validUntil: null,
+      compromisedAt: null,
+    };
+
+    expect(checkKeyValidity(key, new Date("not a date")).valid).toBe(false);
+  });
+});
@@ -7,6 +7,9 @@ import {
   isCredentialRevoked,
   getIndexFromUuid,
   createStatusListCredential,
+  decodeLegacyBitString,
+  isLegacyBitString,
+  MIN_STATUS_LIST_SIZE,
 } from "../../../src/utils/signing/status-list";
 import BitSet from "../../../src/utils/bitset";
 
@@ -59,6 +62,94 @@ describe("Status List Utilities", () => {
       const updated2 = updateCredentialStatus(updated1, 15, false);
       expect(isCredentialRevoked(updated2, 15)).toBe(false);
     });
+
+    it("should update several indices at once", () => {
+      const original = createEncodedBitString();
+
+      const updated = updateCredentialStatus(original, [3, 42, 1000], true);
+      expect(isCredentialRevoked(updated, 3)).toBe(true);
+      expect(isCredentialRevoked(updated, 42)).toBe(true);
+      expect(isCredentialRevoked(updated, 1000)).toBe(true);
+      expect(isCredentialRevoked(updated, 4)).toBe(false);
+
+      // No bit changes if any index is out of range
+      expect(() =>
+        updateCredentialStatus(original, [1, MIN_STATUS_LIST_SIZE], true),
+      ).toThrow(RangeError);
+    });
+  });
+
+  describe("Compressed encoding", () => {
+    it("should GZIP compress and base64url encode the list", () => {
+      const encoded = createEncodedBitString();
+
+      expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+      // GZIP magic bytes 1f 8b encode as "H4sI"
+      expect(encoded.startsWith("H4sI")).toBe(true);
+      // 16KB of zeros compresses to well under a kilobyte
+      expect(encoded.length).toBeLessThan(1024);
+    });
+
+    it("should hold at least the minimum number of entries", () => {
+      expect(decodeBitString(createEncodedBitString(128)).size).toBe(
+        MIN_STATUS_LIST_SIZE,
+      );
+    });
+
+    it("should prefix Bitstring Status List values with the multibase code", () => {
+      const bitset = new BitSet(MIN_STATUS_LIST_SIZE);
+      bitset.set(7);
+
+      const encoded = encodeBitString(bitset, "BitstringStatusList");
+      expect(encoded.startsWith("uH4sI")).toBe(true);
+      expect(decodeBitString(encoded).get(7)).toBe(true);
+
+      // Updates keep the encoding of the list
+      const updated = updateCredentialStatus(encoded, 8, true);
+      expect(updated.startsWith("u")).toBe(true);
+      expect(isCredentialRevoked(updated, 8)).toBe(true);
+    });
+
+    it("should store index 0 in the most significant bit", () => {
+      const bitset = new BitSet(MIN_STATUS_LIST_SIZE);
+      bitset.set(0);
+      bitset.set(9);
+
+      const bytes = bitset.toBytes();
+      expect(bytes[0]).toBe(0x80);
+      expect(bytes[1]).toBe(0x40);
+    });
+
+    it("should decode the specification example", () => {
+      const decoded = decodeBitString(
+        "uH4sIAAAAAAAAA-3BMQEAAADCoPVPbQwfoAAAAAAAAAAAAAAAAAAAAIC3AYbSVKsAQAAA",
+      );
+
+      expect(decoded.size).toBe(MIN_STATUS_LIST_SIZE);
+      expect(decoded.get(0)).toBe(false);
+      expect(decoded.get(MIN_STATUS_LIST_SIZE - 1)).toBe(false);
+    });
+
+    it("should reject indices outside the list", () => {
+      expect(() =>
+        updateCredentialStatus(
+          createEncodedBitString(),
+          MIN_STATUS_LIST_SIZE,
+          true,
+        ),
+      ).toThrow(RangeError);
+    });
+
+    it("should read lists in the legacy uncompressed format", () => {
+      const legacy = new BitSet(64);
+      legacy.set(3);
+      const encoded = Buffer.from(legacy.toString()).toString("base64");
+
+      expect(isLegacyBitString(encoded)).toBe(true);
+      expect(isLegacyBitString(createEncodedBitString())).toBe(false);
+      expect(decodeLegacyBitString(encoded).get(3)).toBe(true);
+      expect(() => decodeBitString(encoded)).toThrow("not GZIP compressed");
+    });
   });
 
   describe("UUID to index mapping", () => {
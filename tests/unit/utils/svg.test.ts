@@ -0,0 +1,54 @@
+import { describe, it, expect } from "bun:test";
+import {
+  SvgError,
+  findOpenBadgesAssertion,
+  parseSvg,
+  sanitizeSvg,
+  serializeSvg,
+} from "../../../src/utils/media/svg";
+
+describe("SVG sanitizing", () => {
+  it("should remove scripts, event handlers and external references", () => {
+    const svg = parseSvg(
+      `<?xml version="1.0"?>
+<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="10" height="10" onload="alert(1)"><script>alert(1)</script><foreignObject><div/></foreignObject><image xlink:href="https://example.com/tracker.png"/><use href="#shape"/><rect style="fill:url(https://example.com/x)" fill="url(#gradient)"/><set attributeName="href" to="javascript:alert(1)"/><style>@import url(https://example.com/x.css);</style><text>a &amp; b</text></svg>`,
+    );
+
+    expect(serializeSvg(sanitizeSvg(svg))).toBe(
+      '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="10" height="10"><image/><use href="#shape"/><rect fill="url(#gradient)"/><text>a &amp; b</text></svg>',
+    );
+  });
+
+  it("should reject document type declarations and undefined entities", () => {
+    expect(() =>
+      parseSvg(
+        '<!DOCTYPE svg [<!ENTITY xxe SYSTEM "file:///etc/passwd">]><svg>&xxe;</svg>',
+      ),
+    ).toThrow("SVG images must not have a document type declaration");
+    expect(() => parseSvg("<svg>&xxe;</svg>")).toThrow(SvgError);
+    expect(() => parseSvg("<svg><g></svg>")).toThrow(SvgError);
+    expect(() => parseSvg("<html/>")).toThrow("Not an SVG image");
+  });
+
+  it("should keep embedded content from escaping its element", () => {
+    const svg = parseSvg('<svg xmlns="http://www.w3.org/2000/svg"/>');
+    svg.attributes["xmlns:openbadges"] = "http://openbadges.org";
+    svg.children.push({
+      type: "element",
+      name: "openbadges:assertion",
+      attributes: { verify: 'https://example.com/"><script>' },
+      children: [{ type: "cdata", value: '{"id":"]]><script>"}' }],
+    });
+
+    const baked = parseSvg(serializeSvg(svg));
+    const assertion = findOpenBadgesAssertion(baked);
+
+    expect(assertion?.attributes.verify).toBe('https://example.com/"><script>');
+    expect(
+      assertion?.children
+        .map((child) => (child.type === "element" ? "" : child.value))
+        .join(""),
+    ).toBe('{"id":"]]><script>"}');
+    expect(sanitizeSvg(baked).children).toHaveLength(1);
+  });
+});
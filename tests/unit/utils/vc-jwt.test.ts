@@ -0,0 +1,161 @@
+import { describe, it, expect } from "bun:test";
+import * as crypto from "crypto";
+import * as jose from "jose";
+import {
+  encodeCredentialJwt,
+  decodeCredentialJwt,
+  verifyCredentialJwt,
+  isCompactJwt,
+} from "../../../src/utils/signing/vc-jwt";
+import { OB3_CREDENTIAL_CONTEXT } from "../../../src/constants/context-urls";
+
+const KID = "did:key:z6MkTest#z6MkTest";
+
+// Raw Ed25519 keys generated with the platform crypto, not the mocked libraries
+function generateRawKeyPair() {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519");
+  const jwk = privateKey.export({ format: "jwk" });
+  return {
+    privateKey: new Uint8Array(Buffer.from(jwk.d as string, "base64url")),
+    publicKey: new Uint8Array(
+      Buffer.from(publicKey.export({ format: "jwk" }).x as string, "base64url"),
+    ),
+  };
+}
+
+const credential = {
+  "@context": OB3_CREDENTIAL_CONTEXT,
+  id: "https://example.com/assertions/550e8400-e29b-41d4-a716-446655440010",
+  type: ["VerifiableCredential", "OpenBadgeCredential"],
+  issuer: "https://example.com/issuers/550e8400-e29b-41d4-a716-446655440001",
+  issuanceDate: "2024-01-01T00:00:00.000Z",
+  expirationDate: "2030-01-01T00:00:00.000Z",
+  credentialSubject: {
+    id: "did:example:recipient123",
+    type: ["AchievementSubject"],
+    achievement: {
+      id: "https://example.com/badges/550e8400-e29b-41d4-a716-446655440000",
+      type: ["Achievement"],
+      name: "Test Achievement",
+    },
+  },
+};
+
+describe("VC-JWT", () => {
+  it("should encode a credential as an EdDSA signed JWT", async () => {
+    const { privateKey } = generateRawKeyPair();
+
+    const jwt = await encodeCredentialJwt(
+      { ...credential, proof: { type: "DataIntegrityProof" } },
+      privateKey,
+      KID,
+    );
+
+    expect(isCompactJwt(jwt)).toBe(true);
+
+    const header = jose.decodeProtectedHeader(jwt);
+    expect(header.alg).toBe("EdDSA");
+    expect(header.kid).toBe(KID);
+
+    const payload = jose.decodeJwt(jwt);
+    expect(payload.iss).toBe(credential.issuer);
+    expect(payload.jti).toBe(credential.id);
+    expect(payload.sub).toBe(credential.credentialSubject.id);
+    expect(payload.nbf).toBe(Date.parse(credential.issuanceDate) / 1000);
+    expect(payload.exp).toBe(Date.parse(credential.expirationDate) / 1000);
+    expect(payload.vc).toEqual(credential);
+  });
+
+  it("should verify a JWT signed with the matching key", async () => {
+    const { privateKey, publicKey } = generateRawKeyPair();
+    const jwt = await encodeCredentialJwt(credential, privateKey, KID);
+
+    expect(await verifyCredentialJwt(jwt, publicKey)).toBe(true);
+    expect(decodeCredentialJwt(jwt).credential).toEqual(credential);
+  });
+
+  it("should sign through a key store signer", async () => {
+    const { privateKey, publicKey } = generateRawKeyPair();
+    const keyObject = crypto.createPrivateKey({
+      key: Buffer.concat([
+        Buffer.from("302e020100300506032b657004220420", "hex"),
+        privateKey,
+      ]),
+      format: "der",
+      type: "pkcs8",
+    });
+
+    const jwt = await encodeCredentialJwt(
+      credential,
+      async (data) => new Uint8Array(crypto.sign(null, data, keyObject)),
+      KID,
+    );
+
+    expect(await verifyCredentialJwt(jwt, publicKey)).toBe(true);
+  });
+
+  it("should reject a JWT signed with a different key", async () => {
+    const { privateKey } = generateRawKeyPair();
+    const { publicKey } = generateRawKeyPair();
+    const jwt = await encodeCredentialJwt(credential, privateKey, KID);
+
+    expect(await verifyCredentialJwt(jwt, publicKey)).toBe(false);
+  });
+
+  it("should reject a JWT with a tampered payload", async () => {
+    const { privateKey, publicKey } = generateRawKeyPair();
+    const jwt = await encodeCredentialJwt(credential, privateKey, KID);
+
+    const [header, , signature] = jwt.split(".");
+    const tamperedPayload = Buffer.from(
+      JSON.stringify({
+        ...jose.decodeJwt(jwt),
+        vc: { ...credential, issuer: "https://attacker.example/issuers/1" },
+      }),
+    ).toString("base64url");
+
+    expect(
+      await verifyCredentialJwt(
+        `${header}.${tamperedPayload}.${signature}`,
+        publicKey,
+      ),
+    ).toBe(false);
+  });
+
+  it("should fill in credential properties from registered claims", async () => {
+    const { privateKey } = generateRawKeyPair();
+    const jwt = await new jose.SignJWT({
+      vc: {
+        "@context": credential["@context"],
+        type: credential.type,
+        credentialSubject: { type: ["AchievementSubject"] },
+      },
+    })
+      .setProtectedHeader({ alg: "EdDSA" })
+      .setIssuer(credential.issuer)
+      .setJti(credential.id)
+      .setSubject("did:example:recipient123")
+      .setNotBefore(Date.parse(credential.issuanceDate) / 1000)
+      .sign(
+        crypto.createPrivateKey({
+          key: Buffer.concat([
+            Buffer.from("302e020100300506032b657004220420", "hex"),
+            privateKey,
+          ]),
+          format: "der",
+          type: "pkcs8",
+        }),
+      );
+
+    const decoded = decodeCredentialJwt(jwt).credential;
+    expect(decoded.id).toBe(credential.id);
+    expect(decoded.issuer).toBe(credential.issuer);
+    expect(decoded.issuanceDate).toBe(credential.issuanceDate);
+    expect(decoded.credentialSubject?.id).toBe("did:example:recipient123");
+  });
+
+  it("should not treat JSON credentials as JWTs", () => {
+    expect(isCompactJwt(credential)).toBe(false);
+    expect(isCompactJwt("not a jwt")).toBe(false);
+  });
+});